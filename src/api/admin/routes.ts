@@ -1,3 +1,4 @@
+import { JobStatus, JobType } from '@prisma/client';
 import express, { Response } from 'express';
 import { passport } from '../auth/passportConfig';
 import { assertUserIsAdminMiddleware } from '../auth/utils';
@@ -8,15 +9,34 @@ import {
   ECSClient,
   UpdateServiceCommand,
 } from '@aws-sdk/client-ecs';
-import { InternalServerError } from '../exceptions';
+import { BadRequestException, InternalServerError } from '../exceptions';
 import { config } from '../config';
 import { initialiseAdmins } from '../initialise';
+import { deleteExpiredJobLogs } from '../services/jobLogs';
+import { JobService } from '../services/jobs';
+import { getJobStats } from '../services/jobStats';
+import {
+  clearJobQuotaOverrides,
+  getJobQuota,
+  setJobQuotaOverrides,
+} from '../services/quotas';
+import { ScheduleService } from '../services/schedules';
+import { WebhookService } from '../services/webhooks';
+import {
+  jobAssignmentSchema,
+  jobDetailsSchema,
+  JobQuotaResponse,
+  jobResultSchema,
+} from '../jobs/routes';
 
 require('express-async-errors');
 export const router = express.Router();
 
 // Initialize ECS client
 const ecsClient = new ECSClient({ region: config.aws.region });
+const jobService = new JobService();
+const webhookService = new WebhookService();
+const scheduleService = new ScheduleService();
 
 // Require admin middleware
 
@@ -57,6 +77,152 @@ export type GetClusterCountResponse = z.infer<
   typeof GetClusterCountResponseSchema
 >;
 
+// Result of sweeping expired job assignments
+export const PostSweepJobsResponseSchema = z.object({
+  timedOut: z.number(),
+  requeued: z.number(),
+  // Worker log lines deleted as past their retention period
+  deletedLogs: z.number(),
+});
+export type PostSweepJobsResponse = z.infer<typeof PostSweepJobsResponseSchema>;
+
+// Result of sending due webhook deliveries
+export const PostDispatchWebhooksResponseSchema = z.object({
+  attempted: z.number(),
+  succeeded: z.number(),
+});
+export type PostDispatchWebhooksResponse = z.infer<
+  typeof PostDispatchWebhooksResponseSchema
+>;
+
+// Result of running due job schedules
+export const PostRunSchedulesResponseSchema = z.object({
+  // Runs which requested a job
+  ran: z.number(),
+  // Runs whose job request failed, e.g. over the owner's quota
+  failed: z.number(),
+});
+export type PostRunSchedulesResponse = z.infer<
+  typeof PostRunSchedulesResponseSchema
+>;
+
+// Dead lettered jobs with their assignment history
+export const GetDeadLetterJobsResponseSchema = z.object({
+  jobs: z.array(
+    jobDetailsSchema.extend({
+      assignments: z.array(
+        jobAssignmentSchema.extend({ result: jobResultSchema.nullable() }),
+      ),
+    }),
+  ),
+  total: z.number(),
+});
+export type GetDeadLetterJobsResponse = z.infer<
+  typeof GetDeadLetterJobsResponseSchema
+>;
+
+// To requeue a job, optionally with an edited input payload
+export const PostRequeueJobInputSchema = z.object({
+  inputPayload: z.any().optional(),
+});
+export type PostRequeueJobInput = z.infer<typeof PostRequeueJobInputSchema>;
+
+// To permanently fail a job
+export const PostFailJobInputSchema = z.object({
+  reason: z.string().min(1),
+});
+export type PostFailJobInput = z.infer<typeof PostFailJobInputSchema>;
+
+// To change a job's priority
+export const PutJobPriorityInputSchema = z.object({
+  priority: z.number().int(),
+});
+export type PutJobPriorityInput = z.infer<typeof PutJobPriorityInputSchema>;
+
+// To invalidate job cache entries - matching all given filters
+export const PostInvalidateJobCacheInputSchema = z
+  .object({
+    type: z.nativeEnum(JobType).optional(),
+    datasetVersion: z.string().optional(),
+    hash: z.string().optional(),
+  })
+  .refine(
+    filters => filters.type || filters.datasetVersion || filters.hash,
+    'Specify at least one of type, datasetVersion or hash',
+  );
+export type PostInvalidateJobCacheInput = z.infer<
+  typeof PostInvalidateJobCacheInputSchema
+>;
+export const PostInvalidateJobCacheResponseSchema = z.object({
+  invalidated: z.number(),
+});
+export type PostInvalidateJobCacheResponse = z.infer<
+  typeof PostInvalidateJobCacheResponseSchema
+>;
+
+// To override a user's job quotas - omitted limits use the defaults
+export const PutUserJobQuotaInputSchema = z.object({
+  maxConcurrentJobs: z.number().int().min(0).nullable().optional(),
+  dailyJobLimits: z
+    .record(z.nativeEnum(JobType), z.number().int().min(0))
+    .optional(),
+});
+export type PutUserJobQuotaInput = z.infer<typeof PutUserJobQuotaInputSchema>;
+
+// Window for job stats - defaults to the 24 hours to now
+export const GetJobStatsQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+const durationStatsSchema = z.object({
+  count: z.number(),
+  p50: z.number().nullable(),
+  p95: z.number().nullable(),
+});
+const jobTypeStatsSchema = z.object({
+  waitSeconds: durationStatsSchema,
+  runSeconds: durationStatsSchema,
+  attempts: z.object({
+    completed: z.number(),
+    timedOut: z.number(),
+    timeoutRate: z.number().nullable(),
+  }),
+  outcomes: z.object({
+    finished: z.number(),
+    succeeded: z.number(),
+    failed: z.number(),
+    timedOut: z.number(),
+    deadLettered: z.number(),
+    cancelled: z.number(),
+    failureRate: z.number().nullable(),
+    timeoutRate: z.number().nullable(),
+  }),
+  requests: z.object({
+    total: z.number(),
+    cacheHits: z.number(),
+    cacheHitRatio: z.number().nullable(),
+  }),
+});
+export const GetJobStatsResponseSchema = z.object({
+  window: z.object({ from: z.date(), to: z.date() }),
+  queue: z.array(
+    z.object({
+      type: z.nativeEnum(JobType),
+      status: z.nativeEnum(JobStatus),
+      count: z.number(),
+    }),
+  ),
+  types: z.record(z.nativeEnum(JobType), jobTypeStatsSchema),
+  overall: jobTypeStatsSchema,
+});
+export type GetJobStatsQuery = z.infer<typeof GetJobStatsQuerySchema>;
+export type GetJobStatsResponse = z.infer<typeof GetJobStatsResponseSchema>;
+
+export const AdminJobResponseSchema = z.object({
+  job: jobDetailsSchema,
+});
+export type AdminJobResponse = z.infer<typeof AdminJobResponseSchema>;
+
 /**
  * Configure the compute cluster to scale to the specified count.
  */
@@ -196,3 +362,207 @@ router.get(
     return;
   },
 );
+
+/**
+ * Times out job assignments whose lease has expired, requeueing or finalising
+ * their jobs, and deletes expired worker logs. Allows the sweep to be driven
+ * externally (e.g. by the job manager) when the API's in-process sweeper is
+ * disabled.
+ */
+router.post(
+  '/jobs/sweep',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  async (req, res: Response<PostSweepJobsResponse>) => {
+    const result = await jobService.sweepExpiredAssignments();
+    const deletedLogs = await deleteExpiredJobLogs();
+    res.json({ ...result, deletedLogs });
+  },
+);
+
+/**
+ * Sends webhook deliveries which are due. Allows dispatch to be driven
+ * externally when the API's in-process dispatcher is disabled.
+ */
+router.post(
+  '/webhooks/dispatch',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  async (req, res: Response<PostDispatchWebhooksResponse>) => {
+    const result = await webhookService.dispatchDueDeliveries();
+    res.json(result);
+  },
+);
+
+/**
+ * Runs job schedules which are due. Allows scheduling to be driven externally
+ * when the API's in-process scheduler is disabled.
+ */
+router.post(
+  '/schedules/run',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  async (req, res: Response<PostRunSchedulesResponse>) => {
+    const result = await scheduleService.runDueSchedules();
+    res.json(result);
+  },
+);
+
+/**
+ * Invalidates cached jobs matching the given type, dataset version and/or
+ * hash, so future requests run new jobs rather than reusing them.
+ */
+router.post(
+  '/jobs/cache/invalidate',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  processRequest({
+    body: PostInvalidateJobCacheInputSchema,
+  }),
+  async (req, res: Response<PostInvalidateJobCacheResponse>) => {
+    const invalidated = await jobService.invalidateJobCache(req.body);
+    res.json({ invalidated });
+  },
+);
+
+/**
+ * Reports how the job system is performing over a window - queue depth, wait
+ * and run times, failure and timeout rates and cache hit ratios.
+ */
+router.get(
+  '/jobs/stats',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  processRequest({
+    query: GetJobStatsQuerySchema,
+  }),
+  async (req, res: Response<GetJobStatsResponse>) => {
+    const to = req.query.to ? new Date(req.query.to) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from)
+      : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+    res.json(await getJobStats(from, to));
+  },
+);
+
+/**
+ * Lists jobs which have exhausted their retryable attempts, with their
+ * assignment history.
+ */
+router.get(
+  '/jobs/dead-letter',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  async (req, res: Response<GetDeadLetterJobsResponse>) => {
+    const { jobs, total } = await jobService.listDeadLetterJobs();
+    res.json({ jobs, total });
+  },
+);
+
+/**
+ * Requeues a failed, timed out or dead lettered job with a fresh set of
+ * attempts, optionally replacing its input payload.
+ */
+router.post(
+  '/jobs/:id/requeue',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  processRequest({
+    params: z.object({ id: z.string() }),
+    body: PostRequeueJobInputSchema,
+  }),
+  async (req, res: Response<AdminJobResponse>) => {
+    const jobId = parseInt(req.params.id);
+    const job = await jobService.requeueJob(jobId, req.body.inputPayload);
+    res.json({ job });
+  },
+);
+
+/**
+ * Permanently fails a pending, blocked or dead lettered job with a reason.
+ */
+router.post(
+  '/jobs/:id/fail',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  processRequest({
+    params: z.object({ id: z.string() }),
+    body: PostFailJobInputSchema,
+  }),
+  async (req, res: Response<AdminJobResponse>) => {
+    const jobId = parseInt(req.params.id);
+    const job = await jobService.failJob(jobId, req.body.reason);
+    res.json({ job });
+  },
+);
+
+/**
+ * Sets a job's priority - higher priority jobs are assigned sooner.
+ */
+router.put(
+  '/jobs/:id/priority',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  processRequest({
+    params: z.object({ id: z.string() }),
+    body: PutJobPriorityInputSchema,
+  }),
+  async (req, res: Response<AdminJobResponse>) => {
+    const jobId = parseInt(req.params.id);
+    const job = await jobService.setJobPriority(jobId, req.body.priority);
+    res.json({ job });
+  },
+);
+
+/**
+ * Gets a user's job quotas, including any overrides, and their usage.
+ */
+router.get(
+  '/users/:id/quota',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  processRequest({
+    params: z.object({ id: z.string() }),
+  }),
+  async (req, res: Response<JobQuotaResponse>) => {
+    const userId = parseInt(req.params.id);
+    res.json({ quota: await getJobQuota(userId) });
+  },
+);
+
+/**
+ * Overrides a user's job quotas, replacing any previous overrides.
+ */
+router.put(
+  '/users/:id/quota',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  processRequest({
+    params: z.object({ id: z.string() }),
+    body: PutUserJobQuotaInputSchema,
+  }),
+  async (req, res: Response<JobQuotaResponse>) => {
+    const userId = parseInt(req.params.id);
+    const quota = await setJobQuotaOverrides(userId, req.body);
+    res.json({ quota });
+  },
+);
+
+/**
+ * Removes a user's job quota overrides, so the defaults apply.
+ */
+router.delete(
+  '/users/:id/quota',
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  processRequest({
+    params: z.object({ id: z.string() }),
+  }),
+  async (req, res: Response<JobQuotaResponse>) => {
+    const userId = parseInt(req.params.id);
+    res.json({ quota: await clearJobQuotaOverrides(userId) });
+  },
+);
@@ -3,15 +3,21 @@ import cors from 'cors';
 import express from 'express';
 import helmet from 'helmet';
 import morgan from 'morgan';
+import swaggerUi from 'swagger-ui-express';
 import { router as adminRoutes } from './admin/routes';
 import { getJwks } from './auth/jwtUtils';
 import { passport } from './auth/passportConfig';
 import { router as authRoutes } from './auth/routes';
 import { router as jobRoutes } from './jobs/routes';
+import { metricsHandler, metricsMiddleware, routePrefix } from './metrics';
 import * as middlewares from './middlewares';
 import { router as noteRoutes } from './notes/routes';
+import { buildOpenApiDocument } from './openapi';
 import { router as polygonRoutes } from './polygons/routes';
+import { router as scheduleRoutes } from './schedules/routes';
 import { router as userRoutes } from './users/routes';
+import { router as webhookRoutes } from './webhooks/routes';
+import { router as workflowRoutes } from './workflows/routes';
 
 require('dotenv').config();
 require('express-async-errors');
@@ -21,6 +27,7 @@ const app = express();
 
 // Helmet and middleware
 app.use(morgan('dev'));
+app.use(metricsMiddleware);
 app.use(helmet());
 app.use(cors());
 app.use(express.json());
@@ -31,7 +38,7 @@ app.use(passport.initialize());
 export const prisma = new PrismaClient();
 
 // Setup the /api sub router
-const api = express.Router();
+export const api = express.Router();
 
 // jwks.json wkt endpoint
 api.get('/.well-known/jwks.json', (req, res) => {
@@ -47,17 +54,36 @@ api.get('/', (req, res) => {
     .send();
 });
 
-// Passport auth routes
-api.use('/auth', authRoutes);
-api.use('/polygons', polygonRoutes);
-api.use('/notes', noteRoutes);
-api.use('/admin', adminRoutes);
-api.use('/users', userRoutes);
-api.use('/jobs', jobRoutes);
+// OpenAPI document generated from the routes' schemas, and a docs page for it
+const openApiDocument = buildOpenApiDocument();
+api.get('/openapi.json', (req, res) => {
+  res.json(openApiDocument);
+});
+api.use('/docs', swaggerUi.serve, swaggerUi.setup(openApiDocument));
+
+/** Feature routers, by the path they are mounted at under /api */
+export const apiRouters: Record<string, express.Router> = {
+  // Passport auth routes
+  '/auth': authRoutes,
+  '/polygons': polygonRoutes,
+  '/notes': noteRoutes,
+  '/admin': adminRoutes,
+  '/users': userRoutes,
+  '/jobs': jobRoutes,
+  '/webhooks': webhookRoutes,
+  '/workflows': workflowRoutes,
+  '/schedules': scheduleRoutes,
+};
+for (const [path, router] of Object.entries(apiRouters)) {
+  api.use(path, routePrefix(`/api${path}`), router);
+}
 
 // API base router
 app.use('/api', api);
 
+// Prometheus metrics - outside /api as they're for scrapers, not clients
+app.get('/metrics', metricsHandler);
+
 // Passes status code from custom exceptions through to error response
 app.use(middlewares.errorMiddleware);
 
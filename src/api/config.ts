@@ -26,6 +26,59 @@ const envSchema = z.object({
   WORKER_PASSWORD: z.string(),
   ADMIN_USERNAME: z.string(),
   ADMIN_PASSWORD: z.string(),
+  // How often the API sweeps for expired job assignments - 0 disables the
+  // in-process sweeper (e.g. if the job manager runs it instead)
+  SWEEPER_INTERVAL_SECONDS: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .default('60'),
+  // How often the API runs due job schedules - 0 disables the in-process
+  // scheduler
+  SCHEDULER_INTERVAL_SECONDS: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .default('60'),
+  // Version of the reef datasets/models jobs run against. Part of every job's
+  // cache hash - bump it when the datasets change so stale results aren't
+  // reused
+  DATASET_VERSION: z.string().min(1).default('1'),
+  // Default maximum number of a user's jobs which may be pending, blocked or
+  // in progress at once - admins can override it per user
+  MAX_CONCURRENT_JOBS_PER_USER: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .default('100'),
+  // Most log lines kept per job assignment - later lines are dropped
+  JOB_LOG_MAX_LINES_PER_ASSIGNMENT: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .default('10000'),
+  // How long worker logs are kept - the job sweeper deletes older lines
+  JOB_LOG_RETENTION_DAYS: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .default('30'),
+  // How often the API sends due webhook deliveries - 0 disables the
+  // in-process dispatcher
+  WEBHOOK_DISPATCH_INTERVAL_SECONDS: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .default('10'),
+  // Allow webhooks to target loopback, private and link-local addresses - only
+  // for local development and tests, as it lets users reach internal services
+  WEBHOOK_ALLOW_PRIVATE_TARGETS: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform(value => value === 'true'),
+  // Bearer token Prometheus must send to scrape /metrics - unset leaves the
+  // endpoint open (e.g. when it's only reachable from inside the network)
+  METRICS_TOKEN: z.string().min(1).optional(),
 });
 
 /**
@@ -56,6 +109,23 @@ export interface Config {
     urlExpirySeconds: number;
     maxFiles: number;
   };
+  jobs: {
+    sweeperIntervalSeconds: number;
+    schedulerIntervalSeconds: number;
+    datasetVersion: string;
+    maxConcurrentJobsPerUser: number;
+  };
+  jobLogs: {
+    maxLinesPerAssignment: number;
+    retentionDays: number;
+  };
+  webhooks: {
+    dispatchIntervalSeconds: number;
+    allowPrivateTargets: boolean;
+  };
+  metrics: {
+    token?: string;
+  };
   creds: {
     managerUsername: string;
     managerPassword: string;
@@ -105,6 +175,23 @@ export function getConfig(): Config {
       maxFiles: env.S3_MAX_FILES,
       urlExpirySeconds: env.S3_URL_EXPIRY_SECONDS,
     },
+    jobs: {
+      sweeperIntervalSeconds: env.SWEEPER_INTERVAL_SECONDS,
+      schedulerIntervalSeconds: env.SCHEDULER_INTERVAL_SECONDS,
+      datasetVersion: env.DATASET_VERSION,
+      maxConcurrentJobsPerUser: env.MAX_CONCURRENT_JOBS_PER_USER,
+    },
+    jobLogs: {
+      maxLinesPerAssignment: env.JOB_LOG_MAX_LINES_PER_ASSIGNMENT,
+      retentionDays: env.JOB_LOG_RETENTION_DAYS,
+    },
+    webhooks: {
+      dispatchIntervalSeconds: env.WEBHOOK_DISPATCH_INTERVAL_SECONDS,
+      allowPrivateTargets: env.WEBHOOK_ALLOW_PRIVATE_TARGETS,
+    },
+    metrics: {
+      token: env.METRICS_TOKEN,
+    },
     creds: {
       workerPassword: env.WORKER_PASSWORD,
       workerUsername: env.WORKER_USERNAME,
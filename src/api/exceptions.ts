@@ -71,6 +71,15 @@ export class ForbiddenException extends BaseApiException {
   }
 }
 
+/**
+ * Exception for requests exceeding a quota or rate limit (HTTP 429).
+ */
+export class TooManyRequestsException extends BaseApiException {
+  constructor(message: string = 'Too many requests', cause?: Error) {
+    super(message, 429, cause);
+  }
+}
+
 /**
  * Base class for refresh token related exceptions.
  */
@@ -1,14 +1,54 @@
 import app from './apiSetup';
 import { config } from './config';
 import { initialiseAdmins } from './initialise';
+import { assertJobTypesConsistent } from './services/jobTypes';
+import { startJobScheduler } from './services/schedules';
+import { startJobSweeper } from './services/sweeper';
+import { startWebhookDispatcher } from './services/webhooks';
 
 console.log('Initializing admins...');
 initialiseAdmins();
 
+/**
+ * Starts the in-process background loops which are enabled - only once the
+ * job type registry is known to be consistent, as they act on jobs using it
+ */
+function startBackgroundLoops() {
+  if (config.jobs.sweeperIntervalSeconds > 0) {
+    console.log(
+      `Starting job sweeper (every ${config.jobs.sweeperIntervalSeconds}s)...`,
+    );
+    startJobSweeper(config.jobs.sweeperIntervalSeconds);
+  }
+
+  if (config.jobs.schedulerIntervalSeconds > 0) {
+    console.log(
+      `Starting job scheduler (every ${config.jobs.schedulerIntervalSeconds}s)...`,
+    );
+    startJobScheduler(config.jobs.schedulerIntervalSeconds);
+  }
+
+  if (config.webhooks.dispatchIntervalSeconds > 0) {
+    console.log(
+      `Starting webhook dispatcher (every ${config.webhooks.dispatchIntervalSeconds}s)...`,
+    );
+    startWebhookDispatcher(config.webhooks.dispatchIntervalSeconds);
+  }
+}
+
 const port = config.port || 5000;
 
-app.listen(port, () => {
-  /* eslint-disable no-console */
-  console.log(`Listening: http://localhost:${port}`);
-  /* eslint-enable no-console */
-});
+// Refuse to serve if the job type registry doesn't match the code or database
+assertJobTypesConsistent()
+  .then(() => {
+    startBackgroundLoops();
+    app.listen(port, () => {
+      /* eslint-disable no-console */
+      console.log(`Listening: http://localhost:${port}`);
+      /* eslint-enable no-console */
+    });
+  })
+  .catch(e => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -1,13 +1,30 @@
 import express, { Response } from 'express';
 import { z } from 'zod';
 import { processRequest } from 'zod-express-middleware';
-import { JobType, JobStatus, StorageScheme } from '@prisma/client';
+import { JobLogLevel, JobType, JobStatus, StorageScheme } from '@prisma/client';
 import { passport } from '../auth/passportConfig';
-import { JobService } from '../services/jobs';
-import { userIsAdmin } from '../auth/utils';
+import {
+  JOB_REQUEST_SORT_FIELDS,
+  JOB_SORT_FIELDS,
+  JobRequestSortField,
+  JobService,
+  JobSortField,
+  ListParams,
+} from '../services/jobs';
+import { MAX_PAGE_SIZE } from '../services/pagination';
+import { describeJobType, jobFailureSchema } from '../services/jobTypes';
+import { getJobQuota } from '../services/quotas';
+import {
+  appendJobLogs,
+  getJobLogs,
+  MAX_LOG_BATCH_SIZE,
+  MAX_LOG_PAGE_SIZE,
+} from '../services/jobLogs';
+import { assertUserIsAdminMiddleware, userIsAdmin } from '../auth/utils';
 import { BadRequestException, UnauthorizedException } from '../exceptions';
 import { config } from '../config';
 import { S3StorageService } from '../services/s3Storage';
+import { JobEvent, streamJobEvents } from '../services/jobEvents';
 require('express-async-errors');
 
 // API interfaces
@@ -23,6 +40,11 @@ export const jobAssignmentSchema = z.object({
   storage_uri: z.string(),
   heartbeat_at: z.date().nullable(),
   completed_at: z.date().nullable(),
+  timed_out: z.boolean(),
+  progress_percent: z.number().nullable(),
+  progress_stage: z.string().nullable(),
+  progress_message: z.string().nullable(),
+  progress_at: z.date().nullable(),
 });
 
 export const jobRequestSchema = z.object({
@@ -33,6 +55,7 @@ export const jobRequestSchema = z.object({
   input_payload: z.any(),
   cache_hit: z.boolean(),
   job_id: z.number(),
+  batch_id: z.number().nullable(),
 });
 
 export const jobResultSchema = z.object({
@@ -44,6 +67,8 @@ export const jobResultSchema = z.object({
   storage_scheme: z.nativeEnum(StorageScheme),
   storage_uri: z.string(),
   metadata: z.any().nullable(),
+  // Why the attempt failed, if the worker said - see jobFailureSchema
+  failure: z.any().nullable(),
 });
 
 export const jobDetailsSchema = z.object({
@@ -54,14 +79,69 @@ export const jobDetailsSchema = z.object({
   status: z.nativeEnum(JobStatus),
   user_id: z.number(),
   input_payload: z.any(),
+  attempts: z.number(),
+  available_at: z.date().nullable(),
+  failure_reason: z.string().nullable(),
+  priority: z.number(),
+  // Latest results of the jobs this job depended on, once they succeeded
+  dependency_results: z.any().nullable(),
+  // Dataset/model version the job ran against
+  dataset_version: z.string().nullable(),
+  // Set once an admin has invalidated the job's cache entry
+  cache_invalidated_at: z.date().nullable(),
+  // Set if the job was cancelled while a worker was running it
+  cancellation_requested_at: z.date().nullable(),
 });
 
-export const listJobsSchema = z.object({
+// Filters and paging shared by the job and job request lists
+const listQuerySchema = z.object({
+  type: z.nativeEnum(JobType).optional(),
+  // Owner - admins only
+  userId: z.string().regex(/^\d+$/).optional(),
+  // Created at or after / strictly before
+  createdAfter: z.string().datetime({ offset: true }).optional(),
+  createdBefore: z.string().datetime({ offset: true }).optional(),
+  // Requests served from the cache - for jobs, whether a later request reused
+  // the job
+  cacheHit: z.enum(['true', 'false']).optional(),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .refine(limit => {
+      const n = parseInt(limit);
+      return n >= 1 && n <= MAX_PAGE_SIZE;
+    }, `Limit must be between 1 and ${MAX_PAGE_SIZE}`)
+    .optional(),
+  // nextCursor from the previous page
+  cursor: z.string().optional(),
+  // Summaries omit the nested assignments/results
+  view: z.enum(['full', 'summary']).default('full'),
+});
+
+export const listJobsSchema = listQuerySchema.extend({
   status: z.nativeEnum(JobStatus).optional(),
+  sort: z.enum(JOB_SORT_FIELDS).default('created_at'),
 });
 export const listJobsResponseSchema = z.object({
-  jobs: z.array(jobDetailsSchema),
+  jobs: z.array(
+    jobDetailsSchema.extend({
+      // Omitted from summaries
+      assignments: z
+        .array(
+          jobAssignmentSchema.extend({ result: jobResultSchema.nullable() }),
+        )
+        .optional(),
+    }),
+  ),
+  // Number of jobs matching the filters
   total: z.number(),
+  // Null on the last page
+  nextCursor: z.string().nullable(),
+});
+
+export const listJobRequestsSchema = listQuerySchema.extend({
+  sort: z.enum(JOB_REQUEST_SORT_FIELDS).default('created_at'),
 });
 
 export const router = express.Router();
@@ -71,6 +151,8 @@ const jobService = new JobService();
 export const createJobSchema = z.object({
   type: z.nativeEnum(JobType),
   inputPayload: z.any(),
+  // Skip the cache and always run a new job
+  forceRefresh: z.boolean().optional(),
 });
 export const createJobResponseSchema = z.object({
   jobId: z.number(),
@@ -78,6 +160,62 @@ export const createJobResponseSchema = z.object({
   requestId: z.number(),
 });
 
+// A sweep axis is a list of values, or an inclusive numeric range
+const sweepAxisSchema = z.union([
+  z.array(z.union([z.number(), z.string(), z.boolean()])).min(1),
+  z.object({
+    start: z.number(),
+    stop: z.number(),
+    step: z.number().positive(),
+  }),
+]);
+export const createJobBatchSchema = z.object({
+  type: z.nativeEnum(JobType),
+  // Fields shared by every variant
+  basePayload: z.record(z.any()),
+  // Field name -> values to sweep over
+  axes: z.record(sweepAxisSchema).refine(axes => Object.keys(axes).length > 0, {
+    message: 'At least one sweep axis is required',
+  }),
+});
+
+export const jobBatchSchema = z.object({
+  id: z.number(),
+  created_at: z.date(),
+  updated_at: z.date(),
+  user_id: z.number(),
+  type: z.nativeEnum(JobType),
+  base_payload: z.any(),
+  axes: z.any(),
+  status: z.enum(['RUNNING', 'SUCCEEDED', 'FAILED']),
+  total: z.number(),
+  // Number of variants whose job is in each status
+  counts: z.record(z.nativeEnum(JobStatus), z.number()),
+  variants: z.array(
+    z.object({
+      request_id: z.number(),
+      values: z.record(z.any()),
+      cache_hit: z.boolean(),
+      job_id: z.number(),
+      status: z.nativeEnum(JobStatus),
+    }),
+  ),
+});
+export const createJobBatchResponseSchema = z.object({
+  batch: jobBatchSchema,
+  // Variants which failed validation, and so have no job
+  errors: z.array(
+    z.object({
+      index: z.number(),
+      values: z.record(z.any()),
+      message: z.string(),
+    }),
+  ),
+});
+export const jobBatchResponseSchema = z.object({
+  batch: jobBatchSchema,
+});
+
 export const pollJobsSchema = z.object({
   jobType: z.nativeEnum(JobType).optional(),
 });
@@ -94,16 +232,96 @@ export const assignJobResponseSchema = z.object({
   assignment: jobAssignmentSchema,
 });
 
+export const claimJobSchema = z.object({
+  jobType: z.nativeEnum(JobType).optional(),
+  ecsTaskArn: z.string(),
+  ecsClusterArn: z.string(),
+});
+export const claimJobResponseSchema = z.object({
+  // Both null if there was no job available to claim
+  job: jobDetailsSchema.nullable(),
+  assignment: jobAssignmentSchema.nullable(),
+});
+
 export const submitResultSchema = z.object({
   status: z.nativeEnum(JobStatus),
   resultPayload: z.any().optional(),
+  // Only with a FAILED status
+  failure: jobFailureSchema.optional(),
+});
+
+export const heartbeatResponseSchema = z.object({
+  assignment: jobAssignmentSchema,
+  // True if the job was cancelled - the worker should abandon it
+  cancelled: z.boolean(),
+});
+
+export const reportProgressSchema = z.object({
+  percent: z.number().min(0).max(100),
+  stage: z.string().max(100).optional(),
+  message: z.string().max(1000).optional(),
+});
+export const reportProgressResponseSchema = z.object({
+  assignment: jobAssignmentSchema,
 });
 
 export const jobDetailsResponseSchema = z.object({
   job: jobDetailsSchema,
 });
 
-const downloadResponseSchema = z.object({
+export const jobTypeSchema = z.object({
+  type: z.nativeEnum(JobType),
+  description: z.string(),
+  // JSON Schemas of the input and result payloads
+  inputSchema: z.record(z.any()),
+  resultSchema: z.record(z.any()).nullable(),
+  // Values used for input fields which are omitted
+  defaults: z.record(z.number()),
+  expiryMinutes: z.number(),
+  leaseMinutes: z.number(),
+  priority: z.number(),
+  retry: z.object({
+    maxAttempts: z.number(),
+    backoffSeconds: z.number(),
+    backoffMultiplier: z.number(),
+    retryOn: z.array(z.nativeEnum(JobStatus)),
+  }),
+  cache: z.object({
+    ttlMinutes: z.number().optional(),
+  }),
+  storage: z.object({
+    scheme: z.nativeEnum(StorageScheme),
+    prefix: z.string(),
+  }),
+  // Default maximum new jobs per user in any 24 hours - null if unlimited
+  dailyLimit: z.number().nullable(),
+});
+export const listJobTypesResponseSchema = z.object({
+  types: z.array(jobTypeSchema),
+});
+
+export const listJobRequestsResponseSchema = z.object({
+  jobRequests: z.array(
+    jobRequestSchema.extend({
+      // Omitted from summaries
+      job: jobDetailsSchema
+        .extend({
+          assignments: z.array(jobAssignmentSchema),
+          results: z.array(jobResultSchema),
+        })
+        .optional(),
+    }),
+  ),
+  // Number of requests matching the filters
+  total: z.number(),
+  // Null on the last page
+  nextCursor: z.string().nullable(),
+});
+
+export const downloadJobSchema = z.object({
+  expirySeconds: z.string().optional(),
+});
+export const downloadResponseSchema = z.object({
   job: z.object({
     id: z.number(),
     type: z.nativeEnum(JobType),
@@ -112,13 +330,139 @@ const downloadResponseSchema = z.object({
   files: z.record(z.string(), z.string()),
 });
 
+// Limit and remaining are null if the limit is unlimited
+const quotaUsageSchema = z.object({
+  limit: z.number().nullable(),
+  used: z.number(),
+  remaining: z.number().nullable(),
+});
+export const jobQuotaSchema = z.object({
+  userId: z.number(),
+  // Jobs pending, blocked or in progress
+  concurrent: quotaUsageSchema,
+  // New jobs (not cache hits) of each type in the last 24 hours
+  daily: z.record(z.nativeEnum(JobType), quotaUsageSchema),
+  // Admin set overrides of the defaults
+  overrides: z.object({
+    maxConcurrentJobs: z.number().nullable(),
+    dailyJobLimits: z.record(z.nativeEnum(JobType), z.number()),
+  }),
+});
+export const jobQuotaResponseSchema = z.object({
+  quota: jobQuotaSchema,
+});
+
+export const appendJobLogsSchema = z.object({
+  // In the order they were logged
+  lines: z
+    .array(
+      z.object({
+        // When the line was logged - when it was received if omitted
+        timestamp: z.string().datetime({ offset: true }).optional(),
+        level: z.nativeEnum(JobLogLevel).optional(),
+        // Truncated if very long
+        message: z.string(),
+      }),
+    )
+    .min(1)
+    .max(MAX_LOG_BATCH_SIZE),
+});
+export const appendJobLogsResponseSchema = z.object({
+  accepted: z.number(),
+  // Lines beyond the assignment's cap, which weren't stored
+  dropped: z.number(),
+});
+
+// Number of lines between 1 and the maximum read
+const logLineCountSchema = z
+  .string()
+  .regex(/^\d+$/)
+  .refine(count => {
+    const n = parseInt(count);
+    return n >= 1 && n <= MAX_LOG_PAGE_SIZE;
+  }, `Must be between 1 and ${MAX_LOG_PAGE_SIZE}`);
+export const jobLogsSchema = z.object({
+  // Only lines from this assignment (attempt)
+  assignmentId: z.string().regex(/^\d+$/).optional(),
+  // Only lines after this line id - pass the previous read's lastId to tail
+  after: z.string().regex(/^\d+$/).optional(),
+  // Read the last this many lines, rather than reading forward
+  tail: logLineCountSchema.optional(),
+  // Most lines to read forward
+  limit: logLineCountSchema.optional(),
+});
+export const jobLogSchema = z.object({
+  id: z.number(),
+  assignment_id: z.number(),
+  // The task which ran the assignment
+  ecs_task_arn: z.string(),
+  logged_at: z.date(),
+  level: z.nativeEnum(JobLogLevel).nullable(),
+  message: z.string(),
+});
+export const jobLogsResponseSchema = z.object({
+  // Oldest first
+  logs: z.array(jobLogSchema),
+  // More lines follow when reading forward
+  hasMore: z.boolean(),
+  // Id of the last line read (or the after given, if none) - null if none
+  lastId: z.number().nullable(),
+});
+
 // Type inferencing from schemas
 export type CreateJobResponse = z.infer<typeof createJobResponseSchema>;
 export type PollJobsResponse = z.infer<typeof pollJobsResponseSchema>;
 export type AssignJobResponse = z.infer<typeof assignJobResponseSchema>;
+export type ClaimJobResponse = z.infer<typeof claimJobResponseSchema>;
+export type HeartbeatResponse = z.infer<typeof heartbeatResponseSchema>;
+export type ReportProgressResponse = z.infer<
+  typeof reportProgressResponseSchema
+>;
 export type JobDetailsResponse = z.infer<typeof jobDetailsResponseSchema>;
 export type DownloadResponse = z.infer<typeof downloadResponseSchema>;
 export type ListJobsResponse = z.infer<typeof listJobsResponseSchema>;
+export type CreateJobBatchResponse = z.infer<
+  typeof createJobBatchResponseSchema
+>;
+export type JobBatchResponse = z.infer<typeof jobBatchResponseSchema>;
+export type ListJobTypesResponse = z.infer<typeof listJobTypesResponseSchema>;
+export type ListJobRequestsResponse = z.infer<
+  typeof listJobRequestsResponseSchema
+>;
+export type JobQuotaResponse = z.infer<typeof jobQuotaResponseSchema>;
+export type AppendJobLogsResponse = z.infer<typeof appendJobLogsResponseSchema>;
+export type JobLogsResponse = z.infer<typeof jobLogsResponseSchema>;
+
+/**
+ * Converts the shared list query into service parameters, restricting
+ * non-admins to their own jobs
+ * @throws UnauthorizedException if a non-admin filters by another owner
+ */
+function parseListQuery(
+  query: z.input<typeof listQuerySchema>,
+  user: Express.User,
+): Omit<ListParams<string>, 'sort'> {
+  let userId = query.userId ? parseInt(query.userId) : undefined;
+  if (!userIsAdmin(user)) {
+    if (userId !== undefined && userId !== user.id) {
+      throw new UnauthorizedException('Only admins may list other users jobs');
+    }
+    userId = user.id;
+  }
+  return {
+    userId,
+    type: query.type,
+    createdAfter: query.createdAfter ? new Date(query.createdAfter) : undefined,
+    createdBefore: query.createdBefore
+      ? new Date(query.createdBefore)
+      : undefined,
+    cacheHit: query.cacheHit ? query.cacheHit === 'true' : undefined,
+    order: query.order,
+    limit: query.limit ? parseInt(query.limit) : undefined,
+    cursor: query.cursor,
+    view: query.view,
+  };
+}
 
 // Routes
 router.post(
@@ -134,6 +478,7 @@ router.post(
       req.user.id,
       req.body.type,
       req.body.inputPayload,
+      { forceRefresh: req.body.forceRefresh },
     );
 
     res.status(200).json({
@@ -144,6 +489,76 @@ router.post(
   },
 );
 
+/**
+ * Submit a parameter sweep - one job per combination of the axes' values
+ * applied over the base payload
+ */
+router.post(
+  '/batch',
+  processRequest({
+    body: createJobBatchSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<CreateJobBatchResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+
+    const { batch, errors } = await jobService.createJobBatch(req.user.id, {
+      type: req.body.type,
+      basePayload: req.body.basePayload,
+      axes: req.body.axes,
+    });
+    res.status(200).json({ batch, errors });
+  },
+);
+
+/** Get a parameter sweep batch with the status of each variant */
+router.get(
+  '/batches/:id',
+  processRequest({
+    params: z.object({ id: z.string() }),
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<JobBatchResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+
+    const batch = await jobService.getJobBatch(parseInt(req.params.id));
+    if (!userIsAdmin(req.user) && batch.user_id !== req.user.id) {
+      throw new UnauthorizedException();
+    }
+    res.json({ batch });
+  },
+);
+
+/**
+ * Describe each job type the system supports, from the job type registry -
+ * including JSON Schemas of its payloads, so clients can build forms for them
+ */
+router.get(
+  '/types',
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<ListJobTypesResponse>) => {
+    const types = Object.values(JobType).map(describeJobType);
+    res.json({ types });
+  },
+);
+
+/**
+ * Gets the user's job quotas and how much of each they've used - requests
+ * which would create jobs beyond them are rejected with 429
+ */
+router.get(
+  '/quota',
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<JobQuotaResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+    res.json({ quota: await getJobQuota(req.user.id) });
+  },
+);
+
+/**
+ * Lists a page of the user's jobs (or all jobs for admins) matching the
+ * filters
+ */
 router.get(
   '/',
   processRequest({
@@ -153,16 +568,12 @@ router.get(
   async (req, res: Response<ListJobsResponse>) => {
     if (!req.user) throw new UnauthorizedException();
 
-    const isAdmin = userIsAdmin(req.user);
-    const userId = isAdmin ? undefined : req.user.id;
-    const status = req.query.status as JobStatus | undefined;
-
-    const { jobs, total } = await jobService.listJobs({
-      userId,
-      status,
+    const { jobs, total, nextCursor } = await jobService.listJobs({
+      ...parseListQuery(req.query, req.user),
+      status: req.query.status as JobStatus | undefined,
+      sort: req.query.sort as JobSortField | undefined,
     });
-
-    res.json({ jobs, total });
+    res.json({ jobs, total, nextCursor });
   },
 );
 
@@ -194,21 +605,47 @@ router.post(
   },
 );
 
+/**
+ * Claims the next available job (optionally of a given type) for a worker in a
+ * single atomic step, avoiding the race inherent in polling then assigning.
+ */
+router.post(
+  '/claim',
+  processRequest({
+    body: claimJobSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<ClaimJobResponse>) => {
+    const claimed = await jobService.claimNextJob(
+      req.body.jobType,
+      req.body.ecsTaskArn,
+      req.body.ecsClusterArn,
+    );
+    res.json({
+      job: claimed?.job ?? null,
+      assignment: claimed?.assignment ?? null,
+    });
+  },
+);
+
+/**
+ * Lists a page of the user's job requests (or all requests for admins)
+ * matching the filters
+ */
 router.get(
   '/requests',
-  processRequest({}),
+  processRequest({
+    query: listJobRequestsSchema,
+  }),
   passport.authenticate('jwt', { session: false }),
-  async (req, res) => {
+  async (req, res: Response<ListJobRequestsResponse>) => {
     if (!req.user) throw new UnauthorizedException();
 
-    // is the user an admin?
-    const isAdmin = userIsAdmin(req.user);
-    res.json({
-      jobRequests: jobService.listRequests({
-        // Only filter by user if not admin
-        userId: !isAdmin ? req.user.id : undefined,
-      }),
+    const { requests, total, nextCursor } = await jobService.listRequests({
+      ...parseListQuery(req.query, req.user),
+      sort: req.query.sort as JobRequestSortField | undefined,
     });
+    res.json({ jobRequests: requests, total, nextCursor });
   },
 );
 
@@ -225,11 +662,91 @@ router.post(
       assignmentId,
       req.body.status,
       req.body.resultPayload,
+      req.body.failure,
     );
     res.status(200).send();
   },
 );
 
+/**
+ * Worker liveness signal - renews the assignment lease and reports whether the
+ * job has been cancelled in the meantime.
+ */
+router.post(
+  '/assignments/:id/heartbeat',
+  processRequest({
+    params: z.object({ id: z.string() }),
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<HeartbeatResponse>) => {
+    const assignmentId = parseInt(req.params.id);
+    const { assignment, cancelled } = await jobService.heartbeat(assignmentId);
+    res.json({ assignment, cancelled });
+  },
+);
+
+/**
+ * Worker progress report - records the latest percent complete, stage and
+ * message against the (still active) assignment. Workers only - their
+ * service accounts are admins.
+ */
+router.post(
+  '/assignments/:id/progress',
+  processRequest({
+    params: z.object({ id: z.string() }),
+    body: reportProgressSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  async (req, res: Response<ReportProgressResponse>) => {
+    const assignmentId = parseInt(req.params.id);
+    const assignment = await jobService.reportProgress(assignmentId, req.body);
+    res.json({ assignment });
+  },
+);
+
+/**
+ * Appends a batch of the worker's log lines to its assignment. Lines beyond
+ * the assignment's cap are dropped, and reported as such. Workers only - their
+ * service accounts are admins.
+ */
+router.post(
+  '/assignments/:id/logs',
+  processRequest({
+    params: z.object({ id: z.string() }),
+    body: appendJobLogsSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  assertUserIsAdminMiddleware,
+  async (req, res: Response<AppendJobLogsResponse>) => {
+    const assignmentId = parseInt(req.params.id);
+    const result = await appendJobLogs(
+      assignmentId,
+      req.body.lines.map(line => ({
+        ...line,
+        timestamp: line.timestamp ? new Date(line.timestamp) : undefined,
+      })),
+    );
+    res.json(result);
+  },
+);
+
+/**
+ * Server-sent event stream of status, progress and result events for all of
+ * the user's jobs (all jobs for admins).
+ */
+router.get(
+  '/events',
+  passport.authenticate('jwt', { session: false }),
+  async (req, res) => {
+    if (!req.user) throw new UnauthorizedException();
+    const userId = req.user.id;
+    const isAdmin = userIsAdmin(req.user);
+
+    await streamJobEvents(res, event => isAdmin || event.userId === userId);
+  },
+);
+
 router.get(
   '/:id',
   processRequest({
@@ -244,6 +761,72 @@ router.get(
   },
 );
 
+/**
+ * Server-sent event stream of status, progress and result events for one of
+ * the user's jobs (any job for admins). Starts with the job's current status
+ * (and progress, if running).
+ */
+router.get(
+  '/:id/events',
+  processRequest({
+    params: z.object({ id: z.string() }),
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res) => {
+    if (!req.user) throw new UnauthorizedException();
+    const jobId = parseInt(req.params.id);
+    const job = await jobService.getJobDetails(jobId);
+    if (!userIsAdmin(req.user) && job.user_id !== req.user.id) {
+      throw new UnauthorizedException();
+    }
+
+    const current: JobEvent[] = [
+      { type: 'status', jobId, userId: job.user_id, status: job.status },
+    ];
+    const active = job.assignments.find(a => !a.completed_at);
+    if (active?.progress_percent != null) {
+      current.push({
+        type: 'progress',
+        jobId,
+        userId: job.user_id,
+        status: job.status,
+        progress: {
+          percent: active.progress_percent,
+          stage: active.progress_stage,
+          message: active.progress_message,
+        },
+      });
+    }
+
+    await streamJobEvents(res, event => event.jobId === jobId, current);
+  },
+);
+
+/**
+ * Reads the worker logs of one of the user's jobs (any job for admins). Poll
+ * with after set to the previous read's lastId to tail them.
+ */
+router.get(
+  '/:id/logs',
+  processRequest({
+    params: z.object({ id: z.string() }),
+    query: jobLogsSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<JobLogsResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+    const jobId = parseInt(req.params.id);
+    const { assignmentId, after, tail, limit } = req.query;
+    const result = await getJobLogs(jobId, req.user.id, userIsAdmin(req.user), {
+      assignmentId: assignmentId ? parseInt(assignmentId) : undefined,
+      after: after ? parseInt(after) : undefined,
+      tail: tail ? parseInt(tail) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+    res.json(result);
+  },
+);
+
 router.post(
   '/:id/cancel',
   processRequest({
@@ -266,9 +849,7 @@ router.get(
   '/:id/download',
   processRequest({
     params: z.object({ id: z.string() }),
-    query: z.object({
-      expirySeconds: z.string().optional(),
-    }),
+    query: downloadJobSchema,
   }),
   passport.authenticate('jwt', { session: false }),
   async (req, res) => {
@@ -282,24 +863,22 @@ router.get(
     // Get job details with assignments and results
     const job = await jobService.getJobDetails(jobId);
 
-    // Check if job has any results
-    if (
-      job.status !== JobStatus.SUCCEEDED ||
-      !job.assignments.some(a => a.result)
-    ) {
+    // With retries a job can have several assignments, and failed attempts
+    // record results too. Only a success finalises the job, so its result is
+    // the latest one.
+    const results = job.assignments
+      .map(a => a.result)
+      .filter(result => result !== null);
+    const successfulResult =
+      job.status === JobStatus.SUCCEEDED ? results.pop() : undefined;
+    if (!successfulResult) {
       throw new BadRequestException('Job has no results to download');
     }
 
-    // Get the successful assignment
-    const successfulAssignment = job.assignments.find(a => a.result);
-    if (!successfulAssignment) {
-      throw new BadRequestException('No successful assignment found');
-    }
-
     // Get presigned URLs for all files in the result location
     const s3Service = new S3StorageService(config.s3.bucketName);
     const urlMap = await s3Service.getPresignedUrls(
-      successfulAssignment.storage_uri,
+      successfulResult.storage_uri,
       expirySeconds,
     );
 
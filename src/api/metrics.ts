@@ -0,0 +1,129 @@
+import { JobStatus, JobType } from '@prisma/client';
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Histogram,
+  Registry,
+} from 'prom-client';
+import { config } from './config';
+
+/** Registry of the API's Prometheus metrics, served at /metrics */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'reefguide_api_' });
+
+const httpRequestsTotal = new Counter({
+  name: 'reefguide_api_http_requests_total',
+  help: 'HTTP requests handled, by method, route and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+const httpRequestDuration = new Histogram({
+  name: 'reefguide_api_http_request_duration_seconds',
+  help: 'Time to handle HTTP requests, by method, route and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry],
+});
+
+const jobRequestsTotal = new Counter({
+  name: 'reefguide_api_job_requests_total',
+  help: 'Job requests (submissions), by job type and whether they hit the cache',
+  labelNames: ['type', 'cache_hit'] as const,
+  registers: [metricsRegistry],
+});
+
+const jobResultsTotal = new Counter({
+  name: 'reefguide_api_job_results_total',
+  help: 'Job results submitted by workers, by job type and reported status',
+  labelNames: ['type', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Records a job request - call once its transaction has committed
+ * @param type - The job type requested
+ * @param cacheHit - Whether an existing job was reused
+ */
+export function recordJobRequest(type: JobType, cacheHit: boolean) {
+  jobRequestsTotal.inc({ type, cache_hit: String(cacheHit) });
+}
+
+/**
+ * Records a worker's result submission
+ * @param type - The job's type
+ * @param status - The status the worker reported
+ */
+export function recordJobResult(type: JobType, status: JobStatus) {
+  jobResultsTotal.inc({ type, status });
+}
+
+/**
+ * Notes the path a router is mounted at, for labelling its routes. Express
+ * resets req.baseUrl when an error leaves the router, so by the time an error
+ * response is sent it no longer holds the mount path.
+ * @param prefix - The full path the router is mounted at
+ */
+export function routePrefix(prefix: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.locals.routePrefix = prefix;
+    next();
+  };
+}
+
+/**
+ * Records the count and duration of each request. Requests are labelled with
+ * their route's pattern (e.g. /api/jobs/:id) rather than the path, so that
+ * ids don't create a series per resource.
+ */
+export function metricsMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const endTimer = httpRequestDuration.startTimer();
+  res.on('finish', () => {
+    const labels = {
+      method: req.method,
+      route: req.route
+        ? (res.locals.routePrefix ?? req.baseUrl) + req.route.path
+        : 'unmatched',
+      status: String(res.statusCode),
+    };
+    httpRequestsTotal.inc(labels);
+    endTimer(labels);
+  });
+  next();
+}
+
+/**
+ * Checks a request's Authorization header against the metrics token, in
+ * constant time so the token can't be guessed from response timings
+ * @param authorization - The Authorization header, if sent
+ * @param token - The metrics token
+ * @returns Whether the header is the token as a bearer token
+ */
+function isMetricsToken(authorization: string | undefined, token: string) {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(authorization ?? '');
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  );
+}
+
+/**
+ * Serves the metrics in the Prometheus text format. If METRICS_TOKEN is set,
+ * scrapers must send it as a bearer token.
+ */
+export async function metricsHandler(req: Request, res: Response) {
+  const { token } = config.metrics;
+  if (token && !isMetricsToken(req.headers.authorization, token)) {
+    res.status(401).send('Unauthorized');
+    return;
+  }
+  res.set('Content-Type', metricsRegistry.contentType);
+  res.send(await metricsRegistry.metrics());
+}
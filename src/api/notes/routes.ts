@@ -1,29 +1,50 @@
-import express from 'express';
+import { WebhookEvent } from '@prisma/client';
+import express, { Response } from 'express';
 import { z } from 'zod';
 import { processRequest } from 'zod-express-middleware';
 import { prisma } from '../apiSetup';
 import { passport } from '../auth/passportConfig';
 import { userIsAdmin } from '../auth/utils';
 import { NotFoundException, UnauthorizedException } from '../exceptions';
+import { WebhookService } from '../services/webhooks';
 require('express-async-errors');
 
 export const router = express.Router();
+const webhookService = new WebhookService();
 
-// Input validation schemas
-const createNoteSchema = z.object({
+// Input/Output validation schemas
+export const createNoteSchema = z.object({
   content: z.string(),
   polygonId: z.number(),
 });
 
-const updateNoteSchema = z.object({
+export const updateNoteSchema = z.object({
   content: z.string(),
 });
 
+export const noteSchema = z.object({
+  id: z.number(),
+  created_at: z.date(),
+  content: z.string(),
+  user_id: z.number(),
+  polygon_id: z.number(),
+});
+export const noteResponseSchema = z.object({
+  note: noteSchema,
+});
+export const listNotesResponseSchema = z.object({
+  notes: z.array(noteSchema),
+});
+
+// Type inferencing from schemas
+export type NoteResponse = z.infer<typeof noteResponseSchema>;
+export type ListNotesResponse = z.infer<typeof listNotesResponseSchema>;
+
 /** Get all notes for the user, or all notes if admin */
 router.get(
   '/',
   passport.authenticate('jwt', { session: false }),
-  async (req, res) => {
+  async (req, res: Response<ListNotesResponse>) => {
     if (!req.user) {
       throw new UnauthorizedException();
     }
@@ -49,7 +70,7 @@ router.get(
   '/:id',
   processRequest({ params: z.object({ id: z.string() }) }),
   passport.authenticate('jwt', { session: false }),
-  async (req, res) => {
+  async (req, res: Response<ListNotesResponse>) => {
     if (!req.user) {
       throw new UnauthorizedException();
     }
@@ -82,7 +103,7 @@ router.post(
     body: createNoteSchema,
   }),
   passport.authenticate('jwt', { session: false }),
-  async (req, res) => {
+  async (req, res: Response<NoteResponse>) => {
     if (!req.user) {
       throw new UnauthorizedException();
     }
@@ -103,12 +124,19 @@ router.post(
       );
     }
 
-    const newNote = await prisma.polygonNote.create({
-      data: {
-        content: note,
-        user_id: userId,
+    const newNote = await prisma.$transaction(async tx => {
+      const created = await tx.polygonNote.create({
+        data: {
+          content: note,
+          user_id: userId,
+          polygon_id: polygonId,
+        },
+      });
+      await webhookService.enqueue(tx, userId, WebhookEvent.NOTE_CREATED, {
+        note_id: created.id,
         polygon_id: polygonId,
-      },
+      });
+      return created;
     });
 
     res.status(200).json({
@@ -125,7 +153,7 @@ router.put(
     params: z.object({ id: z.string() }),
   }),
   passport.authenticate('jwt', { session: false }),
-  async (req, res) => {
+  async (req, res: Response<NoteResponse>) => {
     if (!req.user) {
       throw new UnauthorizedException();
     }
@@ -145,11 +173,20 @@ router.put(
       throw new UnauthorizedException();
     }
 
-    const updatedPolygon = await prisma.polygonNote.update({
-      where: { id: noteId },
-      data: {
-        content: note,
-      },
+    const updatedPolygon = await prisma.$transaction(async tx => {
+      const updated = await tx.polygonNote.update({
+        where: { id: noteId },
+        data: {
+          content: note,
+        },
+      });
+      await webhookService.enqueue(
+        tx,
+        updated.user_id,
+        WebhookEvent.NOTE_UPDATED,
+        { note_id: updated.id, polygon_id: updated.polygon_id },
+      );
+      return updated;
     });
 
     res.json({ note: updatedPolygon });
@@ -0,0 +1,943 @@
+import { AnyZodObject, z, ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  AdminJobResponseSchema,
+  GetClusterCountResponseSchema,
+  GetDeadLetterJobsResponseSchema,
+  GetJobStatsQuerySchema,
+  GetJobStatsResponseSchema,
+  PostDispatchWebhooksResponseSchema,
+  PostFailJobInputSchema,
+  PostInvalidateJobCacheInputSchema,
+  PostInvalidateJobCacheResponseSchema,
+  PostRequeueJobInputSchema,
+  PostRunSchedulesResponseSchema,
+  PostScaleClusterInputSchema,
+  PostSweepJobsResponseSchema,
+  PutJobPriorityInputSchema,
+  PutUserJobQuotaInputSchema,
+} from './admin/routes';
+import {
+  appendJobLogsResponseSchema,
+  appendJobLogsSchema,
+  assignJobResponseSchema,
+  assignJobSchema,
+  claimJobResponseSchema,
+  claimJobSchema,
+  createJobBatchResponseSchema,
+  createJobBatchSchema,
+  createJobResponseSchema,
+  createJobSchema,
+  downloadJobSchema,
+  downloadResponseSchema,
+  heartbeatResponseSchema,
+  jobBatchResponseSchema,
+  jobDetailsResponseSchema,
+  jobLogsResponseSchema,
+  jobLogsSchema,
+  jobQuotaResponseSchema,
+  listJobRequestsResponseSchema,
+  listJobRequestsSchema,
+  listJobsResponseSchema,
+  listJobsSchema,
+  listJobTypesResponseSchema,
+  pollJobsResponseSchema,
+  pollJobsSchema,
+  reportProgressResponseSchema,
+  reportProgressSchema,
+  submitResultSchema,
+} from './jobs/routes';
+import {
+  createNoteSchema,
+  listNotesResponseSchema,
+  noteResponseSchema,
+  updateNoteSchema,
+} from './notes/routes';
+import {
+  createPolygonSchema,
+  listPolygonsResponseSchema,
+  polygonResponseSchema,
+  updatePolygonSchema,
+} from './polygons/routes';
+import {
+  LoginInputSchema,
+  LoginResponseSchema,
+  ProfileResponseSchema,
+  RegisterInputSchema,
+  RegisterResponseSchema,
+  TokenInputSchema,
+  TokenResponseSchema,
+  UserDetailsSchema,
+} from './types/auth';
+import { ErrorResponseSchema } from './types/errors';
+import {
+  CreateUserSchema,
+  ListUserLogsQuerySchema,
+  ListUserLogsResponseSchema,
+  ListUsersResponseSchema,
+  UpdateUserPasswordSchema,
+  UpdateUserRolesSchema,
+  UserResponseSchema,
+} from './users/routes';
+import {
+  createScheduleSchema,
+  listScheduleRunsResponseSchema,
+  listScheduleRunsSchema,
+  listSchedulesResponseSchema,
+  scheduleResponseSchema,
+  updateScheduleSchema,
+} from './schedules/routes';
+import {
+  createWebhookResponseSchema,
+  createWebhookSchema,
+  listDeliveriesResponseSchema,
+  listDeliveriesSchema,
+  listWebhooksResponseSchema,
+  updateWebhookSchema,
+  webhookResponseSchema,
+} from './webhooks/routes';
+import {
+  createWorkflowSchema,
+  workflowResponseSchema,
+} from './workflows/routes';
+
+export type RouteMethod = 'get' | 'post' | 'put' | 'delete';
+
+/** Who may call a route - admin routes also require the ADMIN role */
+export type RouteAuth = 'public' | 'user' | 'admin';
+
+/** A response which isn't described by a JSON schema (e.g. no content) */
+export interface RawRouteResponse {
+  status: number;
+  description: string;
+  // Omitted if the response has no body
+  contentType?: string;
+}
+
+/** Documentation of a single API route, built from its zod schemas */
+export interface RouteDoc {
+  method: RouteMethod;
+  // Express style path relative to /api, e.g. /jobs/:id
+  path: string;
+  tag: string;
+  summary: string;
+  auth: RouteAuth;
+  query?: AnyZodObject;
+  // Required for POST and PUT routes - null if they take no body
+  body?: ZodTypeAny | null;
+  // JSON response body, or a description of a non JSON response
+  response: ZodTypeAny | RawRouteResponse;
+}
+
+const noContent = (description: string): RawRouteResponse => ({
+  status: 204,
+  description,
+});
+const emptyOk = (description: string): RawRouteResponse => ({
+  status: 200,
+  description,
+});
+const eventStream: RawRouteResponse = {
+  status: 200,
+  description: 'Server-sent event stream of job events',
+  contentType: 'text/event-stream',
+};
+
+const HealthResponseSchema = z.object({ message: z.string() });
+const JwksResponseSchema = z.object({ keys: z.array(z.record(z.string())) });
+
+/**
+ * Every route the API serves. The test suite checks this against the
+ * registered express routes, so a route can't be added without documenting
+ * its request and response schemas here.
+ */
+export const routeDocs: RouteDoc[] = [
+  // Root
+  {
+    method: 'get',
+    path: '/',
+    tag: 'Health',
+    summary: 'Health check',
+    auth: 'public',
+    response: HealthResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/.well-known/jwks.json',
+    tag: 'Health',
+    summary: 'Public keys for verifying issued JWTs',
+    auth: 'public',
+    response: JwksResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/openapi.json',
+    tag: 'Health',
+    summary: 'This OpenAPI document',
+    auth: 'public',
+    response: z.record(z.any()),
+  },
+
+  // Auth
+  {
+    method: 'post',
+    path: '/auth/register',
+    tag: 'Auth',
+    summary: 'Register a new user',
+    auth: 'public',
+    body: RegisterInputSchema,
+    response: RegisterResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/auth/login',
+    tag: 'Auth',
+    summary: 'Login, returning a JWT and refresh token',
+    auth: 'public',
+    body: LoginInputSchema,
+    response: LoginResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/auth/token',
+    tag: 'Auth',
+    summary: 'Get a new JWT using a refresh token',
+    auth: 'public',
+    body: TokenInputSchema,
+    response: TokenResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/auth/profile',
+    tag: 'Auth',
+    summary: 'Get the current user',
+    auth: 'user',
+    response: ProfileResponseSchema,
+  },
+
+  // Polygons
+  {
+    method: 'get',
+    path: '/polygons/:id',
+    tag: 'Polygons',
+    summary: 'Get a specific polygon',
+    auth: 'user',
+    response: polygonResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/polygons',
+    tag: 'Polygons',
+    summary: 'Get all polygons for the user, or all polygons if admin',
+    auth: 'user',
+    response: listPolygonsResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/polygons',
+    tag: 'Polygons',
+    summary: 'Create a polygon',
+    auth: 'user',
+    body: createPolygonSchema,
+    response: polygonResponseSchema,
+  },
+  {
+    method: 'put',
+    path: '/polygons/:id',
+    tag: 'Polygons',
+    summary: 'Update a polygon',
+    auth: 'user',
+    body: updatePolygonSchema,
+    response: polygonResponseSchema,
+  },
+  {
+    method: 'delete',
+    path: '/polygons/:id',
+    tag: 'Polygons',
+    summary: 'Delete a polygon',
+    auth: 'user',
+    response: noContent('Polygon deleted'),
+  },
+
+  // Notes
+  {
+    method: 'get',
+    path: '/notes',
+    tag: 'Notes',
+    summary: 'Get all notes for the user, or all notes if admin',
+    auth: 'user',
+    response: listNotesResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/notes/:id',
+    tag: 'Notes',
+    summary: 'Get all notes for a polygon',
+    auth: 'user',
+    response: listNotesResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/notes',
+    tag: 'Notes',
+    summary: 'Create a note for a polygon',
+    auth: 'user',
+    body: createNoteSchema,
+    response: noteResponseSchema,
+  },
+  {
+    method: 'put',
+    path: '/notes/:id',
+    tag: 'Notes',
+    summary: 'Update a note',
+    auth: 'user',
+    body: updateNoteSchema,
+    response: noteResponseSchema,
+  },
+  {
+    method: 'delete',
+    path: '/notes/:id',
+    tag: 'Notes',
+    summary: 'Delete a note',
+    auth: 'user',
+    response: noContent('Note deleted'),
+  },
+
+  // Admin
+  {
+    method: 'post',
+    path: '/admin/scale',
+    tag: 'Admin',
+    summary: 'Scale the compute cluster to the desired count',
+    auth: 'admin',
+    body: PostScaleClusterInputSchema,
+    response: emptyOk('Scaling started'),
+  },
+  {
+    method: 'get',
+    path: '/admin/status',
+    tag: 'Admin',
+    summary: 'Get the status of the compute cluster service',
+    auth: 'admin',
+    response: GetClusterCountResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/admin/redeploy',
+    tag: 'Admin',
+    summary: 'Force a redeployment of the compute cluster service',
+    auth: 'admin',
+    body: null,
+    response: emptyOk('Redeployment started'),
+  },
+  {
+    method: 'get',
+    path: '/admin/init',
+    tag: 'Admin',
+    summary: 'Re-run the database seed initialisation',
+    auth: 'admin',
+    response: emptyOk('Initialisation complete'),
+  },
+  {
+    method: 'post',
+    path: '/admin/jobs/sweep',
+    tag: 'Admin',
+    summary: 'Time out job assignments whose lease has expired',
+    auth: 'admin',
+    body: null,
+    response: PostSweepJobsResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/admin/webhooks/dispatch',
+    tag: 'Admin',
+    summary: 'Send webhook deliveries which are due',
+    auth: 'admin',
+    body: null,
+    response: PostDispatchWebhooksResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/admin/schedules/run',
+    tag: 'Admin',
+    summary: 'Run job schedules which are due',
+    auth: 'admin',
+    body: null,
+    response: PostRunSchedulesResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/admin/jobs/cache/invalidate',
+    tag: 'Admin',
+    summary: 'Invalidate cached jobs',
+    auth: 'admin',
+    body: PostInvalidateJobCacheInputSchema,
+    response: PostInvalidateJobCacheResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/admin/jobs/stats',
+    tag: 'Admin',
+    summary: 'Report queue depth, wait and run times, failure and cache rates',
+    auth: 'admin',
+    query: GetJobStatsQuerySchema,
+    response: GetJobStatsResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/admin/jobs/dead-letter',
+    tag: 'Admin',
+    summary: 'List dead lettered jobs with their assignment history',
+    auth: 'admin',
+    response: GetDeadLetterJobsResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/admin/jobs/:id/requeue',
+    tag: 'Admin',
+    summary: 'Requeue a failed, timed out or dead lettered job',
+    auth: 'admin',
+    body: PostRequeueJobInputSchema,
+    response: AdminJobResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/admin/jobs/:id/fail',
+    tag: 'Admin',
+    summary: 'Permanently fail a job',
+    auth: 'admin',
+    body: PostFailJobInputSchema,
+    response: AdminJobResponseSchema,
+  },
+  {
+    method: 'put',
+    path: '/admin/jobs/:id/priority',
+    tag: 'Admin',
+    summary: "Set a job's priority",
+    auth: 'admin',
+    body: PutJobPriorityInputSchema,
+    response: AdminJobResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/admin/users/:id/quota',
+    tag: 'Admin',
+    summary: "Get a user's job quotas and their usage",
+    auth: 'admin',
+    response: jobQuotaResponseSchema,
+  },
+  {
+    method: 'put',
+    path: '/admin/users/:id/quota',
+    tag: 'Admin',
+    summary: "Override a user's job quotas",
+    auth: 'admin',
+    body: PutUserJobQuotaInputSchema,
+    response: jobQuotaResponseSchema,
+  },
+  {
+    method: 'delete',
+    path: '/admin/users/:id/quota',
+    tag: 'Admin',
+    summary: "Remove a user's job quota overrides",
+    auth: 'admin',
+    response: jobQuotaResponseSchema,
+  },
+
+  // Users
+  {
+    method: 'get',
+    path: '/users',
+    tag: 'Users',
+    summary: 'Get all users',
+    auth: 'admin',
+    response: ListUsersResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/users/:id',
+    tag: 'Users',
+    summary: 'Get a specific user',
+    auth: 'admin',
+    response: UserDetailsSchema,
+  },
+  {
+    method: 'post',
+    path: '/users',
+    tag: 'Users',
+    summary: 'Create a user',
+    auth: 'admin',
+    body: CreateUserSchema,
+    response: UserResponseSchema,
+  },
+  {
+    method: 'put',
+    path: '/users/:id/roles',
+    tag: 'Users',
+    summary: "Update a user's roles",
+    auth: 'admin',
+    body: UpdateUserRolesSchema,
+    response: UserDetailsSchema,
+  },
+  {
+    method: 'put',
+    path: '/users/:id/password',
+    tag: 'Users',
+    summary: "Update a user's password",
+    auth: 'admin',
+    body: UpdateUserPasswordSchema,
+    response: emptyOk('Password updated'),
+  },
+  {
+    method: 'delete',
+    path: '/users/:id',
+    tag: 'Users',
+    summary: 'Delete a user',
+    auth: 'admin',
+    response: noContent('User deleted'),
+  },
+  {
+    method: 'get',
+    path: '/users/utils/log',
+    tag: 'Users',
+    summary: 'Get user logs, optionally for a single user',
+    auth: 'admin',
+    query: ListUserLogsQuerySchema,
+    response: ListUserLogsResponseSchema,
+  },
+
+  // Jobs
+  {
+    method: 'post',
+    path: '/jobs',
+    tag: 'Jobs',
+    summary: 'Request a job, reusing a cached job if one matches',
+    auth: 'user',
+    body: createJobSchema,
+    response: createJobResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/jobs/batch',
+    tag: 'Jobs',
+    summary: 'Submit a parameter sweep',
+    auth: 'user',
+    body: createJobBatchSchema,
+    response: createJobBatchResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/jobs/batches/:id',
+    tag: 'Jobs',
+    summary: 'Get a parameter sweep batch',
+    auth: 'user',
+    response: jobBatchResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/jobs/types',
+    tag: 'Jobs',
+    summary: 'Describe the supported job types and their payloads',
+    auth: 'user',
+    response: listJobTypesResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/jobs/quota',
+    tag: 'Jobs',
+    summary: "Get the user's job quotas and their usage",
+    auth: 'user',
+    response: jobQuotaResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/jobs',
+    tag: 'Jobs',
+    summary: "List the user's jobs, or all jobs if admin",
+    auth: 'user',
+    query: listJobsSchema,
+    response: listJobsResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/jobs/poll',
+    tag: 'Workers',
+    summary: 'List jobs available for assignment',
+    auth: 'user',
+    query: pollJobsSchema,
+    response: pollJobsResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/jobs/assign',
+    tag: 'Workers',
+    summary: 'Assign a job to a worker',
+    auth: 'user',
+    body: assignJobSchema,
+    response: assignJobResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/jobs/claim',
+    tag: 'Workers',
+    summary: 'Atomically claim the next available job',
+    auth: 'user',
+    body: claimJobSchema,
+    response: claimJobResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/jobs/requests',
+    tag: 'Jobs',
+    summary: "List the user's job requests, or all requests if admin",
+    auth: 'user',
+    query: listJobRequestsSchema,
+    response: listJobRequestsResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/jobs/assignments/:id/result',
+    tag: 'Workers',
+    summary: 'Submit the result of an assignment',
+    auth: 'user',
+    body: submitResultSchema,
+    response: emptyOk('Result recorded'),
+  },
+  {
+    method: 'post',
+    path: '/jobs/assignments/:id/heartbeat',
+    tag: 'Workers',
+    summary: "Renew an assignment's lease",
+    auth: 'user',
+    body: null,
+    response: heartbeatResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/jobs/assignments/:id/progress',
+    tag: 'Workers',
+    summary: "Report an assignment's progress",
+    auth: 'user',
+    body: reportProgressSchema,
+    response: reportProgressResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/jobs/assignments/:id/logs',
+    tag: 'Workers',
+    summary: "Append log lines to an assignment's logs",
+    auth: 'user',
+    body: appendJobLogsSchema,
+    response: appendJobLogsResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/jobs/events',
+    tag: 'Jobs',
+    summary: "Stream events for all of the user's jobs",
+    auth: 'user',
+    response: eventStream,
+  },
+  {
+    method: 'get',
+    path: '/jobs/:id',
+    tag: 'Jobs',
+    summary: 'Get a job',
+    auth: 'user',
+    response: jobDetailsResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/jobs/:id/events',
+    tag: 'Jobs',
+    summary: 'Stream events for a job',
+    auth: 'user',
+    response: eventStream,
+  },
+  {
+    method: 'get',
+    path: '/jobs/:id/logs',
+    tag: 'Jobs',
+    summary: "Read or tail a job's worker logs",
+    auth: 'user',
+    query: jobLogsSchema,
+    response: jobLogsResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/jobs/:id/cancel',
+    tag: 'Jobs',
+    summary: 'Cancel a job',
+    auth: 'user',
+    body: null,
+    response: jobDetailsResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/jobs/:id/download',
+    tag: 'Jobs',
+    summary: "Get presigned URLs for a job's result files",
+    auth: 'user',
+    query: downloadJobSchema,
+    response: downloadResponseSchema,
+  },
+
+  // Webhooks
+  {
+    method: 'post',
+    path: '/webhooks',
+    tag: 'Webhooks',
+    summary: 'Register a webhook',
+    auth: 'user',
+    body: createWebhookSchema,
+    response: createWebhookResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/webhooks',
+    tag: 'Webhooks',
+    summary: "List the user's webhooks, or all webhooks if admin",
+    auth: 'user',
+    response: listWebhooksResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/webhooks/:id',
+    tag: 'Webhooks',
+    summary: 'Get a webhook',
+    auth: 'user',
+    response: webhookResponseSchema,
+  },
+  {
+    method: 'put',
+    path: '/webhooks/:id',
+    tag: 'Webhooks',
+    summary: 'Update a webhook',
+    auth: 'user',
+    body: updateWebhookSchema,
+    response: webhookResponseSchema,
+  },
+  {
+    method: 'delete',
+    path: '/webhooks/:id',
+    tag: 'Webhooks',
+    summary: 'Delete a webhook and its delivery log',
+    auth: 'user',
+    response: noContent('Webhook deleted'),
+  },
+  {
+    method: 'get',
+    path: '/webhooks/:id/deliveries',
+    tag: 'Webhooks',
+    summary: 'Get the most recent deliveries to a webhook',
+    auth: 'user',
+    query: listDeliveriesSchema,
+    response: listDeliveriesResponseSchema,
+  },
+
+  // Workflows
+  {
+    method: 'post',
+    path: '/workflows',
+    tag: 'Workflows',
+    summary: 'Submit a workflow of dependent jobs',
+    auth: 'user',
+    body: createWorkflowSchema,
+    response: workflowResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/workflows/:id',
+    tag: 'Workflows',
+    summary: 'Get a workflow and the state of its steps',
+    auth: 'user',
+    response: workflowResponseSchema,
+  },
+
+  // Schedules
+  {
+    method: 'post',
+    path: '/schedules',
+    tag: 'Schedules',
+    summary: 'Create a schedule which requests a job on a cron expression',
+    auth: 'user',
+    body: createScheduleSchema,
+    response: scheduleResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/schedules',
+    tag: 'Schedules',
+    summary: "List the user's schedules, or all schedules if admin",
+    auth: 'user',
+    response: listSchedulesResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/schedules/:id',
+    tag: 'Schedules',
+    summary: 'Get a schedule',
+    auth: 'user',
+    response: scheduleResponseSchema,
+  },
+  {
+    method: 'put',
+    path: '/schedules/:id',
+    tag: 'Schedules',
+    summary: 'Update a schedule',
+    auth: 'user',
+    body: updateScheduleSchema,
+    response: scheduleResponseSchema,
+  },
+  {
+    method: 'delete',
+    path: '/schedules/:id',
+    tag: 'Schedules',
+    summary: 'Delete a schedule and its run history',
+    auth: 'user',
+    response: noContent('Schedule deleted'),
+  },
+  {
+    method: 'post',
+    path: '/schedules/:id/pause',
+    tag: 'Schedules',
+    summary: 'Pause a schedule',
+    auth: 'user',
+    body: null,
+    response: scheduleResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/schedules/:id/resume',
+    tag: 'Schedules',
+    summary: 'Resume a paused schedule from its next scheduled time',
+    auth: 'user',
+    body: null,
+    response: scheduleResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/schedules/:id/runs',
+    tag: 'Schedules',
+    summary: "Get a page of a schedule's runs, newest first",
+    auth: 'user',
+    query: listScheduleRunsSchema,
+    response: listScheduleRunsResponseSchema,
+  },
+];
+
+/** Converts a zod schema to an (inlined) OpenAPI schema object */
+function toOpenApiSchema(schema: ZodTypeAny): Record<string, unknown> {
+  return zodToJsonSchema(schema, {
+    target: 'openApi3',
+    $refStrategy: 'none',
+  }) as Record<string, unknown>;
+}
+
+/** Converts an express path (/jobs/:id) to an OpenAPI one (/jobs/{id}) */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function buildOperation(doc: RouteDoc): Record<string, unknown> {
+  const parameters: Record<string, unknown>[] = [];
+  for (const match of doc.path.matchAll(/:(\w+)/g)) {
+    parameters.push({
+      name: match[1],
+      in: 'path',
+      required: true,
+      schema: { type: 'integer' },
+    });
+  }
+  for (const [name, field] of Object.entries<ZodTypeAny>(
+    doc.query?.shape ?? {},
+  )) {
+    parameters.push({
+      name,
+      in: 'query',
+      required: !field.isOptional(),
+      schema: toOpenApiSchema(
+        field instanceof z.ZodOptional ? field.unwrap() : field,
+      ),
+    });
+  }
+
+  let response: Record<string, unknown>;
+  let status = 200;
+  if (doc.response instanceof z.ZodType) {
+    response = {
+      description: 'Success',
+      content: {
+        'application/json': { schema: toOpenApiSchema(doc.response) },
+      },
+    };
+  } else {
+    status = doc.response.status;
+    response = { description: doc.response.description };
+    if (doc.response.contentType) {
+      response.content = { [doc.response.contentType]: {} };
+    }
+  }
+
+  const operation: Record<string, unknown> = {
+    tags: [doc.tag],
+    summary: doc.summary,
+    parameters,
+    responses: {
+      [status]: response,
+      default: {
+        description: 'Error',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' },
+          },
+        },
+      },
+    },
+    security: doc.auth === 'public' ? [] : [{ bearerAuth: [] }],
+  };
+  if (doc.auth === 'admin') {
+    operation.description = 'Requires the ADMIN role.';
+  }
+  if (doc.body) {
+    operation.requestBody = {
+      required: true,
+      content: {
+        'application/json': { schema: toOpenApiSchema(doc.body) },
+      },
+    };
+  }
+  return operation;
+}
+
+/**
+ * Builds the OpenAPI 3 document describing the API from the route docs.
+ * @returns The OpenAPI document, served at /api/openapi.json
+ */
+export function buildOpenApiDocument(): Record<string, any> {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const doc of routeDocs) {
+    const path = toOpenApiPath(doc.path);
+    paths[path] = { ...paths[path], [doc.method]: buildOperation(doc) };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'ReefGuide Web API',
+      version: '0.1',
+      description: 'REST API to support ReefGuide AIMS.',
+    },
+    servers: [{ url: '/api' }],
+    tags: [...new Set(routeDocs.map(doc => doc.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+      schemas: {
+        Error: toOpenApiSchema(ErrorResponseSchema),
+      },
+    },
+  };
+}
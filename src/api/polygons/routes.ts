@@ -1,30 +1,50 @@
-import express from 'express';
+import { WebhookEvent } from '@prisma/client';
+import express, { Response } from 'express';
 import { z } from 'zod';
 import { processRequest } from 'zod-express-middleware';
 import { prisma } from '../apiSetup';
 import { passport } from '../auth/passportConfig';
 import { userIsAdmin } from '../auth/utils';
 import { NotFoundException, UnauthorizedException } from '../exceptions';
+import { WebhookService } from '../services/webhooks';
 import { GeoJSONPolygonSchema } from '../types/geoJson';
 require('express-async-errors');
 
 export const router = express.Router();
+const webhookService = new WebhookService();
 
-// Input validation schemas
-const createPolygonSchema = z.object({
+// Input/Output validation schemas
+export const createPolygonSchema = z.object({
   polygon: GeoJSONPolygonSchema,
 });
 
-const updatePolygonSchema = z.object({
+export const updatePolygonSchema = z.object({
   polygon: GeoJSONPolygonSchema,
 });
 
+export const polygonSchema = z.object({
+  id: z.number(),
+  created_at: z.date(),
+  user_id: z.number(),
+  polygon: z.any(),
+});
+export const polygonResponseSchema = z.object({
+  polygon: polygonSchema,
+});
+export const listPolygonsResponseSchema = z.object({
+  polygons: z.array(polygonSchema),
+});
+
+// Type inferencing from schemas
+export type PolygonResponse = z.infer<typeof polygonResponseSchema>;
+export type ListPolygonsResponse = z.infer<typeof listPolygonsResponseSchema>;
+
 /** Get a specific polygon by ID */
 router.get(
   '/:id',
   processRequest({ params: z.object({ id: z.string() }) }),
   passport.authenticate('jwt', { session: false }),
-  async (req, res) => {
+  async (req, res: Response<PolygonResponse>) => {
     if (!req.user) {
       throw new UnauthorizedException();
     }
@@ -51,7 +71,7 @@ router.get(
 router.get(
   '/',
   passport.authenticate('jwt', { session: false }),
-  async (req, res) => {
+  async (req, res: Response<ListPolygonsResponse>) => {
     if (!req.user) {
       throw new UnauthorizedException();
     }
@@ -76,16 +96,22 @@ router.post(
     body: createPolygonSchema,
   }),
   passport.authenticate('jwt', { session: false }),
-  async (req, res) => {
+  async (req, res: Response<PolygonResponse>) => {
     if (!req.user) {
       throw new UnauthorizedException();
     }
     const userId = req.user.id;
-    const newPolygon = await prisma.polygon.create({
-      data: {
-        user_id: userId,
-        polygon: req.body.polygon,
-      },
+    const newPolygon = await prisma.$transaction(async tx => {
+      const created = await tx.polygon.create({
+        data: {
+          user_id: userId,
+          polygon: req.body.polygon,
+        },
+      });
+      await webhookService.enqueue(tx, userId, WebhookEvent.POLYGON_CREATED, {
+        polygon_id: created.id,
+      });
+      return created;
     });
     res.status(200).json({
       polygon: newPolygon,
@@ -101,7 +127,7 @@ router.put(
     body: updatePolygonSchema,
   }),
   passport.authenticate('jwt', { session: false }),
-  async (req, res) => {
+  async (req, res: Response<PolygonResponse>) => {
     if (!req.user) {
       throw new UnauthorizedException();
     }
@@ -120,11 +146,21 @@ router.put(
       throw new UnauthorizedException();
     }
 
-    const updatedPolygon = await prisma.polygon.update({
-      where: { id: polygonId },
-      data: {
-        polygon: polygon,
-      },
+    const updatedPolygon = await prisma.$transaction(async tx => {
+      const updated = await tx.polygon.update({
+        where: { id: polygonId },
+        data: {
+          polygon: polygon,
+        },
+      });
+      // Notify the owner, who may not be the (admin) user making the change
+      await webhookService.enqueue(
+        tx,
+        updated.user_id,
+        WebhookEvent.POLYGON_UPDATED,
+        { polygon_id: updated.id },
+      );
+      return updated;
     });
 
     res.json({ polygon: updatedPolygon });
@@ -0,0 +1,309 @@
+import { JobSchedule, JobType, Prisma } from '@prisma/client';
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { processRequest } from 'zod-express-middleware';
+import { prisma } from '../apiSetup';
+import { passport } from '../auth/passportConfig';
+import { userIsAdmin } from '../auth/utils';
+import { NotFoundException, UnauthorizedException } from '../exceptions';
+import { jobDetailsSchema, jobRequestSchema } from '../jobs/routes';
+import { JobService } from '../services/jobs';
+import {
+  afterCursorWhere,
+  cursorOrderBy,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  toPage,
+} from '../services/pagination';
+import { nextRunAt } from '../services/schedules';
+require('express-async-errors');
+
+export const router = express.Router();
+const jobService = new JobService();
+
+// Input/Output validation schemas
+export const jobScheduleSchema = z.object({
+  id: z.number(),
+  created_at: z.date(),
+  updated_at: z.date(),
+  user_id: z.number(),
+  name: z.string(),
+  cron: z.string(),
+  timezone: z.string(),
+  type: z.nativeEnum(JobType),
+  input_payload: z.any(),
+  paused: z.boolean(),
+  // When the schedule will next run, unless paused
+  next_run_at: z.date(),
+  last_run_at: z.date().nullable(),
+});
+
+export const jobScheduleRunSchema = z.object({
+  id: z.number(),
+  created_at: z.date(),
+  schedule_id: z.number(),
+  scheduled_for: z.date(),
+  job_request_id: z.number().nullable(),
+  // Why no job was requested, if the request failed
+  error: z.string().nullable(),
+  job_request: jobRequestSchema.extend({ job: jobDetailsSchema }).nullable(),
+});
+
+export const createScheduleSchema = z.object({
+  name: z.string().min(1).max(200),
+  // Five field cron expression, e.g. "0 2 * * *" for 2am daily
+  cron: z.string(),
+  // IANA timezone the cron expression is evaluated in - UTC if omitted
+  timezone: z.string().optional(),
+  type: z.nativeEnum(JobType),
+  inputPayload: z.any(),
+});
+
+export const updateScheduleSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  cron: z.string().optional(),
+  timezone: z.string().optional(),
+  type: z.nativeEnum(JobType).optional(),
+  inputPayload: z.any().optional(),
+});
+
+export const scheduleResponseSchema = z.object({
+  schedule: jobScheduleSchema,
+});
+export const listSchedulesResponseSchema = z.object({
+  schedules: z.array(jobScheduleSchema),
+});
+
+export const listScheduleRunsSchema = z.object({
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .refine(limit => {
+      const n = parseInt(limit);
+      return n >= 1 && n <= MAX_PAGE_SIZE;
+    }, `Limit must be between 1 and ${MAX_PAGE_SIZE}`)
+    .optional(),
+  // nextCursor from the previous page
+  cursor: z.string().optional(),
+});
+export const listScheduleRunsResponseSchema = z.object({
+  // Newest first
+  runs: z.array(jobScheduleRunSchema),
+  // Null on the last page
+  nextCursor: z.string().nullable(),
+});
+
+// Type inferencing from schemas
+export type ScheduleResponse = z.infer<typeof scheduleResponseSchema>;
+export type ListSchedulesResponse = z.infer<typeof listSchedulesResponseSchema>;
+export type ListScheduleRunsResponse = z.infer<
+  typeof listScheduleRunsResponseSchema
+>;
+
+/**
+ * Fetches a schedule, checking the user owns it (or is an admin)
+ * @throws NotFoundException if it doesn't exist
+ * @throws UnauthorizedException if the user may not access it
+ */
+async function getAuthorisedSchedule(
+  id: number,
+  user: Express.User,
+): Promise<JobSchedule> {
+  const schedule = await prisma.jobSchedule.findUnique({ where: { id } });
+  if (!schedule) {
+    throw new NotFoundException('Schedule not found');
+  }
+  if (!userIsAdmin(user) && schedule.user_id !== user.id) {
+    throw new UnauthorizedException();
+  }
+  return schedule;
+}
+
+/** Create a schedule which requests a job for the current user */
+router.post(
+  '/',
+  processRequest({
+    body: createScheduleSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<ScheduleResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+    const { name, cron, timezone = 'UTC', type, inputPayload } = req.body;
+
+    const nextRun = nextRunAt(cron, timezone);
+    await jobService.validateJobPayload(type, inputPayload);
+    const schedule = await prisma.jobSchedule.create({
+      data: {
+        user_id: req.user.id,
+        name,
+        cron,
+        timezone,
+        type,
+        input_payload: inputPayload,
+        next_run_at: nextRun,
+      },
+    });
+    res.status(200).json({ schedule });
+  },
+);
+
+/** Get all schedules for the user, or all schedules if admin */
+router.get(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<ListSchedulesResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+
+    const schedules = await prisma.jobSchedule.findMany({
+      where: userIsAdmin(req.user) ? {} : { user_id: req.user.id },
+      orderBy: { id: 'asc' },
+    });
+    res.json({ schedules });
+  },
+);
+
+/** Get a specific schedule */
+router.get(
+  '/:id',
+  processRequest({ params: z.object({ id: z.string() }) }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<ScheduleResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+    const schedule = await getAuthorisedSchedule(
+      parseInt(req.params.id),
+      req.user,
+    );
+    res.json({ schedule });
+  },
+);
+
+/**
+ * Update a schedule. Changing the cron expression or timezone reschedules the
+ * next run, and the input payload is revalidated if it or the type changes.
+ */
+router.put(
+  '/:id',
+  processRequest({
+    params: z.object({ id: z.string() }),
+    body: updateScheduleSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<ScheduleResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+    const id = parseInt(req.params.id);
+    const existing = await getAuthorisedSchedule(id, req.user);
+    const { name, cron, timezone, type, inputPayload } = req.body;
+
+    const data: Prisma.JobScheduleUpdateInput = { name, cron, timezone, type };
+    if (cron !== undefined || timezone !== undefined) {
+      data.next_run_at = nextRunAt(
+        cron ?? existing.cron,
+        timezone ?? existing.timezone,
+      );
+    }
+    if (type !== undefined || inputPayload !== undefined) {
+      await jobService.validateJobPayload(
+        type ?? existing.type,
+        inputPayload ?? existing.input_payload,
+      );
+      data.input_payload = inputPayload;
+    }
+
+    const schedule = await prisma.jobSchedule.update({ where: { id }, data });
+    res.json({ schedule });
+  },
+);
+
+/** Delete a schedule and its run history - the jobs it requested remain */
+router.delete(
+  '/:id',
+  processRequest({ params: z.object({ id: z.string() }) }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res) => {
+    if (!req.user) throw new UnauthorizedException();
+    const id = parseInt(req.params.id);
+    await getAuthorisedSchedule(id, req.user);
+
+    await prisma.jobSchedule.delete({ where: { id } });
+    res.status(204).send();
+  },
+);
+
+/** Pause a schedule - it won't run until resumed */
+router.post(
+  '/:id/pause',
+  processRequest({ params: z.object({ id: z.string() }) }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<ScheduleResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+    const id = parseInt(req.params.id);
+    await getAuthorisedSchedule(id, req.user);
+
+    const schedule = await prisma.jobSchedule.update({
+      where: { id },
+      data: { paused: true },
+    });
+    res.json({ schedule });
+  },
+);
+
+/**
+ * Resume a paused schedule. It next runs at its next scheduled time from now -
+ * runs missed while paused are skipped.
+ */
+router.post(
+  '/:id/resume',
+  processRequest({ params: z.object({ id: z.string() }) }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<ScheduleResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+    const id = parseInt(req.params.id);
+    const existing = await getAuthorisedSchedule(id, req.user);
+
+    const schedule = await prisma.jobSchedule.update({
+      where: { id },
+      data: {
+        paused: false,
+        next_run_at: nextRunAt(existing.cron, existing.timezone),
+      },
+    });
+    res.json({ schedule });
+  },
+);
+
+/** Get a page of a schedule's runs, newest first, with their jobs */
+router.get(
+  '/:id/runs',
+  processRequest({
+    params: z.object({ id: z.string() }),
+    query: listScheduleRunsSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<ListScheduleRunsResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+    const id = parseInt(req.params.id);
+    await getAuthorisedSchedule(id, req.user);
+
+    const limit = req.query.limit
+      ? parseInt(req.query.limit)
+      : DEFAULT_PAGE_SIZE;
+    const rows = await prisma.jobScheduleRun.findMany({
+      where: {
+        schedule_id: id,
+        ...(afterCursorWhere(
+          req.query.cursor,
+          'id',
+          'desc',
+        ) as Prisma.JobScheduleRunWhereInput),
+      },
+      include: { job_request: { include: { job: true } } },
+      orderBy: cursorOrderBy(
+        'id',
+        'desc',
+      ) as Prisma.JobScheduleRunOrderByWithRelationInput[],
+      take: limit + 1,
+    });
+    const { rows: runs, nextCursor } = toPage(rows, limit, 'id', 'desc');
+    res.json({ runs, nextCursor });
+  },
+);
@@ -0,0 +1,198 @@
+import { JobStatus, Prisma } from '@prisma/client';
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { Client } from 'pg';
+import { config } from '../config';
+
+/** Postgres NOTIFY channel carrying job events between API instances */
+export const JOB_EVENTS_CHANNEL = 'job_events';
+
+/** How often to send a comment down idle event streams to keep them open */
+const KEEPALIVE_INTERVAL_MS = 25000;
+
+/**
+ * A change to a job's state. Kept small, as it travels as a NOTIFY payload
+ * (8000 byte limit).
+ *
+ * - status: the job's status changed
+ * - progress: the active assignment reported progress
+ * - result: the job succeeded and its results are available
+ */
+export type JobEvent = {
+  type: 'status' | 'progress' | 'result';
+  jobId: number;
+  userId: number;
+  status: JobStatus;
+  progress?: {
+    percent: number;
+    stage: string | null;
+    message: string | null;
+  };
+};
+
+/**
+ * Publishes a job event to all API instances. When called with a transaction
+ * client, Postgres only delivers the event once the transaction commits.
+ * @param client - Prisma client or transaction client
+ * @param event - The event to publish
+ */
+export async function publishJobEvent(
+  client: Prisma.TransactionClient,
+  event: JobEvent,
+) {
+  await client.$executeRaw`SELECT pg_notify(${JOB_EVENTS_CHANNEL}, ${JSON.stringify(event)})`;
+}
+
+/**
+ * Listens for job events published by any API instance. A single dedicated
+ * connection is opened when the first subscriber arrives and closed when the
+ * last one leaves.
+ */
+class JobEventListener {
+  private emitter = new EventEmitter();
+
+  private client: Client | null = null;
+
+  private connecting: Promise<void> | null = null;
+
+  constructor() {
+    // One listener per open event stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Subscribes to job events
+   * @param onEvent - Called for every job event
+   * @param onDisconnect - Called if the listener connection is lost, after
+   * which no more events will be delivered to this subscriber
+   * @returns Function which unsubscribes
+   */
+  async subscribe(
+    onEvent: (event: JobEvent) => void,
+    onDisconnect: () => void,
+  ): Promise<() => void> {
+    this.emitter.on('event', onEvent);
+    this.emitter.on('disconnect', onDisconnect);
+    const unsubscribe = () => {
+      this.emitter.off('event', onEvent);
+      this.emitter.off('disconnect', onDisconnect);
+      if (this.emitter.listenerCount('event') === 0) this.close();
+    };
+
+    try {
+      if (!this.connecting) this.connecting = this.connect();
+      await this.connecting;
+    } catch (e) {
+      unsubscribe();
+      throw e;
+    }
+    return unsubscribe;
+  }
+
+  private async connect() {
+    const client = new Client({ connectionString: config.database.directUrl });
+    client.on('notification', message => {
+      if (message.channel !== JOB_EVENTS_CHANNEL || !message.payload) return;
+      try {
+        this.emitter.emit('event', JSON.parse(message.payload) as JobEvent);
+      } catch (e) {
+        console.error('Ignoring malformed job event:', e);
+      }
+    });
+    client.on('error', error => {
+      console.error('Job event listener connection error:', error);
+      this.dropConnection(client);
+    });
+    client.on('end', () => this.dropConnection(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${JOB_EVENTS_CHANNEL}`);
+    } catch (e) {
+      this.connecting = null;
+      await client.end().catch(() => undefined);
+      throw e;
+    }
+    this.client = client;
+  }
+
+  /**
+   * Forgets a connection which has failed or ended, and tells its
+   * subscribers - the next subscriber reconnects
+   */
+  private dropConnection(client: Client) {
+    if (this.client !== client) return;
+    this.client = null;
+    this.connecting = null;
+    this.emitter.emit('disconnect');
+  }
+
+  /** Closes the connection once nobody is listening */
+  private close() {
+    const client = this.client;
+    this.client = null;
+    this.connecting = null;
+    client?.end().catch(e => console.error('Error closing job listener:', e));
+  }
+}
+
+export const jobEventListener = new JobEventListener();
+
+/**
+ * Streams job events matching a filter to the client as server-sent events,
+ * until the client disconnects.
+ * @param res - The response to stream to
+ * @param filter - Which events this client should receive
+ * @param initial - Events to send immediately, e.g. the current state
+ */
+export async function streamJobEvents(
+  res: Response,
+  filter: (event: JobEvent) => boolean,
+  initial: JobEvent[] = [],
+) {
+  const send = (event: JobEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Watch for the response closing (the client leaving, or us ending it)
+  // before subscribing, which may wait for the listen connection - a client
+  // which leaves meanwhile must still be cleaned up
+  let closed = false;
+  let cleanup = () => {
+    closed = true;
+  };
+  res.on('close', () => cleanup());
+
+  // Subscribe before sending the current state, so nothing is missed in
+  // between
+  const unsubscribe = await jobEventListener.subscribe(
+    event => {
+      if (filter(event)) send(event);
+    },
+    () => res.end(),
+  );
+  if (closed || res.destroyed) {
+    unsubscribe();
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop proxies (e.g. nginx) buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  initial.forEach(send);
+
+  const keepalive = setInterval(
+    () => res.write(': keepalive\n\n'),
+    KEEPALIVE_INTERVAL_MS,
+  );
+  // Stop the keepalive with the subscription, so nothing outlives the client
+  cleanup = () => {
+    clearInterval(keepalive);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,190 @@
+import { JobLogLevel, Prisma } from '@prisma/client';
+import { prisma } from '../apiSetup';
+import { config } from '../config';
+import { NotFoundException, UnauthorizedException } from '../exceptions';
+
+/** Longest log line kept - longer lines are truncated */
+export const MAX_LOG_LINE_LENGTH = 4000;
+
+/** Most lines a worker may send in one request */
+export const MAX_LOG_BATCH_SIZE = 1000;
+
+/** Default number of lines in a read of a job's logs */
+export const DEFAULT_LOG_PAGE_SIZE = 500;
+
+/** Upper bound on the lines a client may read at once */
+export const MAX_LOG_PAGE_SIZE = 5000;
+
+/** Key (with the assignment's id) of the advisory lock serialising appends */
+const LOG_LOCK_KEY = 7303;
+
+/** A line sent by a worker */
+export type JobLogLine = {
+  // When the worker logged it - when it was received if omitted
+  timestamp?: Date;
+  level?: JobLogLevel;
+  message: string;
+};
+
+/** A stored line, with the ECS task of the assignment which sent it */
+export type JobLogEntry = {
+  id: number;
+  assignment_id: number;
+  ecs_task_arn: string;
+  logged_at: Date;
+  level: JobLogLevel | null;
+  message: string;
+};
+
+/** Lines read from a job's logs */
+export type JobLogsPage = {
+  logs: JobLogEntry[];
+  // More lines follow when reading forward
+  hasMore: boolean;
+  // Id of the last line read, or the after given if there were none
+  lastId: number | null;
+};
+
+/**
+ * Appends a batch of worker log lines to an assignment. Once the assignment
+ * has JOB_LOG_MAX_LINES_PER_ASSIGNMENT lines, further lines are dropped.
+ * @param assignmentId - The assignment the worker is running
+ * @param lines - The lines, in the order they were logged
+ * @returns How many lines were stored and how many were dropped by the cap
+ * @throws NotFoundException if the assignment doesn't exist
+ */
+export async function appendJobLogs(
+  assignmentId: number,
+  lines: JobLogLine[],
+): Promise<{ accepted: number; dropped: number }> {
+  const receivedAt = new Date();
+  return prisma.$transaction(async tx => {
+    const assignment = await tx.jobAssignment.findUnique({
+      where: { id: assignmentId },
+      select: { job_id: true },
+    });
+    if (!assignment) throw new NotFoundException('Assignment not found');
+
+    // Concurrent batches for the assignment can't both use the last of the
+    // cap
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${LOG_LOCK_KEY}::int, ${assignmentId}::int)`;
+    const stored = await tx.jobLog.count({
+      where: { assignment_id: assignmentId },
+    });
+    const room = Math.max(0, config.jobLogs.maxLinesPerAssignment - stored);
+    const accepted = lines.slice(0, room);
+    if (accepted.length > 0) {
+      await tx.jobLog.createMany({
+        data: accepted.map(line => ({
+          job_id: assignment.job_id,
+          assignment_id: assignmentId,
+          logged_at: line.timestamp ?? receivedAt,
+          level: line.level,
+          message: line.message.slice(0, MAX_LOG_LINE_LENGTH),
+        })),
+      });
+    }
+    return {
+      accepted: accepted.length,
+      dropped: lines.length - accepted.length,
+    };
+  });
+}
+
+/**
+ * Reads a job's logs, oldest first. Either reads forward - from the start, or
+ * after the line with id `after` when tailing - or reads the last `tail`
+ * lines.
+ * @param jobId - The job
+ * @param userId - The user reading the logs
+ * @param isAdmin - Whether the user is an admin - others may only read the
+ * logs of their own jobs
+ * @param params.assignmentId - Only lines from this assignment (attempt)
+ * @param params.after - Only lines after this line id
+ * @param params.tail - Read the last this many lines instead
+ * @param params.limit - Most lines to read forward
+ * @returns The lines, whether there are more to read forward, and the id to
+ * pass as `after` to continue tailing
+ * @throws NotFoundException if the job doesn't exist
+ * @throws UnauthorizedException if the job isn't the user's
+ */
+export async function getJobLogs(
+  jobId: number,
+  userId: number,
+  isAdmin: boolean,
+  params: {
+    assignmentId?: number;
+    after?: number;
+    tail?: number;
+    limit?: number;
+  },
+): Promise<JobLogsPage> {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: { user_id: true },
+  });
+  if (!job) throw new NotFoundException('Job not found');
+  if (!isAdmin && job.user_id !== userId) {
+    throw new UnauthorizedException();
+  }
+
+  const where: Prisma.JobLogWhereInput = {
+    job_id: jobId,
+    assignment_id: params.assignmentId,
+    id: params.after !== undefined ? { gt: params.after } : undefined,
+  };
+  const include = { assignment: { select: { ecs_task_arn: true } } };
+
+  let rows;
+  let hasMore = false;
+  if (params.tail !== undefined) {
+    rows = await prisma.jobLog.findMany({
+      where,
+      include,
+      orderBy: { id: 'desc' },
+      take: params.tail,
+    });
+    rows.reverse();
+  } else {
+    const limit = Math.min(
+      params.limit ?? DEFAULT_LOG_PAGE_SIZE,
+      MAX_LOG_PAGE_SIZE,
+    );
+    rows = await prisma.jobLog.findMany({
+      where,
+      include,
+      orderBy: { id: 'asc' },
+      take: limit + 1,
+    });
+    hasMore = rows.length > limit;
+    rows = rows.slice(0, limit);
+  }
+
+  const logs = rows.map(row => ({
+    id: row.id,
+    assignment_id: row.assignment_id,
+    ecs_task_arn: row.assignment.ecs_task_arn,
+    logged_at: row.logged_at,
+    level: row.level,
+    message: row.message,
+  }));
+  return {
+    logs,
+    hasMore,
+    lastId: logs.length > 0 ? logs[logs.length - 1].id : (params.after ?? null),
+  };
+}
+
+/**
+ * Deletes worker log lines older than JOB_LOG_RETENTION_DAYS
+ * @returns How many lines were deleted
+ */
+export async function deleteExpiredJobLogs(): Promise<number> {
+  const cutoff = new Date(
+    Date.now() - config.jobLogs.retentionDays * 24 * 60 * 60 * 1000,
+  );
+  const { count } = await prisma.jobLog.deleteMany({
+    where: { created_at: { lt: cutoff } },
+  });
+  return count;
+}
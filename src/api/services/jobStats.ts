@@ -0,0 +1,218 @@
+import { JobStatus, JobType } from '@prisma/client';
+import { prisma } from '../apiSetup';
+
+/** Statuses of jobs which are queued or running */
+const QUEUED_STATUSES: JobStatus[] = [
+  JobStatus.PENDING,
+  JobStatus.BLOCKED,
+  JobStatus.IN_PROGRESS,
+];
+
+/** Statuses a job can finish in */
+const FINISHED_STATUSES: JobStatus[] = [
+  JobStatus.SUCCEEDED,
+  JobStatus.FAILED,
+  JobStatus.TIMED_OUT,
+  JobStatus.DEAD_LETTER,
+  JobStatus.CANCELLED,
+];
+
+/** Median and 95th percentile of a duration - null if there were none */
+export type DurationStats = {
+  count: number;
+  p50: number | null;
+  p95: number | null;
+};
+
+/** Performance of the job system over a window, for one or all job types */
+export type JobTypeStats = {
+  // Seconds from a job's creation to its first assignment, for jobs created
+  // in the window which have been assigned
+  waitSeconds: DurationStats;
+  // Seconds from assignment to the worker's result, for attempts which
+  // reported a result in the window
+  runSeconds: DurationStats;
+  // Attempts which ended in the window, and how many timed out
+  attempts: {
+    completed: number;
+    timedOut: number;
+    timeoutRate: number | null;
+  };
+  // Jobs which finished (were last updated) in the window, by final status
+  outcomes: {
+    finished: number;
+    succeeded: number;
+    failed: number;
+    timedOut: number;
+    deadLettered: number;
+    cancelled: number;
+    // Failed or dead lettered, of those finished
+    failureRate: number | null;
+    timeoutRate: number | null;
+  };
+  // Job requests made in the window, and how many reused a cached job
+  requests: {
+    total: number;
+    cacheHits: number;
+    cacheHitRatio: number | null;
+  };
+};
+
+/** Job system performance over a window */
+export type JobStats = {
+  window: { from: Date; to: Date };
+  // Jobs currently queued or running, by type and status
+  queue: { type: JobType; status: JobStatus; count: number }[];
+  types: Record<JobType, JobTypeStats>;
+  // Across all job types
+  overall: JobTypeStats;
+};
+
+/** Row of a duration query - type is null for the row across all types */
+type DurationRow = {
+  type: JobType | null;
+  count: number;
+  percentiles: number[] | null;
+};
+
+/** Row of the attempts query - count and percentiles are of reported results */
+type AttemptRow = DurationRow & { completed: number; timed_out: number };
+
+/** Ratio of part to whole - null if whole is zero */
+function ratio(part: number, whole: number): number | null {
+  return whole === 0 ? null : part / whole;
+}
+
+/** Duration stats from a duration query row - empty if there was no row */
+function toDurationStats(row?: DurationRow): DurationStats {
+  return {
+    count: row?.count ?? 0,
+    p50: row?.percentiles?.[0] ?? null,
+    p95: row?.percentiles?.[1] ?? null,
+  };
+}
+
+/**
+ * Computes queue depth, wait and run time percentiles, failure and timeout
+ * rates and cache hit ratios over a time window - the evidence for tuning the
+ * job manager's scaling settings
+ * @param from - Start of the window (inclusive)
+ * @param to - End of the window (exclusive)
+ * @returns The stats for each job type and across all types
+ */
+export async function getJobStats(from: Date, to: Date): Promise<JobStats> {
+  const [queue, waits, runs, outcomes, requests] = await Promise.all([
+    prisma.job.groupBy({
+      by: ['type', 'status'],
+      where: { status: { in: QUEUED_STATUSES } },
+      _count: { _all: true },
+      orderBy: [{ type: 'asc' }, { status: 'asc' }],
+    }),
+    // The empty grouping set gives the row across all types
+    prisma.$queryRaw<DurationRow[]>`
+      SELECT j.type, COUNT(*)::int AS count,
+        percentile_cont(ARRAY[0.5, 0.95]) WITHIN GROUP (
+          ORDER BY EXTRACT(EPOCH FROM (first_assignment.assigned_at - j.created_at))
+        ) AS percentiles
+      FROM "Job" j
+      JOIN (
+        SELECT job_id, MIN(created_at) AS assigned_at
+        FROM "JobAssignment"
+        GROUP BY job_id
+      ) first_assignment ON first_assignment.job_id = j.id
+      WHERE j.created_at >= ${from} AND j.created_at < ${to}
+      GROUP BY GROUPING SETS ((j.type), ())`,
+    prisma.$queryRaw<AttemptRow[]>`
+      SELECT j.type,
+        COUNT(*)::int AS completed,
+        COUNT(*) FILTER (WHERE a.timed_out)::int AS timed_out,
+        COUNT(r.id)::int AS count,
+        percentile_cont(ARRAY[0.5, 0.95]) WITHIN GROUP (
+          ORDER BY EXTRACT(EPOCH FROM (a.completed_at - a.created_at))
+        ) FILTER (WHERE r.id IS NOT NULL) AS percentiles
+      FROM "JobAssignment" a
+      JOIN "Job" j ON j.id = a.job_id
+      LEFT JOIN "JobResult" r ON r.assignment_id = a.id
+      WHERE a.completed_at >= ${from} AND a.completed_at < ${to}
+      GROUP BY GROUPING SETS ((j.type), ())`,
+    prisma.job.groupBy({
+      by: ['type', 'status'],
+      where: {
+        status: { in: FINISHED_STATUSES },
+        updated_at: { gte: from, lt: to },
+      },
+      _count: { _all: true },
+    }),
+    prisma.jobRequest.groupBy({
+      by: ['type', 'cache_hit'],
+      where: { created_at: { gte: from, lt: to } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  // type is undefined for stats across all types
+  const statsFor = (type?: JobType): JobTypeStats => {
+    const matches = (row: { type: JobType | null }) =>
+      type === undefined || row.type === type;
+    const countOutcome = (status: JobStatus) =>
+      outcomes
+        .filter(row => matches(row) && row.status === status)
+        .reduce((sum, row) => sum + row._count._all, 0);
+
+    const run = runs.find(row => row.type === (type ?? null));
+    const completed = run?.completed ?? 0;
+    const timedOutAttempts = run?.timed_out ?? 0;
+
+    const succeeded = countOutcome(JobStatus.SUCCEEDED);
+    const failed = countOutcome(JobStatus.FAILED);
+    const timedOut = countOutcome(JobStatus.TIMED_OUT);
+    const deadLettered = countOutcome(JobStatus.DEAD_LETTER);
+    const cancelled = countOutcome(JobStatus.CANCELLED);
+    const finished = succeeded + failed + timedOut + deadLettered + cancelled;
+
+    const typeRequests = requests.filter(matches);
+    const total = typeRequests.reduce((sum, row) => sum + row._count._all, 0);
+    const cacheHits = typeRequests
+      .filter(row => row.cache_hit)
+      .reduce((sum, row) => sum + row._count._all, 0);
+
+    return {
+      waitSeconds: toDurationStats(
+        waits.find(row => row.type === (type ?? null)),
+      ),
+      runSeconds: toDurationStats(run),
+      attempts: {
+        completed,
+        timedOut: timedOutAttempts,
+        timeoutRate: ratio(timedOutAttempts, completed),
+      },
+      outcomes: {
+        finished,
+        succeeded,
+        failed,
+        timedOut,
+        deadLettered,
+        cancelled,
+        failureRate: ratio(failed + deadLettered, finished),
+        timeoutRate: ratio(timedOut, finished),
+      },
+      requests: { total, cacheHits, cacheHitRatio: ratio(cacheHits, total) },
+    };
+  };
+
+  const types = {} as Record<JobType, JobTypeStats>;
+  for (const type of Object.values(JobType)) {
+    types[type] = statsFor(type);
+  }
+
+  return {
+    window: { from, to },
+    queue: queue.map(row => ({
+      type: row.type,
+      status: row.status,
+      count: row._count._all,
+    })),
+    types,
+    overall: statsFor(),
+  };
+}
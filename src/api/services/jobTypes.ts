@@ -0,0 +1,475 @@
+import { JobStatus, JobType, StorageScheme } from '@prisma/client';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { prisma } from '../apiSetup';
+
+/**
+ * Retry policy for a job type. When an attempt ends in one of the retryOn
+ * statuses and attempts remain, the job goes back to PENDING but can't be
+ * assigned until the backoff delay has elapsed. Once attempts are exhausted
+ * the job is dead lettered.
+ */
+export type JobRetryPolicy = {
+  // Total attempts allowed, including the first
+  maxAttempts: number;
+  // Delay before the first retry
+  backoffSeconds: number;
+  // Each subsequent retry's delay is multiplied by this
+  backoffMultiplier: number;
+  // Which outcomes are retryable - FAILED (reported by the worker) and/or
+  // TIMED_OUT (the assignment's lease expired)
+  retryOn: JobStatus[];
+};
+
+/** How a job type's results are reused from the job cache */
+export type JobCachePolicy = {
+  // How long a successful job's result may be reused - forever if not set
+  ttlMinutes?: number;
+};
+
+/**
+ * Where a job type's results are written. Each assignment gets its own
+ * location: <scheme>://<bucket>/<prefix>/<job id>/<timestamp>
+ */
+export type JobStorageLayout = {
+  scheme: StorageScheme;
+  prefix: string;
+};
+
+/**
+ * Maps a validated input payload to a canonical form, so that payloads which
+ * request the same work produce the same cache hash. Only used for hashing -
+ * the job keeps the payload as submitted.
+ */
+export type PayloadCanonicaliser = (payload: any) => any;
+
+/** Everything the job system needs to know about a job type */
+export type JobTypeDefinition = {
+  // Short summary, returned by the job type discovery endpoint
+  description: string;
+  // Schema for the job's input payload
+  input: z.ZodType<any>;
+  // Schema for the worker's result payload, if it is validated
+  result?: z.ZodType<any>;
+  // Values the worker uses for input fields which are omitted
+  defaults?: Record<string, number>;
+  // Applied to the input payload before hashing, if defined
+  canonicalise?: PayloadCanonicaliser;
+  // Initial lease granted when the job is assigned
+  expiryMinutes: number;
+  // Lease granted from the time of each worker heartbeat
+  leaseMinutes: number;
+  // Priority given to new jobs of this type - higher is assigned sooner
+  priority: number;
+  // What to do when an attempt fails or its lease expires
+  retry: JobRetryPolicy;
+  cache: JobCachePolicy;
+  storage: JobStorageLayout;
+  // Default maximum new jobs of this type a user may create in any 24 hours -
+  // unlimited if not set. Admins can override it per user.
+  dailyLimit?: number;
+};
+
+/** Longest stack/log excerpt kept with a failure - longer ones keep the end */
+export const MAX_FAILURE_DETAILS_LENGTH = 10000;
+
+/**
+ * Why a worker's attempt failed - submitted with a FAILED result, for any job
+ * type. A non retryable failure (e.g. invalid input data) is final, even if the
+ * job type's retry policy retries FAILED attempts.
+ */
+export const jobFailureSchema = z.object({
+  // Machine readable cause, e.g. DATA_NOT_FOUND
+  code: z.string().min(1).max(100),
+  message: z.string().min(1).max(2000),
+  // Excerpt of the worker's stack trace or log
+  details: z
+    .string()
+    .transform(details => details.slice(-MAX_FAILURE_DETAILS_LENGTH))
+    .optional(),
+  retryable: z.boolean(),
+});
+export type JobFailure = z.infer<typeof jobFailureSchema>;
+
+const sharedCriteriaSchema = z.object({
+  // High level config - common to all current scenarios
+  region: z.string().describe('Region for assessment'),
+  reef_type: z.string().describe('The type of reef, slopes or flats'),
+
+  // Criteria - all optional to match the Union{Float64,Nothing} in worker
+  depth_min: z
+    .number()
+    .optional()
+    .describe('The depth minimum (the deeper more negative value)'),
+  depth_max: z
+    .number()
+    .optional()
+    .describe('The depth maximum (the shallower less negative value)'),
+  slope_min: z.number().optional().describe('The slope range (min)'),
+  slope_max: z.number().optional().describe('The slope range (max)'),
+  rugosity_min: z.number().optional().describe('The rugosity range (min)'),
+  rugosity_max: z.number().optional().describe('The rugosity range (max)'),
+  waves_period_min: z
+    .number()
+    .optional()
+    .describe('The wave period range (min)'),
+  waves_period_max: z
+    .number()
+    .optional()
+    .describe('The wave period range (max)'),
+  waves_height_min: z
+    .number()
+    .optional()
+    .describe('The wave height range (min)'),
+  waves_height_max: z
+    .number()
+    .optional()
+    .describe('The wave height range (max)'),
+});
+
+/**
+ * Builds a canonicaliser for criteria style payloads. Fields are processed in
+ * order: omitted fields take their defaults, numbers are rounded, then bounds
+ * which exclude nothing are dropped.
+ * @param defaults - Values the worker uses for omitted fields
+ * @param precision - Decimal places each numeric field is significant to
+ * @param noOpBounds - Bound values equivalent to not setting the bound
+ * @returns The canonicaliser
+ */
+function criteriaCanonicaliser({
+  defaults = {},
+  precision = {},
+  noOpBounds = {},
+}: {
+  defaults?: Record<string, number>;
+  precision?: Record<string, number>;
+  noOpBounds?: Record<string, number>;
+}): PayloadCanonicaliser {
+  return payload => {
+    if (
+      typeof payload !== 'object' ||
+      payload === null ||
+      Array.isArray(payload)
+    ) {
+      return payload;
+    }
+
+    const canonical: Record<string, any> = { ...defaults, ...payload };
+    for (const [field, places] of Object.entries(precision)) {
+      if (typeof canonical[field] === 'number') {
+        const factor = Math.pow(10, places);
+        // Adding zero turns -0 into 0
+        canonical[field] = Math.round(canonical[field] * factor) / factor + 0;
+      }
+    }
+    for (const [field, bound] of Object.entries(noOpBounds)) {
+      if (canonical[field] === bound) delete canonical[field];
+    }
+    return canonical;
+  };
+}
+
+/** Precision of the shared criteria - finer differences don't change results */
+const criteriaPrecision = {
+  depth_min: 2,
+  depth_max: 2,
+  slope_min: 3,
+  slope_max: 3,
+  rugosity_min: 3,
+  rugosity_max: 3,
+  waves_period_min: 3,
+  waves_period_max: 3,
+  waves_height_min: 3,
+  waves_height_max: 3,
+};
+
+/**
+ * Slope, rugosity and wave measures are never negative, so a minimum of zero
+ * is the same as no minimum
+ */
+const criteriaNoOpBounds = {
+  slope_min: 0,
+  rugosity_min: 0,
+  waves_period_min: 0,
+  waves_height_min: 0,
+};
+
+/** The worker's defaults for omitted suitability assessment fields */
+const suitabilityDefaults = { threshold: 95 };
+
+/**
+ * The job type registry - the single definition of each job type. Adding a
+ * job type means adding it to the Prisma JobType enum and here; everything
+ * else (validation, leases, retries, caching, storage and the discovery
+ * endpoint) is derived from its entry.
+ */
+export const jobTypeRegistry: Record<JobType, JobTypeDefinition> = {
+  TEST: {
+    description: 'Test job which does no work - used to exercise the system',
+    input: z
+      .object({
+        // This is just to break up the hash
+        id: z.number(),
+      })
+      .strict(),
+    result: z.object({}).strict().optional(),
+    // expires in one hour
+    expiryMinutes: 60,
+    // each heartbeat keeps the job alive for five minutes
+    leaseMinutes: 5,
+    priority: 0,
+    // test jobs are often failed deliberately - only retry lost workers, and
+    // immediately
+    retry: {
+      maxAttempts: 2,
+      backoffSeconds: 0,
+      backoffMultiplier: 1,
+      retryOn: [JobStatus.TIMED_OUT],
+    },
+    cache: {},
+    storage: { scheme: StorageScheme.S3, prefix: 'results/test' },
+  },
+  // The suitability assessment job takes in regional parameters and returns the location of the file relative to the job storage location.
+  SUITABILITY_ASSESSMENT: {
+    description:
+      'Finds sites of the given size within a region which meet the criteria',
+    // base criteria + x/y size
+    input: sharedCriteriaSchema
+      .extend({
+        x_dist: z.number().describe('Length (m) of the target polygon'),
+        y_dist: z.number().describe('Width (m) of the target polygon'),
+        threshold: z
+          .number()
+          .optional()
+          .describe('Suitability threshold integer (min)'),
+      })
+      .strict(),
+    result: z
+      .object({
+        geojson_path: z
+          .string()
+          .describe(
+            'Relative path in job storage location to the GeoJSON file containing assessment results',
+          ),
+      })
+      .strict(),
+    defaults: suitabilityDefaults,
+    canonicalise: criteriaCanonicaliser({
+      defaults: suitabilityDefaults,
+      precision: { ...criteriaPrecision, x_dist: 1, y_dist: 1, threshold: 0 },
+      noOpBounds: criteriaNoOpBounds,
+    }),
+    // expires in one hour
+    expiryMinutes: 60,
+    // each heartbeat keeps the job alive for ten minutes
+    leaseMinutes: 10,
+    // users are usually waiting on these interactively
+    priority: 10,
+    // three attempts, retrying after one then two minutes
+    retry: {
+      maxAttempts: 3,
+      backoffSeconds: 60,
+      backoffMultiplier: 2,
+      retryOn: [JobStatus.FAILED, JobStatus.TIMED_OUT],
+    },
+    // results are reused for up to a week
+    cache: { ttlMinutes: 7 * 24 * 60 },
+    storage: {
+      scheme: StorageScheme.S3,
+      prefix: 'results/suitability_assessment',
+    },
+    dailyLimit: 200,
+  },
+  REGIONAL_ASSESSMENT: {
+    description:
+      'Scores how well a whole region meets the criteria, as a COG raster',
+    // Just base criteria
+    input: sharedCriteriaSchema.strict(),
+    result: z
+      .object({
+        cog_path: z
+          .string()
+          .describe(
+            'Relative location of the COG file in the output directory',
+          ),
+      })
+      .strict(),
+    canonicalise: criteriaCanonicaliser({
+      precision: criteriaPrecision,
+      noOpBounds: criteriaNoOpBounds,
+    }),
+    // whole regions take a while - expires in two hours
+    expiryMinutes: 120,
+    // each heartbeat keeps the job alive for ten minutes
+    leaseMinutes: 10,
+    // usually a prerequisite of interactive suitability assessments
+    priority: 5,
+    // runs are long and failures usually down to the input, so only retry
+    // lost workers - once, after two minutes
+    retry: {
+      maxAttempts: 2,
+      backoffSeconds: 120,
+      backoffMultiplier: 1,
+      retryOn: [JobStatus.TIMED_OUT],
+    },
+    // results are reused for up to a week
+    cache: { ttlMinutes: 7 * 24 * 60 },
+    storage: {
+      scheme: StorageScheme.S3,
+      prefix: 'results/regional_assessment',
+    },
+    // the most expensive job type to run
+    dailyLimit: 20,
+  },
+};
+
+/**
+ * Looks up a job type's definition
+ * @param jobType - The job type
+ * @returns The definition, or undefined if the type isn't registered (e.g. an
+ * unvalidated string)
+ */
+export function getJobTypeDefinition(
+  jobType: JobType,
+): JobTypeDefinition | undefined {
+  return jobTypeRegistry[jobType];
+}
+
+/**
+ * Converts a payload schema to JSON Schema, including each field's describe
+ * text and the worker's defaults for omitted fields
+ * @param schema - The zod schema
+ * @param defaults - Default values to record on the matching properties
+ * @returns The JSON Schema
+ */
+function toJsonSchema(
+  schema: z.ZodType<any>,
+  defaults: Record<string, number> = {},
+) {
+  const jsonSchema = zodToJsonSchema(schema, { $refStrategy: 'none' });
+  if ('properties' in jsonSchema) {
+    for (const [field, value] of Object.entries(defaults)) {
+      const property = jsonSchema.properties[field];
+      if (property) Object.assign(property, { default: value });
+    }
+  }
+  return jsonSchema;
+}
+
+/**
+ * Describes a job type for the discovery endpoint - its payload schemas as
+ * JSON Schema, and its policies
+ * @param type - The job type
+ * @returns The job type's description
+ */
+export function describeJobType(type: JobType) {
+  const definition = jobTypeRegistry[type];
+  return {
+    type,
+    description: definition.description,
+    inputSchema: toJsonSchema(definition.input, definition.defaults),
+    resultSchema: definition.result ? toJsonSchema(definition.result) : null,
+    defaults: definition.defaults ?? {},
+    expiryMinutes: definition.expiryMinutes,
+    leaseMinutes: definition.leaseMinutes,
+    priority: definition.priority,
+    retry: definition.retry,
+    cache: definition.cache,
+    storage: definition.storage,
+    dailyLimit: definition.dailyLimit ?? null,
+  };
+}
+
+/**
+ * Checks the registry is complete and each definition is coherent
+ * @returns A description of each problem found - empty if there are none
+ */
+export function findJobTypeRegistryProblems(): string[] {
+  const problems: string[] = [];
+  const registered = Object.keys(jobTypeRegistry);
+  const types: string[] = Object.values(JobType);
+
+  for (const type of types) {
+    if (!registered.includes(type)) {
+      problems.push(`${type} has no job type definition`);
+    }
+  }
+  for (const type of registered) {
+    if (!types.includes(type)) {
+      problems.push(`${type} is registered but is not a JobType`);
+    }
+  }
+
+  for (const [type, definition] of Object.entries(jobTypeRegistry)) {
+    const { retry, cache, storage } = definition;
+    if (definition.expiryMinutes <= 0 || definition.leaseMinutes <= 0) {
+      problems.push(`${type} must have positive expiry and lease durations`);
+    }
+    if (!Number.isInteger(definition.priority)) {
+      problems.push(`${type} priority must be an integer`);
+    }
+    if (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1) {
+      problems.push(`${type} retry.maxAttempts must be a positive integer`);
+    }
+    if (retry.backoffSeconds < 0 || retry.backoffMultiplier < 1) {
+      problems.push(
+        `${type} retry backoff must be non-negative and must not shrink`,
+      );
+    }
+    const notRetryable = retry.retryOn.filter(
+      status => status !== JobStatus.FAILED && status !== JobStatus.TIMED_OUT,
+    );
+    if (notRetryable.length > 0) {
+      problems.push(
+        `${type} retry.retryOn may only contain FAILED and TIMED_OUT`,
+      );
+    }
+    if (cache.ttlMinutes !== undefined && cache.ttlMinutes <= 0) {
+      problems.push(`${type} cache.ttlMinutes must be positive`);
+    }
+    if (
+      definition.dailyLimit !== undefined &&
+      (!Number.isInteger(definition.dailyLimit) || definition.dailyLimit < 0)
+    ) {
+      problems.push(`${type} dailyLimit must be a non-negative integer`);
+    }
+    if (!/^[a-z0-9_-]+(\/[a-z0-9_-]+)*$/.test(storage.prefix)) {
+      problems.push(
+        `${type} storage.prefix must be a relative path of lowercase segments`,
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * Startup consistency check - verifies the registry (see
+ * findJobTypeRegistryProblems) and that the database's JobType enum has the
+ * same values, i.e. migrations are up to date.
+ * @throws Error describing every problem found
+ */
+export async function assertJobTypesConsistent() {
+  const problems = findJobTypeRegistryProblems();
+
+  const rows = await prisma.$queryRaw<{ type: string }[]>`
+    SELECT unnest(enum_range(NULL::"JobType"))::text AS type`;
+  const databaseTypes = rows.map(row => row.type);
+  for (const type of Object.keys(jobTypeRegistry)) {
+    if (!databaseTypes.includes(type)) {
+      problems.push(`${type} is missing from the database JobType enum`);
+    }
+  }
+  for (const type of databaseTypes) {
+    if (!(type in jobTypeRegistry)) {
+      problems.push(
+        `${type} is in the database but has no job type definition`,
+      );
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Job type registry is inconsistent:\n- ${problems.join('\n- ')}`,
+    );
+  }
+}
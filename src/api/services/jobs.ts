@@ -4,6 +4,7 @@ import {
   JobRequest,
   JobStatus,
   JobType,
+  Prisma,
   StorageScheme,
 } from '@prisma/client';
 import crypto from 'crypto';
@@ -15,129 +16,355 @@ import {
   NotFoundException,
   UnauthorizedException,
 } from '../exceptions';
+import { recordJobRequest, recordJobResult } from '../metrics';
 import { hashObject } from '../util';
+import { JobEvent, publishJobEvent } from './jobEvents';
+import {
+  afterCursorWhere,
+  cursorOrderBy,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  SortOrder,
+  toPage,
+} from './pagination';
+import {
+  getJobTypeDefinition,
+  JobFailure,
+  jobFailureSchema,
+  jobTypeRegistry,
+} from './jobTypes';
+import { assertWithinJobQuota, NewJobCounts } from './quotas';
+import { WebhookService } from './webhooks';
+
+/** Statuses from which a job may be cancelled */
+const CANCELLABLE_STATUSES: JobStatus[] = [
+  JobStatus.PENDING,
+  JobStatus.BLOCKED,
+  JobStatus.IN_PROGRESS,
+];
+
+/**
+ * Statuses in which a cached job may be reused for a new request - it has
+ * succeeded or may yet. Failed, timed out, cancelled and dead lettered jobs
+ * are re-run, as are blocked ones, which may yet fail with their dependency.
+ */
+const CACHE_REUSABLE_STATUSES: JobStatus[] = [
+  JobStatus.SUCCEEDED,
+  JobStatus.PENDING,
+  JobStatus.IN_PROGRESS,
+];
 
 /**
- * Type definition mapping job types to their input/output schemas
+ * Final statuses which fail the job's BLOCKED dependents. DEAD_LETTER isn't
+ * one - dependents stay blocked until an admin requeues or fails the job.
  */
-type JobSchemaMap = {
-  [K in JobType]?: {
-    input: z.ZodType<any>;
-    result?: z.ZodType<any>;
-  };
+const DEPENDENCY_FAILURE_STATUSES: JobStatus[] = [
+  JobStatus.FAILED,
+  JobStatus.TIMED_OUT,
+  JobStatus.CANCELLED,
+];
+
+/** Fields job lists may be sorted by */
+export const JOB_SORT_FIELDS = [
+  'created_at',
+  'updated_at',
+  'priority',
+  'id',
+] as const;
+export type JobSortField = (typeof JOB_SORT_FIELDS)[number];
+
+/** Fields job request lists may be sorted by */
+export const JOB_REQUEST_SORT_FIELDS = ['created_at', 'id'] as const;
+export type JobRequestSortField = (typeof JOB_REQUEST_SORT_FIELDS)[number];
+
+/** Filters and paging shared by job and job request lists */
+export type ListParams<TSort extends string> = {
+  userId?: number;
+  type?: JobType;
+  // Created at or after
+  createdAfter?: Date;
+  // Created strictly before
+  createdBefore?: Date;
+  cacheHit?: boolean;
+  sort?: TSort;
+  order?: SortOrder;
+  limit?: number;
+  // From the previous page - omit for the first page
+  cursor?: string;
+  // Summaries omit the nested assignments/results
+  view?: 'full' | 'summary';
 };
 
-/** Expiry time map */
-type JobExpiryMap = {
-  [K in JobType]?: {
-    expiryMinutes: number;
-  };
+/** Maximum number of steps in a workflow */
+export const MAX_WORKFLOW_STEPS = 50;
+
+/** A job to create as part of a workflow */
+export type WorkflowStepInput = {
+  // Name of the step, unique within the workflow
+  key: string;
+  type: JobType;
+  inputPayload: any;
+  // Keys of the steps whose jobs must succeed before this one can run
+  dependsOn: string[];
 };
 
-const sharedCriteriaSchema = z.object({
-  // High level config - common to all current scenarios
-  region: z.string().describe('Region for assessment'),
-  reef_type: z.string().describe('The type of reef, slopes or flats'),
-
-  // Criteria - all optional to match the Union{Float64,Nothing} in worker
-  depth_min: z
-    .number()
-    .optional()
-    .describe('The depth minimum (the deeper more negative value)'),
-  depth_max: z
-    .number()
-    .optional()
-    .describe('The depth maximum (the shallower less negative value)'),
-  slope_min: z.number().optional().describe('The slope range (min)'),
-  slope_max: z.number().optional().describe('The slope range (max)'),
-  rugosity_min: z.number().optional().describe('The rugosity range (min)'),
-  rugosity_max: z.number().optional().describe('The rugosity range (max)'),
-  waves_period_min: z
-    .number()
-    .optional()
-    .describe('The wave period range (min)'),
-  waves_period_max: z
-    .number()
-    .optional()
-    .describe('The wave period range (max)'),
-  waves_height_min: z
-    .number()
-    .optional()
-    .describe('The wave height range (min)'),
-  waves_height_max: z
-    .number()
-    .optional()
-    .describe('The wave height range (max)'),
-});
+/** Maximum number of variants a parameter sweep may expand to */
+export const MAX_BATCH_VARIANTS = 100;
 
 /**
- * Schema definitions for each job type's input and output payloads.
- * Each job type must define an input schema and may optionally define a result schema.
+ * Values to sweep a payload field over - either an explicit list, or an
+ * inclusive numeric range
  */
-export const jobTypeSchemas: JobSchemaMap = {
-  TEST: {
-    input: z
-      .object({
-        // This is just to break up the hash
-        id: z.number(),
-      })
-      .strict(),
-    result: z.object({}).strict().optional(),
-  },
-  // The suitability assessment job takes in regional parameters and returns the location of the file relative to the job storage location.
-  SUITABILITY_ASSESSMENT: {
-    // base criteria + x/y size
-    input: sharedCriteriaSchema
-      .extend({
-        x_dist: z.number().describe('Length (m) of the target polygon'),
-        y_dist: z.number().describe('Width (m) of the target polygon'),
-        threshold: z
-          .number()
-          .optional()
-          .describe('Suitability threshold integer (min)'),
-      })
-      .strict(),
-    result: z
-      .object({
-        geojson_path: z
-          .string()
-          .describe(
-            'Relative path in job storage location to the GeoJSON file containing assessment results',
-          ),
-      })
-      .strict(),
-  },
-  REGIONAL_ASSESSMENT: {
-    // Just base criteria
-    input: sharedCriteriaSchema.strict(),
-    result: z
-      .object({
-        cog_path: z
-          .string()
-          .describe(
-            'Relative location of the COG file in the output directory',
-          ),
-      })
-      .strict(),
-  },
-};
+export type SweepAxis =
+  | (number | string | boolean)[]
+  | { start: number; stop: number; step: number };
 
-export const jobExpiryMap: JobExpiryMap = {
-  TEST: {
-    // expires in one hour
-    expiryMinutes: 60,
-  },
-  SUITABILITY_ASSESSMENT: {
-    // expires in one hour
-    expiryMinutes: 60,
-  },
-};
+/** Field name -> value for one variant of a sweep */
+type SweepValues = Record<string, number | string | boolean>;
+
+/**
+ * Overall state of a parameter sweep batch - SUCCEEDED once every variant's
+ * job has succeeded, FAILED once all have finished but not all succeeded
+ */
+export type BatchStatus = 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+/**
+ * Expands a range axis into its values
+ * @throws BadRequestException if the range is empty or too large
+ */
+function expandRange(
+  name: string,
+  { start, stop, step }: { start: number; stop: number; step: number },
+): number[] {
+  if (step <= 0 || stop < start) {
+    throw new BadRequestException(
+      `Sweep axis ${name} must have step > 0 and stop >= start`,
+    );
+  }
+  // Tolerate floating point error so e.g. 0 to 1 by 0.1 includes 1
+  const count = Math.floor((stop - start) / step + 1e-9) + 1;
+  if (count > MAX_BATCH_VARIANTS) {
+    throw new BadRequestException(
+      `Sweep axis ${name} has more than ${MAX_BATCH_VARIANTS} values`,
+    );
+  }
+  return Array.from({ length: count }, (_, i) =>
+    Number((start + i * step).toFixed(10)),
+  );
+}
+
+/**
+ * Expands sweep axes into every combination of their values (the cartesian
+ * product), varying the last axis fastest
+ * @param axes - Field name -> values to sweep over
+ * @returns One set of field values per variant
+ * @throws BadRequestException if the sweep expands to too many variants
+ */
+export function expandSweepAxes(
+  axes: Record<string, SweepAxis>,
+): SweepValues[] {
+  const expanded = Object.entries(axes).map(
+    ([name, axis]) =>
+      [name, Array.isArray(axis) ? axis : expandRange(name, axis)] as const,
+  );
+  const total = expanded.reduce(
+    (count, [, values]) => count * values.length,
+    1,
+  );
+  if (total > MAX_BATCH_VARIANTS) {
+    throw new BadRequestException(
+      `Sweep expands to ${total} variants - the maximum is ${MAX_BATCH_VARIANTS}`,
+    );
+  }
+
+  let variants: SweepValues[] = [{}];
+  for (const [name, values] of expanded) {
+    variants = variants.flatMap(variant =>
+      values.map(value => ({ ...variant, [name]: value })),
+    );
+  }
+  return variants;
+}
+
+/**
+ * Describes why a payload failed validation, listing the schema issues if
+ * available
+ */
+function describeError(e: unknown): string {
+  if (e instanceof BadRequestException && e.cause instanceof z.ZodError) {
+    return e.cause.issues
+      .map(issue => `${issue.path.join('.') || 'payload'}: ${issue.message}`)
+      .join('; ');
+  }
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Overall state of a workflow - FAILED as soon as any step's job has failed
+ * (or been dead lettered), SUCCEEDED once all have succeeded
+ */
+export type WorkflowStatus = 'RUNNING' | 'SUCCEEDED' | 'FAILED';
 
 /**
  * Service class handling job-related operations including creation, assignment,
  * result submission, and job management.
  */
 export class JobService {
+  private webhookService = new WebhookService();
+
+  /**
+   * Publishes a job event to live event streams, queues webhook deliveries
+   * for the job's owner if the job has reached a final state, and unblocks or
+   * fails the jobs which depend on it
+   * @param client - Prisma client or transaction client
+   * @param event - The event to publish
+   */
+  private async emitJobEvent(
+    client: Prisma.TransactionClient,
+    event: JobEvent,
+  ) {
+    await publishJobEvent(client, event);
+    await this.webhookService.enqueueJobEvent(client, event);
+    if (event.type !== 'progress') {
+      await this.settleDependents(client, event.jobId, event.status);
+    }
+  }
+
+  /**
+   * Locks job rows FOR UPDATE until the end of the transaction. Used to order
+   * dependency checks against concurrent status changes, so that e.g. two
+   * parents succeeding at once can't each miss the other's success.
+   * @param tx - The transaction client
+   * @param jobIds - Jobs to lock
+   */
+  private async lockJobs(tx: Prisma.TransactionClient, jobIds: number[]) {
+    if (jobIds.length === 0) return;
+    await tx.$queryRaw`
+      SELECT id FROM "Job" WHERE id IN (${Prisma.join(jobIds)})
+      ORDER BY id
+      FOR UPDATE`;
+  }
+
+  /**
+   * Updates the BLOCKED dependents of a job whose status has changed. When
+   * the job succeeds, dependents whose dependencies have now all succeeded
+   * become PENDING. When it fails, times out or is cancelled, dependents fail
+   * - which in turn fails their own dependents.
+   * @param client - Prisma client or transaction client
+   * @param jobId - The job whose status changed
+   * @param status - Its new status
+   */
+  private async settleDependents(
+    client: Prisma.TransactionClient,
+    jobId: number,
+    status: JobStatus,
+  ) {
+    const cascade = DEPENDENCY_FAILURE_STATUSES.includes(status);
+    if (status !== JobStatus.SUCCEEDED && !cascade) return;
+
+    const dependents = await client.job.findMany({
+      where: {
+        status: JobStatus.BLOCKED,
+        dependencies: { some: { depends_on_id: jobId } },
+      },
+      select: { id: true, user_id: true },
+      orderBy: { id: 'asc' },
+    });
+    for (const dependent of dependents) {
+      if (cascade) {
+        const failed = await client.job.updateMany({
+          where: { id: dependent.id, status: JobStatus.BLOCKED },
+          data: {
+            status: JobStatus.FAILED,
+            failure_reason: `Dependency job ${jobId} ended ${status}`,
+          },
+        });
+        if (failed.count > 0) {
+          await this.emitJobEvent(client, {
+            type: 'status',
+            jobId: dependent.id,
+            userId: dependent.user_id,
+            status: JobStatus.FAILED,
+          });
+        }
+        continue;
+      }
+
+      await this.lockJobs(client, [dependent.id]);
+      if (!(await this.dependenciesSucceeded(client, dependent.id))) continue;
+      const released = await client.job.updateMany({
+        where: { id: dependent.id, status: JobStatus.BLOCKED },
+        data: {
+          status: JobStatus.PENDING,
+          dependency_results: await this.collectDependencyResults(
+            client,
+            dependent.id,
+          ),
+        },
+      });
+      if (released.count > 0) {
+        await this.emitJobEvent(client, {
+          type: 'status',
+          jobId: dependent.id,
+          userId: dependent.user_id,
+          status: JobStatus.PENDING,
+        });
+      }
+    }
+  }
+
+  /**
+   * Whether all of a job's dependencies (if any) have succeeded
+   * @param client - Prisma client or transaction client
+   * @param jobId - The dependent job
+   */
+  private async dependenciesSucceeded(
+    client: Prisma.TransactionClient,
+    jobId: number,
+  ): Promise<boolean> {
+    const waiting = await client.jobDependency.count({
+      where: {
+        job_id: jobId,
+        depends_on: { status: { not: JobStatus.SUCCEEDED } },
+      },
+    });
+    return waiting === 0;
+  }
+
+  /**
+   * Gathers the latest result of each of a job's dependencies, for the
+   * worker running the job - e.g. a suitability assessment can read the COG
+   * produced by the regional assessment it depends on. Result paths are
+   * relative to the dependency's storage_uri.
+   * @param client - Prisma client or transaction client
+   * @param jobId - The dependent job
+   * @returns One entry per dependency, ordered by job ID
+   */
+  private async collectDependencyResults(
+    client: Prisma.TransactionClient,
+    jobId: number,
+  ): Promise<Prisma.InputJsonArray> {
+    const dependencies = await client.jobDependency.findMany({
+      where: { job_id: jobId },
+      include: {
+        depends_on: {
+          include: { results: { orderBy: { created_at: 'desc' }, take: 1 } },
+        },
+      },
+      orderBy: { depends_on_id: 'asc' },
+    });
+    return dependencies.map(({ depends_on: dependency }) => {
+      const result = dependency.results[0];
+      return {
+        job_id: dependency.id,
+        type: dependency.type,
+        result_payload: result?.result_payload ?? null,
+        storage_scheme: result?.storage_scheme ?? null,
+        storage_uri: result?.storage_uri ?? null,
+      };
+    });
+  }
+
   /**
    * Generates a storage location for job results
    * @param jobType - Type of job being processed
@@ -151,11 +378,11 @@ export class JobService {
     scheme: StorageScheme;
     uri: string;
   } {
+    const { scheme, prefix } = jobTypeRegistry[jobType].storage;
     const bucketName = config.s3.bucketName;
-    const bucketPrefix = 'results';
     return {
-      scheme: StorageScheme.S3,
-      uri: `s3://${bucketName}/${bucketPrefix}/${jobType.toLowerCase()}/${jobId}/${Date.now()}`,
+      scheme,
+      uri: `${scheme.toLowerCase()}://${bucketName}/${prefix}/${jobId}/${Date.now()}`,
     };
   }
 
@@ -166,7 +393,7 @@ export class JobService {
    * @throws BadRequestException if validation fails
    */
   async validateJobPayload(jobType: JobType, payload: any) {
-    const schema = jobTypeSchemas[jobType]?.input;
+    const schema = getJobTypeDefinition(jobType)?.input;
     if (!schema) {
       throw new BadRequestException(`Invalid job type: ${jobType}`);
     }
@@ -188,7 +415,7 @@ export class JobService {
    * @throws BadRequestException if validation fails
    */
   async validateResultPayload(jobType: JobType, payload: any) {
-    const schema = jobTypeSchemas[jobType]?.result;
+    const schema = getJobTypeDefinition(jobType)?.result;
     if (!schema) return true; // No validation if no schema
     try {
       return schema.parse(payload);
@@ -199,14 +426,55 @@ export class JobService {
     }
   }
 
+  /**
+   * Validates the failure details submitted with a result
+   * @param status - The status the worker reported
+   * @param failure - The failure details
+   * @returns The validated details, with any long stack/log excerpt trimmed
+   * @throws BadRequestException if the result isn't FAILED or the details
+   * don't match jobFailureSchema
+   */
+  validateFailure(status: JobStatus, failure: unknown): JobFailure {
+    if (status !== JobStatus.FAILED) {
+      throw new BadRequestException(
+        `Failure details can only be submitted with a FAILED result, not ${status}`,
+      );
+    }
+    const parsed = jobFailureSchema.safeParse(failure);
+    if (!parsed.success) {
+      throw new BadRequestException('Invalid failure details', parsed.error);
+    }
+    return parsed.data;
+  }
+
   public async checkJobCache(
     jobPaylod: any,
     jobType: JobType,
   ): Promise<Job | undefined> {
     // Calculate job hash
     const hash = await this.generateJobHash({ jobType, payload: jobPaylod });
-    // Find jobs with a matching hash
-    const existingJobs = await prisma.job.findMany({ where: { hash } });
+    // Find reusable jobs with a matching hash which haven't been invalidated -
+    // filtered here, so a newer blocked job can't hide an older reusable one
+    const matchingJobs = await prisma.job.findMany({
+      where: {
+        hash,
+        cache_invalidated_at: null,
+        status: { in: CACHE_REUSABLE_STATUSES },
+      },
+    });
+
+    // Successful jobs which finished before the type's TTL are stale
+    const ttlMinutes = jobTypeRegistry[jobType].cache.ttlMinutes;
+    const staleBefore =
+      ttlMinutes !== undefined
+        ? new Date(Date.now() - ttlMinutes * 60 * 1000)
+        : undefined;
+    const existingJobs = matchingJobs.filter(
+      job =>
+        !staleBefore ||
+        job.status !== JobStatus.SUCCEEDED ||
+        job.updated_at >= staleBefore,
+    );
 
     // What jobs are we interested in - those that are incomplete, or
     // successful. Choose the latest edition.
@@ -230,8 +498,13 @@ export class JobService {
         continue;
       }
 
-      // The job is not successful, is it in progress at least?
-      if (job.status === 'PENDING' || job.status === 'IN_PROGRESS') {
+      // The job is not successful, is it in progress (or waiting to be) at
+      // least?
+      if (
+        job.status === 'PENDING' ||
+        job.status === 'IN_PROGRESS' ||
+        job.status === 'BLOCKED'
+      ) {
         // If current job is succesful, keep it
         if (bestCandidate.status === 'SUCCEEDED') {
           // keep the successful
@@ -241,7 +514,8 @@ export class JobService {
         // Is it also a pending/in progress?
         if (
           bestCandidate.status === 'PENDING' ||
-          bestCandidate.status === 'IN_PROGRESS'
+          bestCandidate.status === 'IN_PROGRESS' ||
+          bestCandidate.status === 'BLOCKED'
         ) {
           // This is a 'tie' - choose newer
           if (job.created_at > bestCandidate.created_at) {
@@ -260,7 +534,8 @@ export class JobService {
       if (
         bestCandidate.status === 'SUCCEEDED' ||
         bestCandidate.status === 'IN_PROGRESS' ||
-        bestCandidate.status === 'PENDING'
+        bestCandidate.status === 'PENDING' ||
+        bestCandidate.status === 'BLOCKED'
       ) {
         // keep the successful
         continue;
@@ -284,83 +559,593 @@ export class JobService {
    * @param userId - ID of user creating the job
    * @param jobType - Type of job to create
    * @param inputPayload - Input parameters for the job
+   * @param forceRefresh - Skip the cache and always create a new job
    * @returns Object containing the job and whether it was cached
+   * @throws TooManyRequestsException if a new job would exceed the user's job
+   * quotas - cache hits are always allowed
    */
-  async createJobRequest(userId: number, jobType: JobType, inputPayload: any) {
+  async createJobRequest(
+    userId: number,
+    jobType: JobType,
+    inputPayload: any,
+    { forceRefresh = false }: { forceRefresh?: boolean } = {},
+  ) {
     await this.validateJobPayload(jobType, inputPayload);
 
     // Check cache first
-    const cachedJob = await this.checkJobCache(inputPayload, jobType);
-    const cacheHit = cachedJob !== undefined;
+    const cachedJob = forceRefresh
+      ? undefined
+      : await this.checkJobCache(inputPayload, jobType);
 
     // Start a transaction to create both the job request and job if needed
-    const result = await prisma.$transaction(async prisma => {
-      let job: Job;
-
-      if (cacheHit && cachedJob) {
-        job = cachedJob;
-      } else {
-        // Create new job
-        job = await prisma.job.create({
-          data: {
-            type: jobType,
-            user_id: userId,
-            input_payload: inputPayload,
-            status: JobStatus.PENDING,
-            hash: await this.generateJobHash({
-              payload: inputPayload,
-              jobType: jobType,
-            }),
-          },
-        });
+    const result = await prisma.$transaction(async tx => {
+      if (!cachedJob) {
+        await assertWithinJobQuota(tx, userId, { [jobType]: 1 });
       }
+      return this.createJobAndRequest(tx, {
+        userId,
+        jobType,
+        inputPayload,
+        cachedJob,
+      });
+    });
+    recordJobRequest(jobType, result.cached);
 
-      // Create job request record
-      const jobRequest = await prisma.jobRequest.create({
+    return result;
+  }
+
+  /**
+   * Records a job request, creating a new PENDING job for it unless a cached
+   * job was found
+   * @param tx - The transaction client
+   * @param userId - ID of user making the request
+   * @param jobType - Type of job requested
+   * @param inputPayload - Validated input parameters for the job
+   * @param cachedJob - Existing job to reuse, if the cache was hit
+   * @param batchId - The parameter sweep batch the request belongs to, if any
+   * @returns Object containing the job, the request and whether it was cached
+   */
+  private async createJobAndRequest(
+    tx: Prisma.TransactionClient,
+    {
+      userId,
+      jobType,
+      inputPayload,
+      cachedJob,
+      batchId,
+    }: {
+      userId: number;
+      jobType: JobType;
+      inputPayload: any;
+      cachedJob?: Job;
+      batchId?: number;
+    },
+  ) {
+    const cacheHit = cachedJob !== undefined;
+    let job: Job;
+
+    if (cacheHit && cachedJob) {
+      job = cachedJob;
+    } else {
+      // Create new job
+      job = await tx.job.create({
         data: {
-          user_id: userId,
           type: jobType,
+          user_id: userId,
           input_payload: inputPayload,
-          cache_hit: cacheHit,
-          job_id: job.id,
+          status: JobStatus.PENDING,
+          priority: jobTypeRegistry[jobType].priority,
+          hash: await this.generateJobHash({
+            payload: inputPayload,
+            jobType: jobType,
+          }),
+          dataset_version: config.jobs.datasetVersion,
         },
       });
+    }
 
-      return { job, jobRequest, cached: cacheHit };
+    // Create job request record
+    const jobRequest = await tx.jobRequest.create({
+      data: {
+        user_id: userId,
+        type: jobType,
+        input_payload: inputPayload,
+        cache_hit: cacheHit,
+        job_id: job.id,
+        batch_id: batchId,
+      },
     });
 
-    return result;
+    return { job, jobRequest, cached: cacheHit };
   }
 
   /**
-   * Polls for available jobs that haven't been assigned or have expired assignments
-   * @param jobType - Optional job type to filter by
-   * @returns Array of available jobs, limited to 10 at a time
+   * Submits a parameter sweep - one job request per combination of the sweep
+   * axes' values, each applied over the base payload. Each variant is
+   * validated and cached like a single job request. Invalid variants are
+   * reported rather than failing the whole batch.
+   * @param userId - ID of user submitting the batch
+   * @param type - Type of job to create for every variant
+   * @param basePayload - Input payload fields shared by every variant
+   * @param axes - Field name -> values to sweep over
+   * @returns The batch (see getJobBatch) and the variants which were invalid
+   * @throws BadRequestException if the sweep is too large or no variant is
+   * valid
+   * @throws TooManyRequestsException if the batch's new jobs would exceed the
+   * user's job quotas
    */
-  async pollJobs(jobType?: JobType) {
-    const now = new Date();
-    return prisma.job.findMany({
-      where: {
-        status: JobStatus.PENDING,
-        ...(jobType && { type: jobType }),
-        assignments: {
-          // Only jobs with NO assignment which is incomplete and valid should
-          // be considered
-          none: {
-            // If either not complete, or not expired, we can't reassign this
-            OR: [{ completed_at: null }, { expires_at: { gt: now } }],
+  async createJobBatch(
+    userId: number,
+    {
+      type,
+      basePayload,
+      axes,
+    }: {
+      type: JobType;
+      basePayload: Record<string, any>;
+      axes: Record<string, SweepAxis>;
+    },
+  ) {
+    const variants = expandSweepAxes(axes).map(values => ({
+      values,
+      payload: { ...basePayload, ...values },
+    }));
+
+    const errors: { index: number; values: SweepValues; message: string }[] =
+      [];
+    const valid: {
+      payload: Record<string, any>;
+      hash: string;
+      cachedJob?: Job;
+    }[] = [];
+    for (const [index, variant] of variants.entries()) {
+      try {
+        await this.validateJobPayload(type, variant.payload);
+      } catch (e) {
+        errors.push({
+          index,
+          values: variant.values,
+          message: describeError(e),
+        });
+        continue;
+      }
+      valid.push({
+        payload: variant.payload,
+        hash: await this.generateJobHash({
+          payload: variant.payload,
+          jobType: type,
+        }),
+        cachedJob: await this.checkJobCache(variant.payload, type),
+      });
+    }
+    if (valid.length === 0) {
+      throw new BadRequestException(
+        `None of the ${variants.length} variant(s) are valid - first error: ${errors[0].message}`,
+      );
+    }
+
+    // Variants which miss the cache and don't repeat another's payload
+    const newJobs = new Set(
+      valid.filter(variant => !variant.cachedJob).map(variant => variant.hash),
+    ).size;
+
+    const batch = await prisma.$transaction(async tx => {
+      await assertWithinJobQuota(tx, userId, { [type]: newJobs });
+      const batch = await tx.jobBatch.create({
+        data: {
+          user_id: userId,
+          type,
+          base_payload: basePayload,
+          axes,
+        },
+      });
+      // Variants with identical payloads (e.g. repeated axis values) share a
+      // job, as the cache can't see jobs created within this transaction
+      const batchJobs = new Map<string, Job>();
+      for (const variant of valid) {
+        const { job } = await this.createJobAndRequest(tx, {
+          userId,
+          jobType: type,
+          inputPayload: variant.payload,
+          cachedJob: variant.cachedJob ?? batchJobs.get(variant.hash),
+          batchId: batch.id,
+        });
+        batchJobs.set(variant.hash, job);
+      }
+      return batch;
+    });
+
+    const created = await this.getJobBatch(batch.id);
+    for (const variant of created.variants) {
+      recordJobRequest(type, variant.cache_hit);
+    }
+    return { batch: created, errors };
+  }
+
+  /**
+   * Retrieves a parameter sweep batch with the state of each variant's job
+   * @param batchId - ID of the batch
+   * @returns The batch, its overall status, job counts by status and its
+   * variants in submission order
+   * @throws NotFoundException if batch doesn't exist
+   */
+  async getJobBatch(batchId: number) {
+    const batch = await prisma.jobBatch.findUnique({
+      where: { id: batchId },
+      include: {
+        requests: {
+          include: { job: true },
+          orderBy: { id: 'asc' },
+        },
+      },
+    });
+    if (!batch) throw new NotFoundException('Batch not found');
+
+    const axisNames = Object.keys(batch.axes as Record<string, SweepAxis>);
+    const variants = batch.requests.map(request => {
+      const payload = request.input_payload as Record<string, any>;
+      return {
+        request_id: request.id,
+        values: Object.fromEntries(
+          axisNames.map(name => [name, payload[name]]),
+        ),
+        cache_hit: request.cache_hit,
+        job_id: request.job_id,
+        status: request.job.status,
+      };
+    });
+
+    const counts: Partial<Record<JobStatus, number>> = {};
+    for (const variant of variants) {
+      counts[variant.status] = (counts[variant.status] ?? 0) + 1;
+    }
+    const unfinished: JobStatus[] = [
+      JobStatus.PENDING,
+      JobStatus.IN_PROGRESS,
+      JobStatus.BLOCKED,
+    ];
+    let status: BatchStatus = 'RUNNING';
+    if (variants.every(variant => variant.status === JobStatus.SUCCEEDED)) {
+      status = 'SUCCEEDED';
+    } else if (!variants.some(variant => unfinished.includes(variant.status))) {
+      status = 'FAILED';
+    }
+
+    return {
+      id: batch.id,
+      created_at: batch.created_at,
+      updated_at: batch.updated_at,
+      user_id: batch.user_id,
+      type: batch.type,
+      base_payload: batch.base_payload,
+      axes: batch.axes,
+      status,
+      total: variants.length,
+      counts,
+      variants,
+    };
+  }
+
+  /**
+   * Orders workflow steps so that each step comes after the steps it depends
+   * on
+   * @param steps - The workflow's steps
+   * @returns The steps in dependency order
+   * @throws BadRequestException if keys are duplicated, a dependency doesn't
+   * exist or the dependencies contain a cycle
+   */
+  private orderWorkflowSteps(steps: WorkflowStepInput[]): WorkflowStepInput[] {
+    const byKey = new Map<string, WorkflowStepInput>();
+    for (const step of steps) {
+      if (byKey.has(step.key)) {
+        throw new BadRequestException(
+          `Duplicate workflow step key: ${step.key}`,
+        );
+      }
+      byKey.set(step.key, step);
+    }
+    for (const step of steps) {
+      const missing = step.dependsOn.find(key => !byKey.has(key));
+      if (missing !== undefined) {
+        throw new BadRequestException(
+          `Step ${step.key} depends on unknown step ${missing}`,
+        );
+      }
+    }
+
+    // Repeatedly take the steps whose dependencies have all been taken
+    const ordered: WorkflowStepInput[] = [];
+    const placed = new Set<string>();
+    let remaining = steps;
+    while (remaining.length > 0) {
+      const ready = remaining.filter(step =>
+        step.dependsOn.every(key => placed.has(key)),
+      );
+      if (ready.length === 0) {
+        throw new BadRequestException(
+          `Workflow steps have a dependency cycle: ${remaining.map(step => step.key).join(', ')}`,
+        );
+      }
+      ready.forEach(step => placed.add(step.key));
+      ordered.push(...ready);
+      remaining = remaining.filter(step => !placed.has(step.key));
+    }
+    return ordered;
+  }
+
+  /**
+   * Creates a workflow - a set of job requests with dependencies between them
+   * - in a single transaction.
+   *
+   * Each step is cached like a regular job request, except that a step with
+   * dependencies only reuses a job which has already succeeded (an unfinished
+   * job wouldn't be waiting on this workflow's dependencies). Jobs whose
+   * dependencies haven't all succeeded are created BLOCKED, and become
+   * PENDING once they have.
+   *
+   * @param userId - ID of user creating the workflow
+   * @param name - Optional name for the workflow
+   * @param steps - The jobs to create
+   * @returns The workflow (see getWorkflow)
+   * @throws BadRequestException if the steps or their payloads are invalid
+   * @throws TooManyRequestsException if the workflow's new jobs would exceed
+   * the user's job quotas
+   */
+  async createWorkflow(
+    userId: number,
+    { name, steps }: { name?: string; steps: WorkflowStepInput[] },
+  ) {
+    const ordered = this.orderWorkflowSteps(steps);
+    for (const step of ordered) {
+      await this.validateJobPayload(step.type, step.inputPayload);
+    }
+
+    // Check the cache first, as for single job requests
+    const cachedJobs = new Map<string, Job>();
+    for (const step of ordered) {
+      const cachedJob = await this.checkJobCache(step.inputPayload, step.type);
+      const reusable: JobStatus[] =
+        step.dependsOn.length === 0
+          ? CACHE_REUSABLE_STATUSES
+          : [JobStatus.SUCCEEDED];
+      if (cachedJob && reusable.includes(cachedJob.status)) {
+        cachedJobs.set(step.key, cachedJob);
+      }
+    }
+
+    const newJobs: NewJobCounts = {};
+    for (const step of ordered) {
+      if (!cachedJobs.has(step.key)) {
+        newJobs[step.type] = (newJobs[step.type] ?? 0) + 1;
+      }
+    }
+
+    const workflow = await prisma.$transaction(async tx => {
+      await assertWithinJobQuota(tx, userId, newJobs);
+      const workflow = await tx.workflow.create({
+        data: { user_id: userId, name },
+      });
+
+      const stepJobs = new Map<string, Job>();
+      for (const step of ordered) {
+        let job = cachedJobs.get(step.key);
+        const cacheHit = job !== undefined;
+
+        if (!job) {
+          // Lock the dependencies so none can change state unseen between
+          // reading their status and this job being visible as a dependent
+          const dependencyIds = step.dependsOn.map(
+            key => stepJobs.get(key)!.id,
+          );
+          await this.lockJobs(tx, dependencyIds);
+          const dependencies = await tx.job.findMany({
+            where: { id: { in: dependencyIds } },
+          });
+          const failed = dependencies.find(dependency =>
+            DEPENDENCY_FAILURE_STATUSES.includes(dependency.status),
+          );
+          const ready = dependencies.every(
+            dependency => dependency.status === JobStatus.SUCCEEDED,
+          );
+
+          job = await tx.job.create({
+            data: {
+              type: step.type,
+              user_id: userId,
+              input_payload: step.inputPayload,
+              status: JobStatus.BLOCKED,
+              priority: jobTypeRegistry[step.type].priority,
+              hash: await this.generateJobHash({
+                payload: step.inputPayload,
+                jobType: step.type,
+              }),
+              dataset_version: config.jobs.datasetVersion,
+              dependencies: {
+                create: dependencyIds.map(id => ({ depends_on_id: id })),
+              },
+            },
+          });
+          if (failed) {
+            job = await tx.job.update({
+              where: { id: job.id },
+              data: {
+                status: JobStatus.FAILED,
+                failure_reason: `Dependency job ${failed.id} ended ${failed.status}`,
+              },
+            });
+          } else if (ready) {
+            job = await tx.job.update({
+              where: { id: job.id },
+              data: {
+                status: JobStatus.PENDING,
+                dependency_results:
+                  dependencyIds.length > 0
+                    ? await this.collectDependencyResults(tx, job.id)
+                    : undefined,
+              },
+            });
+          }
+        }
+        stepJobs.set(step.key, job);
+
+        const jobRequest = await tx.jobRequest.create({
+          data: {
+            user_id: userId,
+            type: step.type,
+            input_payload: step.inputPayload,
+            cache_hit: cacheHit,
+            job_id: job.id,
+          },
+        });
+        await tx.workflowStep.create({
+          data: {
+            workflow_id: workflow.id,
+            key: step.key,
+            depends_on: step.dependsOn,
+            job_request_id: jobRequest.id,
           },
+        });
+      }
+      return workflow;
+    });
+
+    const created = await this.getWorkflow(workflow.id);
+    for (const step of created.steps) {
+      recordJobRequest(step.job.type, step.cache_hit);
+    }
+    return created;
+  }
+
+  /**
+   * Retrieves a workflow with the current state of each step's job
+   * @param workflowId - ID of the workflow
+   * @returns The workflow, its overall status and its steps in creation order
+   * @throws NotFoundException if workflow doesn't exist
+   */
+  async getWorkflow(workflowId: number) {
+    const workflow = await prisma.workflow.findUnique({
+      where: { id: workflowId },
+      include: {
+        steps: {
+          include: { job_request: { include: { job: true } } },
+          orderBy: { id: 'asc' },
         },
       },
-      // Max of 10
-      take: 10,
-      // Oldest first
-      orderBy: { created_at: 'asc' },
     });
+    if (!workflow) throw new NotFoundException('Workflow not found');
+
+    const steps = workflow.steps.map(step => ({
+      key: step.key,
+      depends_on: step.depends_on,
+      cache_hit: step.job_request.cache_hit,
+      job: step.job_request.job,
+    }));
+    const failed = steps.some(
+      step =>
+        DEPENDENCY_FAILURE_STATUSES.includes(step.job.status) ||
+        step.job.status === JobStatus.DEAD_LETTER,
+    );
+    const succeeded = steps.every(
+      step => step.job.status === JobStatus.SUCCEEDED,
+    );
+    let status: WorkflowStatus = 'RUNNING';
+    if (failed) status = 'FAILED';
+    else if (succeeded) status = 'SUCCEEDED';
+
+    return {
+      id: workflow.id,
+      created_at: workflow.created_at,
+      updated_at: workflow.updated_at,
+      user_id: workflow.user_id,
+      name: workflow.name,
+      status,
+      steps,
+    };
   }
 
   /**
-   * Assigns a job to a worker node
+   * Finds the IDs of available jobs - those which are PENDING, have no open
+   * assignment and aren't waiting out a retry backoff - in the order they
+   * should be worked on.
+   *
+   * Jobs are ordered by priority (highest first), then round-robin across
+   * users within each priority band (every user's oldest job, then every
+   * user's second oldest, ...), so one user's large submission can't starve
+   * everyone else. Both polling and claiming use this ordering, so the job
+   * manager's demand signal reflects what workers will pick up next.
+   *
+   * @param client - Prisma client or transaction client to query with
+   * @param jobType - Optional job type to filter by
+   * @param limit - Maximum number of jobs to return
+   * @param lock - Lock the returned rows FOR UPDATE, skipping rows locked by
+   * other claimers
+   * @returns Ordered job IDs
+   */
+  private async findAvailableJobIds({
+    client,
+    jobType,
+    limit,
+    lock = false,
+  }: {
+    client: Prisma.TransactionClient;
+    jobType?: JobType;
+    limit: number;
+    lock?: boolean;
+  }): Promise<number[]> {
+    const now = new Date();
+    // Previous attempts are always closed (by a result or the sweeper) before
+    // a job is requeued, so any open assignment means it's taken. The outer
+    // status check is repeated so that a row locked after another claimer
+    // committed is re-checked rather than claimed twice.
+    const rows = await client.$queryRaw<{ id: number }[]>`
+      WITH available AS (
+        SELECT j.id, j.priority, j.created_at,
+          ROW_NUMBER() OVER (
+            PARTITION BY j.priority, j.user_id
+            ORDER BY j.created_at ASC, j.id ASC
+          ) AS user_rank
+        FROM "Job" j
+        WHERE j.status = 'PENDING'::"JobStatus"
+        ${jobType ? Prisma.sql`AND j.type = ${jobType}::"JobType"` : Prisma.empty}
+        AND (j.available_at IS NULL OR j.available_at <= ${now})
+        AND NOT EXISTS (
+          SELECT 1 FROM "JobAssignment" a
+          WHERE a.job_id = j.id AND a.completed_at IS NULL
+        )
+      )
+      SELECT j.id FROM "Job" j
+      JOIN available ON available.id = j.id
+      WHERE j.status = 'PENDING'::"JobStatus"
+      ORDER BY available.priority DESC, available.user_rank ASC,
+        available.created_at ASC, j.id ASC
+      LIMIT ${limit}
+      ${lock ? Prisma.sql`FOR UPDATE OF j SKIP LOCKED` : Prisma.empty}`;
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Polls for available jobs, in the order they will be claimed (see
+   * findAvailableJobIds)
+   * @param jobType - Optional job type to filter by
+   * @returns Array of available jobs, limited to 10 at a time
+   */
+  async pollJobs(jobType?: JobType) {
+    const ids = await this.findAvailableJobIds({
+      client: prisma,
+      jobType,
+      limit: 10,
+    });
+    const jobs = await prisma.job.findMany({ where: { id: { in: ids } } });
+    return jobs.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+  }
+
+  /**
+   * Assigns a job to a worker node.
+   *
+   * The PENDING -> IN_PROGRESS transition is a conditional update, so if two
+   * workers race to assign the same job only one update matches and the
+   * other receives a BadRequestException.
+   *
    * @param jobId - ID of job to assign
    * @param ecsTaskArn - ARN of ECS task
    * @param ecsClusterArn - ARN of ECS cluster
@@ -369,55 +1154,386 @@ export class JobService {
    * @throws BadRequestException if job isn't available
    */
   async assignJob(jobId: number, ecsTaskArn: string, ecsClusterArn: string) {
-    const job = await prisma.job.findUnique({
-      where: { id: jobId },
-      include: { assignments: true },
+    return prisma.$transaction(async tx => {
+      const claimed = await tx.job.updateMany({
+        where: { id: jobId, status: JobStatus.PENDING },
+        data: { status: JobStatus.IN_PROGRESS, attempts: { increment: 1 } },
+      });
+
+      if (claimed.count === 0) {
+        const exists = await tx.job.findUnique({ where: { id: jobId } });
+        if (!exists) throw new NotFoundException('Job not found');
+        throw new BadRequestException('Job is not available for assignment');
+      }
+
+      const job = await tx.job.findUniqueOrThrow({ where: { id: jobId } });
+      return this.createAssignment(tx, job, ecsTaskArn, ecsClusterArn);
     });
+  }
 
-    if (!job) throw new NotFoundException('Job not found');
-    if (job.status !== JobStatus.PENDING) {
-      throw new BadRequestException('Job is not available for assignment');
-    }
+  /**
+   * Atomically claims the next available job (optionally of a given type) and
+   * assigns it to a worker node.
+   *
+   * Jobs are claimed in priority and fair-share order (see
+   * findAvailableJobIds). Candidate rows are locked with FOR UPDATE SKIP
+   * LOCKED, so concurrent claimers never block on, or receive, the same job.
+   *
+   * @param jobType - Optional job type to filter by
+   * @param ecsTaskArn - ARN of ECS task
+   * @param ecsClusterArn - ARN of ECS cluster
+   * @returns The claimed job and its assignment, or undefined if no job is
+   * available
+   */
+  async claimNextJob(
+    jobType: JobType | undefined,
+    ecsTaskArn: string,
+    ecsClusterArn: string,
+  ) {
+    return prisma.$transaction(async tx => {
+      const candidates = await this.findAvailableJobIds({
+        client: tx,
+        jobType,
+        limit: 1,
+        lock: true,
+      });
+
+      if (candidates.length === 0) return undefined;
+
+      const job = await tx.job.update({
+        where: { id: candidates[0] },
+        data: { status: JobStatus.IN_PROGRESS, attempts: { increment: 1 } },
+      });
+      const assignment = await this.createAssignment(
+        tx,
+        job,
+        ecsTaskArn,
+        ecsClusterArn,
+      );
+      return { job, assignment };
+    });
+  }
 
+  /**
+   * Creates the assignment record for a job which has just been moved to
+   * IN_PROGRESS within the given transaction
+   * @param tx - The transaction client
+   * @param job - The claimed job
+   * @param ecsTaskArn - ARN of ECS task
+   * @param ecsClusterArn - ARN of ECS cluster
+   * @returns Created job assignment
+   */
+  private async createAssignment(
+    tx: Prisma.TransactionClient,
+    job: Job,
+    ecsTaskArn: string,
+    ecsClusterArn: string,
+  ) {
     const storage = this.generateStorageLocation(job.type, job.id);
 
     // One hour default - get job type expiry
-    const expiryMinutes = jobExpiryMap[job.type]?.expiryMinutes ?? 60;
+    const expiryMinutes = jobTypeRegistry[job.type].expiryMinutes;
     const expiryTime = new Date();
     expiryTime.setMinutes(expiryTime.getMinutes() + expiryMinutes);
 
-    const [assignment] = await prisma.$transaction([
-      prisma.jobAssignment.create({
+    const assignment = await tx.jobAssignment.create({
+      data: {
+        job_id: job.id,
+        ecs_task_arn: ecsTaskArn,
+        ecs_cluster_arn: ecsClusterArn,
+        expires_at: expiryTime,
+        storage_scheme: storage.scheme,
+        storage_uri: storage.uri,
+      },
+    });
+    await this.emitJobEvent(tx, {
+      type: 'status',
+      jobId: job.id,
+      userId: job.user_id,
+      status: JobStatus.IN_PROGRESS,
+    });
+    return assignment;
+  }
+
+  /**
+   * Requeues a job whose attempt has just ended, if the outcome is retryable
+   * under the job type's retry policy and attempts remain. The job goes back
+   * to PENDING, available once the backoff delay has elapsed.
+   *
+   * Only jobs still IN_PROGRESS are requeued, so e.g. a job cancelled
+   * mid-attempt stays cancelled.
+   *
+   * @param tx - The transaction client
+   * @param job - The job whose attempt has ended
+   * @param status - The outcome of the attempt
+   * @returns Whether the job was requeued - if not, the caller should
+   * finalise it
+   */
+  private async requeueForRetry(
+    tx: Prisma.TransactionClient,
+    job: Job,
+    status: JobStatus,
+  ): Promise<boolean> {
+    const policy = jobTypeRegistry[job.type].retry;
+    if (
+      !policy.retryOn.includes(status) ||
+      job.attempts >= policy.maxAttempts
+    ) {
+      return false;
+    }
+
+    // First retry waits backoffSeconds, multiplied for each retry after that
+    const delaySeconds =
+      policy.backoffSeconds *
+      policy.backoffMultiplier ** Math.max(job.attempts - 1, 0);
+    const requeued = await tx.job.updateMany({
+      where: { id: job.id, status: JobStatus.IN_PROGRESS },
+      data: {
+        status: JobStatus.PENDING,
+        available_at: new Date(Date.now() + delaySeconds * 1000),
+      },
+    });
+    if (requeued.count === 0) return false;
+
+    await this.emitJobEvent(tx, {
+      type: 'status',
+      jobId: job.id,
+      userId: job.user_id,
+      status: JobStatus.PENDING,
+    });
+    return true;
+  }
+
+  /**
+   * The final status for a job whose attempt has ended and which wasn't
+   * requeued. A retryable outcome means attempts were exhausted, so the job is
+   * dead lettered for an admin to requeue or fail.
+   * @param job - The job whose attempt has ended
+   * @param status - The outcome of the attempt
+   * @param failure - Why the worker says the attempt failed, if it did
+   * @returns The job's final status and failure reason
+   */
+  private finalOutcome(
+    job: Job,
+    status: JobStatus,
+    failure?: JobFailure,
+  ): { status: JobStatus; failure_reason: string | null } {
+    const policy = jobTypeRegistry[job.type].retry;
+    const reason = failure ? `${failure.code}: ${failure.message}` : null;
+    if (!policy.retryOn.includes(status) || failure?.retryable === false) {
+      return { status, failure_reason: reason };
+    }
+    const exhausted = `Exhausted ${job.attempts} attempt(s), last outcome ${status}`;
+    return {
+      status: JobStatus.DEAD_LETTER,
+      failure_reason: reason ? `${exhausted} (${reason})` : exhausted,
+    };
+  }
+
+  /**
+   * Records a worker heartbeat for an assignment, renewing its lease to the
+   * job type's lease duration from now.
+   * @param assignmentId - ID of the assignment
+   * @returns The updated assignment and whether the job has been cancelled
+   * since it was assigned (in which case the worker should stop work)
+   * @throws NotFoundException if assignment doesn't exist
+   * @throws BadRequestException if assignment already completed
+   */
+  async heartbeat(assignmentId: number) {
+    const assignment = await prisma.jobAssignment.findUnique({
+      where: { id: assignmentId },
+      include: { job: true },
+    });
+
+    if (!assignment) throw new NotFoundException('Assignment not found');
+    if (assignment.completed_at) {
+      // Cancelling a running job releases its assignment - tell the worker
+      if (assignment.job.status === JobStatus.CANCELLED) {
+        return { assignment, cancelled: true };
+      }
+      throw new BadRequestException('Assignment already completed!');
+    }
+
+    const leaseMinutes = jobTypeRegistry[assignment.job.type].leaseMinutes;
+    const now = new Date();
+    const expiryTime = new Date(now);
+    expiryTime.setMinutes(expiryTime.getMinutes() + leaseMinutes);
+
+    // Conditional on the assignment still being open, so a heartbeat can't
+    // revive an assignment the sweeper has just timed out
+    const renewed = await prisma.jobAssignment.updateMany({
+      where: { id: assignmentId, completed_at: null },
+      data: { heartbeat_at: now, expires_at: expiryTime },
+    });
+    if (renewed.count === 0) {
+      throw new BadRequestException('Assignment already completed!');
+    }
+
+    const updated = await prisma.jobAssignment.findUniqueOrThrow({
+      where: { id: assignmentId },
+    });
+
+    return {
+      assignment: updated,
+      cancelled: assignment.job.status === JobStatus.CANCELLED,
+    };
+  }
+
+  /**
+   * Records the latest progress reported by a worker against its assignment.
+   * Only the job's current assignment may report - i.e. one which is still
+   * open, for a job which is still IN_PROGRESS.
+   * @param assignmentId - ID of the assignment
+   * @param progress.percent - Percent complete (0-100)
+   * @param progress.stage - Optional name of the current stage
+   * @param progress.message - Optional free-text message
+   * @returns The updated assignment
+   * @throws NotFoundException if assignment doesn't exist
+   * @throws BadRequestException if the assignment is no longer current
+   */
+  async reportProgress(
+    assignmentId: number,
+    progress: { percent: number; stage?: string; message?: string },
+  ) {
+    // One transaction, so progress is never recorded without its event
+    return prisma.$transaction(async tx => {
+      // Conditional update, so a stale worker can't overwrite the progress of
+      // an assignment which has since been closed
+      const updated = await tx.jobAssignment.updateMany({
+        where: {
+          id: assignmentId,
+          completed_at: null,
+          job: { status: JobStatus.IN_PROGRESS },
+        },
         data: {
-          job_id: jobId,
-          ecs_task_arn: ecsTaskArn,
-          ecs_cluster_arn: ecsClusterArn,
-          expires_at: expiryTime,
-          storage_scheme: storage.scheme,
-          storage_uri: storage.uri,
+          progress_percent: progress.percent,
+          progress_stage: progress.stage ?? null,
+          progress_message: progress.message ?? null,
+          progress_at: new Date(),
         },
-      }),
-      prisma.job.update({
-        where: { id: jobId },
-        data: { status: JobStatus.IN_PROGRESS },
-      }),
-    ]);
+      });
 
-    return assignment;
+      if (updated.count === 0) {
+        const assignment = await tx.jobAssignment.findUnique({
+          where: { id: assignmentId },
+        });
+        if (!assignment) throw new NotFoundException('Assignment not found');
+        throw new BadRequestException(
+          'Assignment is no longer the active attempt for this job',
+        );
+      }
+
+      const assignment = await tx.jobAssignment.findUniqueOrThrow({
+        where: { id: assignmentId },
+      });
+      const job = await tx.job.findUniqueOrThrow({
+        where: { id: assignment.job_id },
+      });
+      await this.emitJobEvent(tx, {
+        type: 'progress',
+        jobId: job.id,
+        userId: job.user_id,
+        status: job.status,
+        progress: {
+          percent: progress.percent,
+          stage: assignment.progress_stage,
+          message: assignment.progress_message,
+        },
+      });
+      return assignment;
+    });
+  }
+
+  /**
+   * Finds assignments whose lease has expired without a result, marks them as
+   * timed out and then, according to the job type's retry policy, either
+   * requeues the job as PENDING or finalises it (as TIMED_OUT or DEAD_LETTER).
+   *
+   * Each assignment is closed with a conditional update so that concurrent
+   * sweepers (e.g. multiple API instances) never double-process one.
+   *
+   * @param limit - Maximum number of assignments to process in this sweep
+   * @returns Counts of assignments timed out and jobs requeued
+   */
+  async sweepExpiredAssignments(limit: number = 100) {
+    const now = new Date();
+    const expired = await prisma.jobAssignment.findMany({
+      where: { completed_at: null, expires_at: { lt: now } },
+      include: { job: true },
+      orderBy: { expires_at: 'asc' },
+      take: limit,
+    });
+
+    let timedOut = 0;
+    let requeued = 0;
+
+    for (const assignment of expired) {
+      const outcome = await prisma.$transaction(async tx => {
+        const closed = await tx.jobAssignment.updateMany({
+          where: {
+            id: assignment.id,
+            completed_at: null,
+            expires_at: { lt: now },
+          },
+          data: { completed_at: now, timed_out: true },
+        });
+        if (closed.count === 0) return undefined;
+
+        const requeue = await this.requeueForRetry(
+          tx,
+          assignment.job,
+          JobStatus.TIMED_OUT,
+        );
+        if (!requeue) {
+          // Only finalise jobs still in progress - e.g. a cancelled job stays
+          // put
+          const outcome = this.finalOutcome(
+            assignment.job,
+            JobStatus.TIMED_OUT,
+          );
+          const finalised = await tx.job.updateMany({
+            where: { id: assignment.job_id, status: JobStatus.IN_PROGRESS },
+            data: outcome,
+          });
+          if (finalised.count > 0) {
+            await this.emitJobEvent(tx, {
+              type: 'status',
+              jobId: assignment.job_id,
+              userId: assignment.job.user_id,
+              status: outcome.status,
+            });
+          }
+        }
+        return { requeue };
+      });
+
+      if (outcome) {
+        timedOut += 1;
+        if (outcome.requeue) requeued += 1;
+      }
+    }
+
+    return { timedOut, requeued };
   }
 
   /**
-   * Submits results for a job assignment
+   * Submits results for a job assignment. A retryable failure (see the job
+   * type's retry policy) requeues the job rather than finalising it, unless
+   * the worker's failure details say it isn't retryable.
    * @param assignmentId - ID of the assignment
    * @param status - Final status of the job
-   * @param resultPayload - Optional result data
+   * @param resultPayload - Optional result data - validated against the job
+   * type's result schema for successful jobs
+   * @param failure - Why the attempt failed - only for FAILED results
    * @throws NotFoundException if assignment doesn't exist
-   * @throws BadRequestException if assignment already completed
+   * @throws BadRequestException if assignment already completed, or the
+   * result payload or failure details are invalid
    */
   async submitResult(
     assignmentId: number,
     status: JobStatus,
     resultPayload?: any,
+    failure?: JobFailure,
   ) {
     const assignment = await prisma.jobAssignment.findUnique({
       where: { id: assignmentId },
@@ -425,33 +1541,67 @@ export class JobService {
     });
 
     if (!assignment) throw new NotFoundException('Assignment not found');
+    if (assignment.job.status === JobStatus.CANCELLED) {
+      throw new BadRequestException('Job has been cancelled - result rejected');
+    }
     if (assignment.completed_at) {
       throw new BadRequestException('Assignment already completed!');
     }
 
-    if (resultPayload) {
+    if (resultPayload && status === JobStatus.SUCCEEDED) {
       await this.validateResultPayload(assignment.job.type, resultPayload);
     }
+    const failureDetails = failure
+      ? this.validateFailure(status, failure)
+      : undefined;
 
-    await prisma.$transaction([
-      prisma.jobResult.create({
+    await prisma.$transaction(async tx => {
+      // Lock the job first (as cancelJob does) then close the assignment,
+      // conditional on it still being open, so a result can't race a
+      // cancellation
+      await this.lockJobs(tx, [assignment.job_id]);
+      const closed = await tx.jobAssignment.updateMany({
+        where: { id: assignmentId, completed_at: null },
+        data: { completed_at: new Date() },
+      });
+      if (closed.count === 0) {
+        throw new BadRequestException('Assignment already completed!');
+      }
+      await tx.jobResult.create({
         data: {
           assignment_id: assignmentId,
           job_id: assignment.job_id,
           result_payload: resultPayload,
           storage_scheme: assignment.storage_scheme,
           storage_uri: assignment.storage_uri,
+          failure: failureDetails,
         },
-      }),
-      prisma.jobAssignment.update({
-        where: { id: assignmentId },
-        data: { completed_at: new Date() },
-      }),
-      prisma.job.update({
-        where: { id: assignment.job_id },
-        data: { status },
-      }),
-    ]);
+      });
+      const requeued =
+        failureDetails?.retryable !== false &&
+        (await this.requeueForRetry(tx, assignment.job, status));
+      if (!requeued) {
+        // Not retried - the reported status is final, unless attempts have
+        // run out
+        const outcome = this.finalOutcome(
+          assignment.job,
+          status,
+          failureDetails,
+        );
+        await tx.job.update({
+          where: { id: assignment.job_id },
+          data: outcome,
+        });
+        await this.emitJobEvent(tx, {
+          // Results are only available for successful jobs
+          type: outcome.status === JobStatus.SUCCEEDED ? 'result' : 'status',
+          jobId: assignment.job_id,
+          userId: assignment.job.user_id,
+          status: outcome.status,
+        });
+      }
+    });
+    recordJobResult(assignment.job.type, status);
   }
 
   /**
@@ -469,6 +1619,8 @@ export class JobService {
           include: {
             result: true,
           },
+          // Oldest attempt first
+          orderBy: { id: 'asc' },
         },
       },
     });
@@ -478,7 +1630,10 @@ export class JobService {
   }
 
   /**
-   * Cancels a job if it hasn't completed
+   * Cancels a job which hasn't finished (PENDING, BLOCKED or IN_PROGRESS).
+   * Jobs depending on it fail. A running job's assignment is released - its
+   * worker is told to stop by its next heartbeat, and any result it submits
+   * is rejected.
    * @param jobId - ID of job to cancel
    * @param userId - ID of requesting user
    * @param isAdmin - Whether requesting user is an admin
@@ -497,113 +1652,375 @@ export class JobService {
       throw new UnauthorizedException();
     }
 
-    if (!(job.status === 'PENDING')) {
-      throw new BadRequestException(
-        'Cannot cancel jobs in a non PENDING state',
-      );
-    }
+    return prisma.$transaction(async tx => {
+      // Conditional, in case the job finished since we read it
+      const updated = await tx.job.updateMany({
+        where: { id: jobId, status: { in: CANCELLABLE_STATUSES } },
+        data: { status: JobStatus.CANCELLED },
+      });
+      if (updated.count === 0) {
+        throw new BadRequestException(
+          'Cannot cancel jobs in a non PENDING, BLOCKED or IN_PROGRESS state',
+        );
+      }
 
-    return prisma.job.update({
-      where: { id: jobId },
-      data: { status: JobStatus.CANCELLED },
+      // Release the running attempt, if any
+      const now = new Date();
+      const released = await tx.jobAssignment.updateMany({
+        where: { job_id: jobId, completed_at: null },
+        data: { completed_at: now },
+      });
+      if (released.count > 0) {
+        await tx.job.update({
+          where: { id: jobId },
+          data: { cancellation_requested_at: now },
+        });
+      }
+
+      await this.emitJobEvent(tx, {
+        type: 'status',
+        jobId,
+        userId: job.user_id,
+        status: JobStatus.CANCELLED,
+      });
+      return tx.job.findUniqueOrThrow({ where: { id: jobId } });
     });
   }
 
   /**
-   * Lists jobs with optional filtering by status and user
-   * If userId is undefined (admin query), returns all jobs
-   * If userId is provided, returns only jobs for that user
-   * @param params.userId - Optional user ID to filter by
-   * @param params.status - Optional status to filter by
+   * Lists dead lettered jobs with their full assignment history, most
+   * recently dead lettered first
    * @returns Object containing jobs array and total count
    */
-  async listJobs(params: {
-    userId?: number;
-    status?: JobStatus;
-  }): Promise<{ jobs: Job[]; total: number }> {
-    // Build where clause based on parameters
-    const where = {
-      ...(params.userId && { user_id: params.userId }),
-      ...(params.status && { status: params.status }),
-    };
-
-    // Execute both queries in parallel for efficiency
+  async listDeadLetterJobs() {
+    const where = { status: JobStatus.DEAD_LETTER };
     const [jobs, total] = await Promise.all([
       prisma.job.findMany({
         where,
         include: {
           assignments: {
-            include: {
-              result: true,
-            },
+            include: { result: true },
+            orderBy: { created_at: 'asc' },
           },
         },
-        orderBy: [{ status: 'asc' }, { updated_at: 'desc' }],
-        // Reasonable page size for initial implementation
+        orderBy: { updated_at: 'desc' },
         take: 50,
       }),
       prisma.job.count({ where }),
     ]);
+    return { jobs, total };
+  }
 
-    return {
-      jobs,
-      total,
+  /**
+   * Requeues a finished, unsuccessful job (FAILED, TIMED_OUT or DEAD_LETTER)
+   * as PENDING with a fresh set of attempts - or as BLOCKED if its
+   * dependencies haven't all succeeded. Optionally replaces the input
+   * payload, which is revalidated and rehashed.
+   * @param jobId - ID of job to requeue
+   * @param inputPayload - Optional replacement input payload
+   * @returns Updated job record
+   * @throws NotFoundException if job doesn't exist
+   * @throws BadRequestException if the payload is invalid or the job can't be
+   * requeued
+   */
+  async requeueJob(jobId: number, inputPayload?: any) {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+    if (!job) throw new NotFoundException('Job not found');
+
+    if (inputPayload !== undefined) {
+      await this.validateJobPayload(job.type, inputPayload);
+    }
+    const payload = inputPayload ?? job.input_payload;
+    // Rehash even if the payload is unchanged, as the job will now run
+    // against the current dataset version
+    const payloadUpdate = {
+      input_payload: inputPayload,
+      hash: await this.generateJobHash({ payload, jobType: job.type }),
+      dataset_version: config.jobs.datasetVersion,
     };
+
+    return prisma.$transaction(async tx => {
+      // Lock the dependencies (see createWorkflow) before checking them
+      const dependencies = await tx.jobDependency.findMany({
+        where: { job_id: jobId },
+      });
+      await this.lockJobs(
+        tx,
+        dependencies.map(dependency => dependency.depends_on_id),
+      );
+      const ready = await this.dependenciesSucceeded(tx, jobId);
+      const status = ready ? JobStatus.PENDING : JobStatus.BLOCKED;
+      // Refresh the dependency results, in case a dependency was rerun
+      const dependencyResults =
+        ready && dependencies.length > 0
+          ? await this.collectDependencyResults(tx, jobId)
+          : undefined;
+
+      const requeued = await tx.job.updateMany({
+        where: {
+          id: jobId,
+          status: {
+            in: [JobStatus.FAILED, JobStatus.TIMED_OUT, JobStatus.DEAD_LETTER],
+          },
+        },
+        data: {
+          status,
+          attempts: 0,
+          available_at: null,
+          failure_reason: null,
+          ...payloadUpdate,
+          dependency_results: dependencyResults,
+        },
+      });
+      if (requeued.count === 0) {
+        throw new BadRequestException(
+          `Cannot requeue a job in the ${job.status} state`,
+        );
+      }
+
+      await this.emitJobEvent(tx, {
+        type: 'status',
+        jobId,
+        userId: job.user_id,
+        status,
+      });
+      return tx.job.findUniqueOrThrow({ where: { id: jobId } });
+    });
   }
 
   /**
-   * Lists jobs with optional filtering by status and user
-   * If userId is undefined (admin query), returns all jobs
-   * If userId is provided, returns only jobs for that user
-   * @param params.userId - Optional user ID to filter by
-   * @param params.status - Optional status to filter by
-   * @returns Object containing jobs array and total count
+   * Sets the priority of a job - higher priority jobs are assigned sooner
+   * @param jobId - ID of job to update
+   * @param priority - New priority
+   * @returns Updated job record
+   * @throws NotFoundException if job doesn't exist
+   */
+  async setJobPriority(jobId: number, priority: number) {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+    if (!job) throw new NotFoundException('Job not found');
+
+    return prisma.job.update({
+      where: { id: jobId },
+      data: { priority },
+    });
+  }
+
+  /**
+   * Permanently fails a job which is waiting to run (PENDING or BLOCKED) or
+   * dead lettered. Jobs depending on it fail too.
+   * @param jobId - ID of job to fail
+   * @param reason - Why the job was failed
+   * @returns Updated job record
+   * @throws NotFoundException if job doesn't exist
+   * @throws BadRequestException if job is not PENDING, BLOCKED or DEAD_LETTER
+   */
+  async failJob(jobId: number, reason: string) {
+    // One transaction, so the job can't fail without its event, webhook and
+    // dependents' cascade (see submitResult)
+    return prisma.$transaction(async tx => {
+      await this.lockJobs(tx, [jobId]);
+      const failed = await tx.job.updateMany({
+        where: {
+          id: jobId,
+          status: {
+            in: [JobStatus.PENDING, JobStatus.BLOCKED, JobStatus.DEAD_LETTER],
+          },
+        },
+        data: {
+          status: JobStatus.FAILED,
+          available_at: null,
+          failure_reason: reason,
+        },
+      });
+      if (failed.count === 0) {
+        const job = await tx.job.findUnique({ where: { id: jobId } });
+        if (!job) throw new NotFoundException('Job not found');
+        throw new BadRequestException(
+          `Cannot fail a job in the ${job.status} state`,
+        );
+      }
+
+      const job = await tx.job.findUniqueOrThrow({ where: { id: jobId } });
+      await this.emitJobEvent(tx, {
+        type: 'status',
+        jobId,
+        userId: job.user_id,
+        status: job.status,
+      });
+      return job;
+    });
+  }
+
+  /**
+   * Lists a page of jobs matching the filters, newest first by default. Pass
+   * the returned nextCursor back (with the same sort) for the next page.
+   * @param params.userId - Only jobs owned by this user - all users if omitted
+   * @param params.status - Only jobs in this status
+   * @returns The page of jobs, the total number matching the filters, and the
+   * cursor for the next page (null if this is the last)
    */
-  async listRequests(params: {
-    userId?: number;
-  }): Promise<{ jobs: JobRequest[]; total: number }> {
-    // Build where clause based on parameters
-    const where = {
-      ...(params.userId && { user_id: params.userId }),
+  async listJobs(
+    params: ListParams<JobSortField> & { status?: JobStatus },
+  ): Promise<{ jobs: Job[]; total: number; nextCursor: string | null }> {
+    const { sort = 'created_at', order = 'desc' } = params;
+    const limit = Math.min(params.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    const where: Prisma.JobWhereInput = {
+      user_id: params.userId,
+      status: params.status,
+      type: params.type,
+      created_at: { gte: params.createdAfter, lt: params.createdBefore },
     };
+    if (params.cacheHit !== undefined) {
+      // Whether the job has been reused from the cache by a later request
+      const reused = { cache_hit: true };
+      where.requests = params.cacheHit ? { some: reused } : { none: reused };
+    }
 
-    const [requests, total] = await Promise.all([
+    const [rows, total] = await Promise.all([
+      prisma.job.findMany({
+        where: {
+          AND: [
+            where,
+            afterCursorWhere(
+              params.cursor,
+              sort,
+              order,
+            ) as Prisma.JobWhereInput,
+          ],
+        },
+        include:
+          params.view === 'summary'
+            ? undefined
+            : { assignments: { include: { result: true } } },
+        orderBy: cursorOrderBy(
+          sort,
+          order,
+        ) as Prisma.JobOrderByWithRelationInput[],
+        take: limit + 1,
+      }),
+      prisma.job.count({ where }),
+    ]);
+
+    const { rows: jobs, nextCursor } = toPage(rows, limit, sort, order);
+    return { jobs, total, nextCursor };
+  }
+
+  /**
+   * Lists a page of job requests matching the filters, newest first by
+   * default. Pass the returned nextCursor back (with the same sort) for the
+   * next page.
+   * @param params.userId - Only requests made by this user - all users if
+   * omitted
+   * @returns The page of requests, the total number matching the filters, and
+   * the cursor for the next page (null if this is the last)
+   */
+  async listRequests(params: ListParams<JobRequestSortField>): Promise<{
+    requests: JobRequest[];
+    total: number;
+    nextCursor: string | null;
+  }> {
+    const { sort = 'created_at', order = 'desc' } = params;
+    const limit = Math.min(params.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    const where: Prisma.JobRequestWhereInput = {
+      user_id: params.userId,
+      type: params.type,
+      cache_hit: params.cacheHit,
+      created_at: { gte: params.createdAfter, lt: params.createdBefore },
+    };
+
+    const [rows, total] = await Promise.all([
       prisma.jobRequest.findMany({
-        where,
-        include: {
-          job: { include: { assignments: true, results: true } },
+        where: {
+          AND: [
+            where,
+            afterCursorWhere(
+              params.cursor,
+              sort,
+              order,
+            ) as Prisma.JobRequestWhereInput,
+          ],
         },
-        orderBy: [{ created_at: 'desc' }],
-        // Reasonable page size for initial implementation
-        take: 50,
+        include:
+          params.view === 'summary'
+            ? undefined
+            : { job: { include: { assignments: true, results: true } } },
+        orderBy: cursorOrderBy(
+          sort,
+          order,
+        ) as Prisma.JobRequestOrderByWithRelationInput[],
+        take: limit + 1,
       }),
       prisma.jobRequest.count({ where }),
     ]);
 
-    return {
-      jobs: requests,
-      total,
-    };
+    const { rows: requests, nextCursor } = toPage(rows, limit, sort, order);
+    return { requests, total, nextCursor };
+  }
+
+  /**
+   * Marks the cache entries matching all of the given filters as invalid, so
+   * they won't be reused by future requests. Jobs already attached to
+   * requests are unaffected.
+   * @param type - Only invalidate jobs of this type
+   * @param datasetVersion - Only invalidate jobs run against this version
+   * @param hash - Only invalidate jobs with this cache hash
+   * @returns Number of jobs invalidated
+   */
+  async invalidateJobCache({
+    type,
+    datasetVersion,
+    hash,
+  }: {
+    type?: JobType;
+    datasetVersion?: string;
+    hash?: string;
+  }) {
+    if (!type && !datasetVersion && !hash) {
+      throw new BadRequestException(
+        'Specify at least one of type, datasetVersion or hash to invalidate',
+      );
+    }
+    const { count } = await prisma.job.updateMany({
+      where: {
+        type,
+        dataset_version: datasetVersion,
+        hash,
+        cache_invalidated_at: null,
+      },
+      data: { cache_invalidated_at: new Date() },
+    });
+    return count;
   }
 
   /**
    * Produces a deterministic hash of a job based on a deterministic string
-   * serialisation of a job and the job type.
+   * serialisation of a job, the job type and the dataset version. The payload
+   * is first canonicalised by the job type's canonicaliser, if it has one.
    * @param payload The payload contents to hash
    * @param jobType The jobType to hash
+   * @param datasetVersion The dataset version to hash - defaults to the
+   * configured version
    */
   public async generateJobHash({
     payload,
     jobType,
+    datasetVersion = config.jobs.datasetVersion,
   }: {
     payload: any;
     jobType: JobType;
+    datasetVersion?: string;
   }) {
-    const payloadHash = hashObject(payload);
+    const canonicalise = getJobTypeDefinition(jobType)?.canonicalise;
+    const payloadHash = hashObject(
+      canonicalise ? canonicalise(payload) : payload,
+    );
     return crypto
       .createHash('sha256')
       .update(payloadHash)
       .update(jobType)
+      .update(datasetVersion)
       .digest('hex');
   }
 }
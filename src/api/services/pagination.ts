@@ -0,0 +1,159 @@
+import { BadRequestException } from '../exceptions';
+
+export type SortOrder = 'asc' | 'desc';
+
+/** Default number of rows in a page of a list */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/** Upper bound on the page size a client may ask for */
+export const MAX_PAGE_SIZE = 200;
+
+/**
+ * Where a page ended - the sort field's value and id of its last row. Lists
+ * are ordered by the sort field then id, so the pair identifies a unique
+ * position even when the sort field has duplicate values.
+ */
+interface CursorPosition {
+  sort: string;
+  order: SortOrder;
+  // Dates are held as ISO strings
+  value: string | number;
+  id: number;
+}
+
+/**
+ * Encodes the position after a row as an opaque cursor for the next page
+ * @param sort - The field the list is sorted by
+ * @param order - The direction of the sort
+ * @param row - The last row of the page
+ * @returns The cursor, to be passed back to fetch the next page
+ */
+export function encodeCursor(
+  sort: string,
+  order: SortOrder,
+  row: { id: number } & Record<string, unknown>,
+): string {
+  const value = row[sort];
+  const position: CursorPosition = {
+    sort,
+    order,
+    value: value instanceof Date ? value.toISOString() : (value as number),
+    id: row.id,
+  };
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor from encodeCursor
+ * @param cursor - The cursor
+ * @param sort - The field the list is being sorted by
+ * @param order - The direction the list is being sorted in
+ * @returns The sort value (a Date for date fields) and id to continue after
+ * @throws BadRequestException if the cursor is malformed, or was produced for
+ * a list sorted by a different field or in a different direction
+ */
+function decodeCursor(
+  cursor: string,
+  sort: string,
+  order: SortOrder,
+): { value: Date | number; id: number } {
+  let position: CursorPosition;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+  if (
+    typeof position?.id !== 'number' ||
+    !['string', 'number'].includes(typeof position.value)
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  if (position.sort !== sort) {
+    throw new BadRequestException(
+      `Cursor is for a list sorted by ${position.sort}, not ${sort}`,
+    );
+  }
+  if (position.order !== order) {
+    throw new BadRequestException(
+      `Cursor is for a list in ${position.order} order, not ${order}`,
+    );
+  }
+  const value =
+    typeof position.value === 'string'
+      ? new Date(position.value)
+      : position.value;
+  if (value instanceof Date && Number.isNaN(value.getTime())) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return { value, id: position.id };
+}
+
+/**
+ * Builds the where clause selecting the rows after a cursor, in (sort, id)
+ * order. Only suitable for non null sort fields.
+ * @param cursor - Cursor from encodeCursor, if not fetching the first page
+ * @param sort - The field the list is sorted by
+ * @param order - The direction of the sort
+ * @returns The where clause - empty if there's no cursor
+ */
+export function afterCursorWhere(
+  cursor: string | undefined,
+  sort: string,
+  order: SortOrder,
+): Record<string, unknown> {
+  if (!cursor) return {};
+  const { value, id } = decodeCursor(cursor, sort, order);
+  const after = order === 'asc' ? 'gt' : 'lt';
+  if (sort === 'id') {
+    return { id: { [after]: id } };
+  }
+  return {
+    OR: [
+      { [sort]: { [after]: value } },
+      { [sort]: value, id: { [after]: id } },
+    ],
+  };
+}
+
+/**
+ * Orders a list by the sort field, then by id to break ties
+ * @param sort - The field to sort by
+ * @param order - The direction of the sort
+ * @returns The orderBy clause
+ */
+export function cursorOrderBy(
+  sort: string,
+  order: SortOrder,
+): Record<string, SortOrder>[] {
+  return sort === 'id' ? [{ id: order }] : [{ [sort]: order }, { id: order }];
+}
+
+/**
+ * Splits the rows fetched for a page - one more than the page size is
+ * fetched, to tell if there's another page.
+ * @param rows - Up to limit + 1 rows, in order
+ * @param limit - The page size
+ * @param sort - The field the list is sorted by
+ * @param order - The direction of the sort
+ * @returns The page's rows, and the cursor for the next page (null if none)
+ */
+export function toPage<T extends { id: number }>(
+  rows: T[],
+  limit: number,
+  sort: string,
+  order: SortOrder,
+): { rows: T[]; nextCursor: string | null } {
+  if (rows.length <= limit) {
+    return { rows, nextCursor: null };
+  }
+  const page = rows.slice(0, limit);
+  return {
+    rows: page,
+    nextCursor: encodeCursor(
+      sort,
+      order,
+      page[page.length - 1] as T & Record<string, unknown>,
+    ),
+  };
+}
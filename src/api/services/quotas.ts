@@ -0,0 +1,192 @@
+import { JobStatus, JobType, Prisma } from '@prisma/client';
+import { prisma } from '../apiSetup';
+import { config } from '../config';
+import { NotFoundException, TooManyRequestsException } from '../exceptions';
+import { jobTypeRegistry } from './jobTypes';
+
+/** Statuses of jobs which count against a user's concurrent job limit */
+const ACTIVE_JOB_STATUSES: JobStatus[] = [
+  JobStatus.PENDING,
+  JobStatus.BLOCKED,
+  JobStatus.IN_PROGRESS,
+];
+
+/** The window daily job limits apply over */
+const DAILY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Key (with the user's id) of the advisory lock serialising quota checks */
+const QUOTA_LOCK_KEY = 7302;
+
+/** Usage of a limit - limit and remaining are null if it's unlimited */
+export type QuotaUsage = {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+};
+
+/** Maximum new jobs of each type in any 24 hours */
+export type DailyJobLimits = Partial<Record<JobType, number>>;
+
+/** A user's job quotas and their current usage */
+export type JobQuota = {
+  userId: number;
+  // Jobs pending, blocked or in progress
+  concurrent: QuotaUsage;
+  // New jobs (not cache hits) of each type in the last 24 hours
+  daily: Record<JobType, QuotaUsage>;
+  // The admin set overrides of the defaults, if any
+  overrides: {
+    maxConcurrentJobs: number | null;
+    dailyJobLimits: DailyJobLimits;
+  };
+};
+
+/** New jobs a request would create, by type */
+export type NewJobCounts = Partial<Record<JobType, number>>;
+
+/** Usage of a limit with the given number used */
+function usage(limit: number | null, used: number): QuotaUsage {
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+  };
+}
+
+/**
+ * Gets a user's effective job quotas - admin overrides falling back to
+ * MAX_CONCURRENT_JOBS_PER_USER and each job type's dailyLimit - with their
+ * current usage
+ * @param userId - The user
+ * @param tx - Transaction to read in, if any
+ * @returns The user's quotas
+ * @throws NotFoundException if the user doesn't exist
+ */
+export async function getJobQuota(
+  userId: number,
+  tx: Prisma.TransactionClient = prisma,
+): Promise<JobQuota> {
+  const since = new Date(Date.now() - DAILY_WINDOW_MS);
+  const [user, override, active, recent] = await Promise.all([
+    tx.user.findUnique({ where: { id: userId }, select: { id: true } }),
+    tx.userJobQuota.findUnique({ where: { user_id: userId } }),
+    tx.job.count({
+      where: { user_id: userId, status: { in: ACTIVE_JOB_STATUSES } },
+    }),
+    tx.jobRequest.groupBy({
+      by: ['type'],
+      where: { user_id: userId, cache_hit: false, created_at: { gte: since } },
+      _count: { _all: true },
+    }),
+  ]);
+  if (!user) throw new NotFoundException('User not found');
+
+  const dailyJobLimits = (override?.daily_job_limits ?? {}) as DailyJobLimits;
+  const maxConcurrentJobs = override?.max_concurrent_jobs ?? null;
+
+  const daily = {} as Record<JobType, QuotaUsage>;
+  for (const type of Object.values(JobType)) {
+    const limit =
+      dailyJobLimits[type] ?? jobTypeRegistry[type].dailyLimit ?? null;
+    const used = recent.find(row => row.type === type)?._count._all ?? 0;
+    daily[type] = usage(limit, used);
+  }
+
+  return {
+    userId,
+    concurrent: usage(
+      maxConcurrentJobs ?? config.jobs.maxConcurrentJobsPerUser,
+      active,
+    ),
+    daily,
+    overrides: { maxConcurrentJobs, dailyJobLimits },
+  };
+}
+
+/**
+ * Checks a user may create the given new jobs. Call it in the transaction
+ * which creates them - it holds a lock on the user's quota until the
+ * transaction ends, so concurrent requests can't both use the last of it.
+ * Cache hits don't create jobs, so shouldn't be counted.
+ * @param tx - The transaction creating the jobs
+ * @param userId - The user creating the jobs
+ * @param newJobs - How many new jobs of each type will be created
+ * @throws TooManyRequestsException stating the remaining allowance, if the
+ * jobs would exceed the concurrent limit or a daily limit
+ */
+export async function assertWithinJobQuota(
+  tx: Prisma.TransactionClient,
+  userId: number,
+  newJobs: NewJobCounts,
+) {
+  const types = (Object.keys(newJobs) as JobType[]).filter(
+    type => (newJobs[type] ?? 0) > 0,
+  );
+  if (types.length === 0) return;
+
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${QUOTA_LOCK_KEY}::int, ${userId}::int)`;
+  const quota = await getJobQuota(userId, tx);
+
+  const total = types.reduce((sum, type) => sum + newJobs[type]!, 0);
+  const { limit, remaining, used } = quota.concurrent;
+  if (remaining !== null && total > remaining) {
+    throw new TooManyRequestsException(
+      `Concurrent job limit exceeded: ${total} new job(s) requested but only ${remaining} of ${limit} remaining (${used} pending, blocked or in progress)`,
+    );
+  }
+  for (const type of types) {
+    const count = newJobs[type]!;
+    const daily = quota.daily[type];
+    if (daily.remaining !== null && count > daily.remaining) {
+      throw new TooManyRequestsException(
+        `Daily ${type} job limit exceeded: ${count} new job(s) requested but only ${daily.remaining} of ${daily.limit} remaining in the last 24 hours`,
+      );
+    }
+  }
+}
+
+/**
+ * Sets the admin overrides of a user's job quotas, replacing any existing
+ * overrides. Omitted limits use the defaults.
+ * @param userId - The user
+ * @param maxConcurrentJobs - Maximum jobs pending, blocked or in progress
+ * @param dailyJobLimits - Maximum new jobs of each type in any 24 hours
+ * @returns The user's quotas
+ * @throws NotFoundException if the user doesn't exist
+ */
+export async function setJobQuotaOverrides(
+  userId: number,
+  {
+    maxConcurrentJobs,
+    dailyJobLimits,
+  }: {
+    maxConcurrentJobs?: number | null;
+    dailyJobLimits?: DailyJobLimits;
+  },
+): Promise<JobQuota> {
+  // Checks the user exists
+  await getJobQuota(userId);
+  const data = {
+    max_concurrent_jobs: maxConcurrentJobs ?? null,
+    daily_job_limits: dailyJobLimits ?? Prisma.DbNull,
+  };
+  await prisma.userJobQuota.upsert({
+    where: { user_id: userId },
+    create: { user_id: userId, ...data },
+    update: data,
+  });
+  return getJobQuota(userId);
+}
+
+/**
+ * Removes the admin overrides of a user's job quotas, so the defaults apply
+ * @param userId - The user
+ * @returns The user's quotas
+ * @throws NotFoundException if the user doesn't exist
+ */
+export async function clearJobQuotaOverrides(
+  userId: number,
+): Promise<JobQuota> {
+  await prisma.userJobQuota.deleteMany({ where: { user_id: userId } });
+  return getJobQuota(userId);
+}
@@ -0,0 +1,150 @@
+import { parseExpression } from 'cron-parser';
+import { prisma } from '../apiSetup';
+import { BadRequestException } from '../exceptions';
+import { JobService } from './jobs';
+
+/**
+ * Validates a schedule's cron expression and timezone, and finds when it's
+ * next due
+ * @param cron - Five field cron expression (minute hour day month weekday)
+ * @param timezone - IANA timezone the expression is evaluated in
+ * @param from - Find the first time strictly after this
+ * @returns The next time the schedule is due
+ * @throws BadRequestException if the expression or timezone is invalid
+ */
+export function nextRunAt(
+  cron: string,
+  timezone: string,
+  from: Date = new Date(),
+): Date {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: timezone });
+  } catch {
+    throw new BadRequestException(`Invalid timezone: ${timezone}`);
+  }
+  // cron-parser also accepts a leading seconds field, which would allow
+  // schedules more frequent than once a minute
+  if (cron.trim().split(/\s+/).length !== 5) {
+    throw new BadRequestException(
+      'Cron expressions must have five fields: minute hour day month weekday',
+    );
+  }
+  try {
+    return parseExpression(cron, { currentDate: from, tz: timezone })
+      .next()
+      .toDate();
+  } catch (e) {
+    const cause = e instanceof Error ? e : undefined;
+    throw new BadRequestException(`Invalid cron expression: ${cron}`, cause);
+  }
+}
+
+/** Runs job schedules when they fall due */
+export class ScheduleService {
+  private jobService = new JobService();
+
+  /**
+   * Requests a job for each schedule which is due, through createJobRequest -
+   * so the cache and the owner's job quotas apply as if they'd requested it.
+   * Each run is recorded in the schedule's history, with the error if the
+   * request failed.
+   *
+   * Runs missed while no scheduler was running (or while paused) are not
+   * caught up - a schedule which is overdue runs once. Each run is claimed
+   * with a conditional update so that concurrent schedulers (e.g. multiple
+   * API instances) never run one twice.
+   *
+   * @param limit - Maximum number of schedules to run
+   * @returns How many runs requested a job, and how many failed to
+   */
+  async runDueSchedules(limit: number = 100) {
+    const now = new Date();
+    const due = await prisma.jobSchedule.findMany({
+      where: { paused: false, next_run_at: { lte: now } },
+      orderBy: { next_run_at: 'asc' },
+      take: limit,
+    });
+
+    let ran = 0;
+    let failed = 0;
+    for (const schedule of due) {
+      const claimed = await prisma.jobSchedule.updateMany({
+        where: {
+          id: schedule.id,
+          paused: false,
+          next_run_at: schedule.next_run_at,
+        },
+        data: {
+          next_run_at: nextRunAt(schedule.cron, schedule.timezone, now),
+          last_run_at: now,
+        },
+      });
+      if (claimed.count === 0) continue;
+
+      let jobRequestId: number | undefined;
+      let error: string | undefined;
+      try {
+        const { jobRequest } = await this.jobService.createJobRequest(
+          schedule.user_id,
+          schedule.type,
+          schedule.input_payload,
+        );
+        jobRequestId = jobRequest.id;
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+      await prisma.jobScheduleRun.create({
+        data: {
+          schedule_id: schedule.id,
+          scheduled_for: schedule.next_run_at,
+          job_request_id: jobRequestId,
+          error,
+        },
+      });
+      if (error) {
+        failed += 1;
+      } else {
+        ran += 1;
+      }
+    }
+
+    return { ran, failed };
+  }
+}
+
+/**
+ * Starts a background loop which periodically runs due job schedules (see
+ * ScheduleService.runDueSchedules).
+ *
+ * @param intervalSeconds - Seconds between checks for due schedules
+ * @returns Function which stops the scheduler
+ */
+export function startJobScheduler(intervalSeconds: number): () => void {
+  const scheduleService = new ScheduleService();
+  let timeout: NodeJS.Timeout | null = null;
+  let running = true;
+
+  const run = async () => {
+    try {
+      const { ran, failed } = await scheduleService.runDueSchedules();
+      if (ran + failed > 0) {
+        console.log(
+          `Job scheduler ran ${ran} schedule(s), ${failed} failed to request a job`,
+        );
+      }
+    } catch (e) {
+      console.error('Job scheduler failed:', e);
+    } finally {
+      if (running) {
+        timeout = setTimeout(run, intervalSeconds * 1000);
+      }
+    }
+  };
+
+  timeout = setTimeout(run, intervalSeconds * 1000);
+
+  return () => {
+    running = false;
+    if (timeout) clearTimeout(timeout);
+  };
+}
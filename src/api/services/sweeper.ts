@@ -0,0 +1,47 @@
+import { deleteExpiredJobLogs } from './jobLogs';
+import { JobService } from './jobs';
+
+/**
+ * Starts a background loop which periodically times out job assignments whose
+ * lease has expired (see JobService.sweepExpiredAssignments), and deletes
+ * worker logs past their retention period.
+ *
+ * Safe to run on every API instance - each assignment is only ever processed
+ * by one sweeper.
+ *
+ * @param intervalSeconds - Seconds between sweeps
+ * @returns Function which stops the sweeper
+ */
+export function startJobSweeper(intervalSeconds: number): () => void {
+  const jobService = new JobService();
+  let timeout: NodeJS.Timeout | null = null;
+  let running = true;
+
+  const sweep = async () => {
+    try {
+      const { timedOut, requeued } = await jobService.sweepExpiredAssignments();
+      if (timedOut > 0) {
+        console.log(
+          `Job sweeper timed out ${timedOut} assignment(s), requeued ${requeued} job(s)`,
+        );
+      }
+      const deletedLogs = await deleteExpiredJobLogs();
+      if (deletedLogs > 0) {
+        console.log(`Job sweeper deleted ${deletedLogs} expired log line(s)`);
+      }
+    } catch (e) {
+      console.error('Job sweeper failed:', e);
+    } finally {
+      if (running) {
+        timeout = setTimeout(sweep, intervalSeconds * 1000);
+      }
+    }
+  };
+
+  timeout = setTimeout(sweep, intervalSeconds * 1000);
+
+  return () => {
+    running = false;
+    if (timeout) clearTimeout(timeout);
+  };
+}
@@ -0,0 +1,406 @@
+import {
+  JobStatus,
+  Prisma,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookSubscription,
+} from '@prisma/client';
+import axios, { LookupAddressEntry } from 'axios';
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import { prisma } from '../apiSetup';
+import { config } from '../config';
+import { JobEvent } from './jobEvents';
+
+/** Give up on a delivery after this many attempts */
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/** Delay before the first retry - doubles with each further attempt */
+const RETRY_BASE_SECONDS = 30;
+
+/** Upper bound on the delay between attempts */
+const RETRY_MAX_SECONDS = 60 * 60;
+
+/** How long to wait for the receiving endpoint to respond */
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Time allowed on top of the requests themselves before others may retry a
+ * claimed delivery. A dispatcher holds its claimed deliveries for long enough
+ * to send every one of them in turn, each taking up to REQUEST_TIMEOUT_MS.
+ */
+const CLAIM_LEASE_MARGIN_MS = 60000;
+
+/** Headers sent with every delivery */
+export const WEBHOOK_HEADERS = {
+  event: 'X-ReefGuide-Event',
+  delivery: 'X-ReefGuide-Delivery',
+  timestamp: 'X-ReefGuide-Timestamp',
+  signature: 'X-ReefGuide-Signature',
+};
+
+/**
+ * Addresses webhooks may not target, so users can't have the API call internal
+ * services - loopback, private, carrier-grade NAT, link-local (including cloud
+ * metadata endpoints) and unique-local. IPv4-mapped IPv6 addresses are checked
+ * against the IPv4 ranges.
+ */
+const blockedAddresses = new net.BlockList();
+blockedAddresses.addSubnet('0.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('10.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('100.64.0.0', 10, 'ipv4');
+blockedAddresses.addSubnet('127.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('169.254.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('172.16.0.0', 12, 'ipv4');
+blockedAddresses.addSubnet('192.168.0.0', 16, 'ipv4');
+blockedAddresses.addAddress('::', 'ipv6');
+blockedAddresses.addAddress('::1', 'ipv6');
+blockedAddresses.addSubnet('fc00::', 7, 'ipv6');
+blockedAddresses.addSubnet('fe80::', 10, 'ipv6');
+
+/**
+ * Whether webhooks may not be sent to an IP address
+ * @param address - IPv4 or IPv6 address
+ */
+export function isBlockedWebhookAddress(address: string): boolean {
+  if (config.webhooks.allowPrivateTargets) return false;
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Checks a webhook URL may be sent to - it must use https (or http in
+ * development) and must not be a literal blocked address. Hostnames are
+ * checked once resolved, when each delivery is sent.
+ * @param url - The webhook URL
+ * @returns Why the URL is refused, or null if it's allowed
+ */
+export function webhookUrlProblem(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL is invalid';
+  }
+  if (parsed.protocol === 'http:') {
+    if (!config.isDevelopment) return 'Webhook URLs must use https';
+  } else if (parsed.protocol !== 'https:') {
+    return 'Webhook URLs must use http or https';
+  }
+  // IPv6 literals keep their brackets in the hostname
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isBlockedWebhookAddress(host)) {
+    return 'Webhook URLs may not target loopback, private or link-local addresses';
+  }
+  return null;
+}
+
+/**
+ * DNS lookup used when sending deliveries, which refuses hosts resolving to a
+ * blocked address. The connection uses the addresses checked here, so a host
+ * can't resolve differently between the check and the request.
+ */
+function webhookLookup(
+  hostname: string,
+  options: object,
+  callback: (err: Error | null, addresses: LookupAddressEntry[]) => void,
+) {
+  dns.lookup(hostname, { all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    const blocked = addresses.find(a => isBlockedWebhookAddress(a.address));
+    if (blocked) {
+      return callback(
+        new Error(
+          `Webhook host ${hostname} resolves to disallowed address ${blocked.address}`,
+        ),
+        [],
+      );
+    }
+    callback(
+      null,
+      addresses.map(a => ({
+        address: a.address,
+        family: a.family === 6 ? 6 : 4,
+      })),
+    );
+  });
+}
+
+/** Which webhook event (if any) a job reaching each status raises */
+const jobStatusEvents: Partial<Record<JobStatus, WebhookEvent>> = {
+  [JobStatus.SUCCEEDED]: WebhookEvent.JOB_SUCCEEDED,
+  [JobStatus.FAILED]: WebhookEvent.JOB_FAILED,
+  [JobStatus.TIMED_OUT]: WebhookEvent.JOB_FAILED,
+  [JobStatus.DEAD_LETTER]: WebhookEvent.JOB_FAILED,
+  [JobStatus.CANCELLED]: WebhookEvent.JOB_CANCELLED,
+};
+
+/**
+ * Signs a delivery body. Receivers should recompute this over the raw request
+ * body and the timestamp header, and compare it to the signature header.
+ * @param secret - The subscription's secret
+ * @param timestamp - Unix timestamp (seconds) sent in the timestamp header
+ * @param body - The raw JSON request body
+ * @returns The signature header value, e.g. "sha256=ab12..."
+ */
+export function signWebhookBody(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/** Generates a random secret for a new subscription */
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/** A delivery claimed by a dispatcher, and until when it holds it */
+type ClaimedDelivery = { id: number; next_attempt_at: Date };
+
+export class WebhookService {
+  /**
+   * Queues a delivery of an event to each of the user's active subscriptions
+   * which want it. Call with the transaction client making the change, so the
+   * deliveries are only queued if the change commits.
+   * @param client - Prisma client or transaction client
+   * @param userId - The user who owns the changed entity
+   * @param event - The event which occurred
+   * @param data - Event specific data, sent as the body's data field
+   * @returns Number of deliveries queued
+   */
+  async enqueue(
+    client: Prisma.TransactionClient,
+    userId: number,
+    event: WebhookEvent,
+    data: Prisma.InputJsonObject,
+  ): Promise<number> {
+    const subscriptions = await client.webhookSubscription.findMany({
+      where: {
+        user_id: userId,
+        active: true,
+        // An empty event list subscribes to everything
+        OR: [{ events: { isEmpty: true } }, { events: { has: event } }],
+      },
+      select: { id: true },
+    });
+    if (subscriptions.length === 0) return 0;
+
+    const { count } = await client.webhookDelivery.createMany({
+      data: subscriptions.map(subscription => ({
+        subscription_id: subscription.id,
+        event,
+        payload: data,
+      })),
+    });
+    return count;
+  }
+
+  /**
+   * Queues the webhook (if any) for a job event - only job status changes
+   * into a final state raise webhooks.
+   * @param client - Prisma client or transaction client
+   * @param event - The job event being published
+   */
+  async enqueueJobEvent(client: Prisma.TransactionClient, event: JobEvent) {
+    if (event.type === 'progress') return;
+    const webhookEvent = jobStatusEvents[event.status];
+    if (!webhookEvent) return;
+    await this.enqueue(client, event.userId, webhookEvent, {
+      job_id: event.jobId,
+      status: event.status,
+    });
+  }
+
+  /**
+   * Attempts every delivery which is due. Safe to run concurrently on several
+   * API instances - claimed deliveries are leased for long enough to send
+   * them all, so each attempt is only made by one dispatcher.
+   * @param limit - Maximum number of deliveries to attempt
+   * @returns Counts of the deliveries attempted and those which succeeded
+   */
+  async dispatchDueDeliveries(
+    limit = 50,
+  ): Promise<{ attempted: number; succeeded: number }> {
+    // Claim due deliveries by pushing their next attempt past the lease, so
+    // another dispatcher won't pick them up while we're sending them
+    const now = new Date();
+    const leaseUntil = new Date(
+      now.getTime() + limit * REQUEST_TIMEOUT_MS + CLAIM_LEASE_MARGIN_MS,
+    );
+    const claimed = await prisma.$queryRaw<ClaimedDelivery[]>`
+      UPDATE "WebhookDelivery"
+      SET next_attempt_at = ${leaseUntil}
+      WHERE id IN (
+        SELECT id FROM "WebhookDelivery"
+        WHERE status = 'PENDING'::"WebhookDeliveryStatus"
+          AND next_attempt_at <= ${now}
+        ORDER BY next_attempt_at, id
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, next_attempt_at
+    `;
+
+    let succeeded = 0;
+    for (const { id, next_attempt_at: lease } of claimed) {
+      const delivery = await prisma.webhookDelivery.findUnique({
+        where: { id },
+        include: { subscription: true },
+      });
+      if (!delivery) continue;
+      if (await this.attempt(delivery, delivery.subscription, lease)) {
+        succeeded++;
+      }
+    }
+    return { attempted: claimed.length, succeeded };
+  }
+
+  /**
+   * Sends a delivery once and records the outcome, scheduling a retry with
+   * exponential backoff on failure. The outcome is only recorded if this
+   * dispatcher's claim still holds - if the lease ran out and another
+   * dispatcher has since claimed or finished the delivery, theirs stands.
+   * @param lease - The next attempt time this dispatcher's claim set
+   * @returns Whether the endpoint accepted the delivery (and the outcome was
+   * recorded)
+   */
+  private async attempt(
+    delivery: WebhookDelivery,
+    subscription: WebhookSubscription,
+    lease: Date,
+  ): Promise<boolean> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: delivery.event,
+      created_at: delivery.created_at,
+      data: delivery.payload,
+    });
+
+    let responseStatus: number | null = null;
+    // Checked on every attempt, as the rules may be stricter than when the
+    // webhook was registered
+    let error: string | null = webhookUrlProblem(subscription.url);
+    if (!error) {
+      try {
+        const response = await axios.post(subscription.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            [WEBHOOK_HEADERS.event]: delivery.event,
+            [WEBHOOK_HEADERS.delivery]: delivery.id.toString(),
+            [WEBHOOK_HEADERS.timestamp]: timestamp.toString(),
+            [WEBHOOK_HEADERS.signature]: signWebhookBody(
+              subscription.secret,
+              timestamp,
+              body,
+            ),
+          },
+          timeout: REQUEST_TIMEOUT_MS,
+          // The timeout above only covers an idle socket - bound the whole
+          // request, so it can't outlast the lease
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+          maxRedirects: 0,
+          // Connect directly, to the addresses our lookup allowed
+          proxy: false,
+          lookup: webhookLookup,
+          // Judge the status ourselves rather than have axios throw
+          validateStatus: () => true,
+        });
+        responseStatus = response.status;
+        if (response.status < 200 || response.status >= 300) {
+          error = `Endpoint responded with status ${response.status}`;
+        }
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+    }
+
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+    const claimed = {
+      id: delivery.id,
+      status: WebhookDeliveryStatus.PENDING,
+      next_attempt_at: lease,
+    };
+    if (!error) {
+      const { count } = await prisma.webhookDelivery.updateMany({
+        where: claimed,
+        data: {
+          status: WebhookDeliveryStatus.SUCCEEDED,
+          attempts,
+          last_attempt_at: now,
+          response_status: responseStatus,
+          last_error: null,
+        },
+      });
+      return count > 0;
+    }
+
+    const delaySeconds = Math.min(
+      RETRY_BASE_SECONDS * Math.pow(2, attempts - 1),
+      RETRY_MAX_SECONDS,
+    );
+    await prisma.webhookDelivery.updateMany({
+      where: claimed,
+      data: {
+        status:
+          attempts >= WEBHOOK_MAX_ATTEMPTS
+            ? WebhookDeliveryStatus.FAILED
+            : WebhookDeliveryStatus.PENDING,
+        attempts,
+        last_attempt_at: now,
+        next_attempt_at: new Date(now.getTime() + delaySeconds * 1000),
+        response_status: responseStatus,
+        last_error: error,
+      },
+    });
+    return false;
+  }
+}
+
+/**
+ * Starts a background loop which periodically sends due webhook deliveries
+ * (see WebhookService.dispatchDueDeliveries).
+ *
+ * @param intervalSeconds - Seconds between dispatch runs
+ * @returns Function which stops the dispatcher
+ */
+export function startWebhookDispatcher(intervalSeconds: number): () => void {
+  const webhookService = new WebhookService();
+  let timeout: NodeJS.Timeout | null = null;
+  let running = true;
+
+  const dispatch = async () => {
+    try {
+      const { attempted, succeeded } =
+        await webhookService.dispatchDueDeliveries();
+      if (attempted > 0) {
+        console.log(
+          `Webhook dispatcher sent ${succeeded} of ${attempted} delivery attempt(s)`,
+        );
+      }
+    } catch (e) {
+      console.error('Webhook dispatcher failed:', e);
+    } finally {
+      if (running) {
+        timeout = setTimeout(dispatch, intervalSeconds * 1000);
+      }
+    }
+  };
+
+  timeout = setTimeout(dispatch, intervalSeconds * 1000);
+
+  return () => {
+    running = false;
+    if (timeout) clearTimeout(timeout);
+  };
+}
@@ -11,30 +11,38 @@ export const router = express.Router();
 
 import { prisma } from '../apiSetup';
 import { changePassword, registerUser } from '../services/auth';
-import { UserDetailsSchema } from '../types/auth';
+import { UserDetails, UserDetailsSchema } from '../types/auth';
 
-const UpdateUserRolesSchema = z.object({
+export const UpdateUserRolesSchema = z.object({
   roles: z.array(z.nativeEnum(UserRole)),
 });
 
 // Response Types
-const UserResponseSchema = z.object({
+export const UserResponseSchema = z.object({
   id: z.number(),
 });
+export type UserResponse = z.infer<typeof UserResponseSchema>;
 
-type UserResponse = z.infer<typeof UserResponseSchema>;
+export const ListUsersResponseSchema = z.array(UserDetailsSchema);
+export type ListUsersResponse = z.infer<typeof ListUsersResponseSchema>;
 
-const UpdateUserPasswordSchema = z.object({
+export const UpdateUserPasswordSchema = z.object({
   password: z.string().min(8),
 });
 
 // Schema Definitions
-const CreateUserSchema = z.object({
+export const CreateUserSchema = z.object({
   email: z.string().email(),
   password: z.string().min(8),
   roles: z.array(z.nativeEnum(UserRole)).optional(),
 });
 
+export const ListUserLogsQuerySchema = z.object({
+  userId: z.string().optional(),
+  page: z.string().default('1'),
+  limit: z.string().default('50'),
+});
+
 export const ListUserLogsResponseSchema = z.object({
   logs: z.array(
     z.object({
@@ -62,7 +70,7 @@ router.get(
   '/',
   passport.authenticate('jwt', { session: false }),
   assertUserIsAdminMiddleware,
-  async (req, res: Response<UserResponse[]>) => {
+  async (req, res: Response<ListUsersResponse>) => {
     try {
       const users = await prisma.user.findMany({
         select: {
@@ -86,7 +94,7 @@ router.get(
   passport.authenticate('jwt', { session: false }),
   assertUserIsAdminMiddleware,
   processRequest({ params: z.object({ id: z.string() }) }),
-  async (req, res: Response<UserResponse>) => {
+  async (req, res: Response<UserDetails>) => {
     const userId = parseInt(req.params.id);
 
     try {
@@ -140,7 +148,7 @@ router.put(
     body: UpdateUserRolesSchema,
     params: z.object({ id: z.string() }),
   }),
-  async (req, res: Response<UserResponse>) => {
+  async (req, res: Response<UserDetails>) => {
     const userId = parseInt(req.params.id);
     const { roles } = req.body;
 
@@ -225,11 +233,7 @@ router.get(
   passport.authenticate('jwt', { session: false }),
   assertUserIsAdminMiddleware,
   processRequest({
-    query: z.object({
-      userId: z.string().optional(),
-      page: z.string().default('1'),
-      limit: z.string().default('50'),
-    }),
+    query: ListUserLogsQuerySchema,
   }),
   async (req, res: Response<ListUserLogsResponse>) => {
     // Process request seems to think these are optional - which is not correct
@@ -0,0 +1,249 @@
+import {
+  Prisma,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookSubscription,
+} from '@prisma/client';
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { processRequest } from 'zod-express-middleware';
+import { prisma } from '../apiSetup';
+import { passport } from '../auth/passportConfig';
+import { userIsAdmin } from '../auth/utils';
+import { NotFoundException, UnauthorizedException } from '../exceptions';
+import { generateWebhookSecret, webhookUrlProblem } from '../services/webhooks';
+require('express-async-errors');
+
+export const router = express.Router();
+
+// Input/Output validation schemas
+const webhookUrlSchema = z
+  .string()
+  .url()
+  .superRefine((url, ctx) => {
+    const problem = webhookUrlProblem(url);
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }
+  });
+
+export const webhookSubscriptionSchema = z.object({
+  id: z.number(),
+  created_at: z.date(),
+  updated_at: z.date(),
+  user_id: z.number(),
+  url: z.string(),
+  // Empty means all events
+  events: z.array(z.nativeEnum(WebhookEvent)),
+  active: z.boolean(),
+});
+
+export const webhookDeliverySchema = z.object({
+  id: z.number(),
+  created_at: z.date(),
+  updated_at: z.date(),
+  subscription_id: z.number(),
+  event: z.nativeEnum(WebhookEvent),
+  payload: z.any(),
+  status: z.nativeEnum(WebhookDeliveryStatus),
+  attempts: z.number(),
+  next_attempt_at: z.date(),
+  last_attempt_at: z.date().nullable(),
+  response_status: z.number().nullable(),
+  last_error: z.string().nullable(),
+});
+
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(z.nativeEnum(WebhookEvent)).default([]),
+  // Generated if not provided
+  secret: z.string().min(16).optional(),
+});
+export const createWebhookResponseSchema = z.object({
+  webhook: webhookSubscriptionSchema,
+  // Only ever returned here - store it to verify delivery signatures
+  secret: z.string(),
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: z.array(z.nativeEnum(WebhookEvent)).optional(),
+  active: z.boolean().optional(),
+});
+
+export const webhookResponseSchema = z.object({
+  webhook: webhookSubscriptionSchema,
+});
+export const listWebhooksResponseSchema = z.object({
+  webhooks: z.array(webhookSubscriptionSchema),
+});
+
+export const listDeliveriesSchema = z.object({
+  status: z.nativeEnum(WebhookDeliveryStatus).optional(),
+});
+export const listDeliveriesResponseSchema = z.object({
+  deliveries: z.array(webhookDeliverySchema),
+});
+
+// Type inferencing from schemas
+export type CreateWebhookResponse = z.infer<typeof createWebhookResponseSchema>;
+export type WebhookResponse = z.infer<typeof webhookResponseSchema>;
+export type ListWebhooksResponse = z.infer<typeof listWebhooksResponseSchema>;
+export type ListDeliveriesResponse = z.infer<
+  typeof listDeliveriesResponseSchema
+>;
+
+/** Maximum number of deliveries returned by the delivery log */
+const MAX_DELIVERIES = 100;
+
+/** Subscription fields which are safe to return - i.e. all but the secret */
+const subscriptionSelect = {
+  id: true,
+  created_at: true,
+  updated_at: true,
+  user_id: true,
+  url: true,
+  events: true,
+  active: true,
+} satisfies Prisma.WebhookSubscriptionSelect;
+
+/**
+ * Fetches a subscription, checking the user owns it (or is an admin)
+ * @throws NotFoundException if it doesn't exist
+ * @throws UnauthorizedException if the user may not access it
+ */
+async function getAuthorisedSubscription(
+  id: number,
+  user: Express.User,
+): Promise<WebhookSubscription> {
+  const subscription = await prisma.webhookSubscription.findUnique({
+    where: { id },
+  });
+  if (!subscription) {
+    throw new NotFoundException('Webhook not found');
+  }
+  if (!userIsAdmin(user) && subscription.user_id !== user.id) {
+    throw new UnauthorizedException();
+  }
+  return subscription;
+}
+
+/** Register a new webhook subscription for the current user */
+router.post(
+  '/',
+  processRequest({
+    body: createWebhookSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<CreateWebhookResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+
+    const secret = req.body.secret ?? generateWebhookSecret();
+    const webhook = await prisma.webhookSubscription.create({
+      data: {
+        user_id: req.user.id,
+        url: req.body.url,
+        events: req.body.events,
+        secret,
+      },
+      select: subscriptionSelect,
+    });
+    res.status(200).json({ webhook, secret });
+  },
+);
+
+/** Get all webhooks for the user, or all webhooks if admin */
+router.get(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<ListWebhooksResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+
+    const webhooks = await prisma.webhookSubscription.findMany({
+      where: userIsAdmin(req.user) ? {} : { user_id: req.user.id },
+      select: subscriptionSelect,
+      orderBy: { id: 'asc' },
+    });
+    res.json({ webhooks });
+  },
+);
+
+/** Get a specific webhook */
+router.get(
+  '/:id',
+  processRequest({ params: z.object({ id: z.string() }) }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<WebhookResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+    const id = parseInt(req.params.id);
+    await getAuthorisedSubscription(id, req.user);
+
+    const webhook = await prisma.webhookSubscription.findUniqueOrThrow({
+      where: { id },
+      select: subscriptionSelect,
+    });
+    res.json({ webhook });
+  },
+);
+
+/** Update a webhook's URL, events or active flag */
+router.put(
+  '/:id',
+  processRequest({
+    params: z.object({ id: z.string() }),
+    body: updateWebhookSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<WebhookResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+    const id = parseInt(req.params.id);
+    await getAuthorisedSubscription(id, req.user);
+
+    const webhook = await prisma.webhookSubscription.update({
+      where: { id },
+      data: req.body,
+      select: subscriptionSelect,
+    });
+    res.json({ webhook });
+  },
+);
+
+/** Delete a webhook and its delivery log */
+router.delete(
+  '/:id',
+  processRequest({ params: z.object({ id: z.string() }) }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res) => {
+    if (!req.user) throw new UnauthorizedException();
+    const id = parseInt(req.params.id);
+    await getAuthorisedSubscription(id, req.user);
+
+    await prisma.webhookSubscription.delete({ where: { id } });
+    res.status(204).send();
+  },
+);
+
+/** Get the most recent deliveries to a webhook */
+router.get(
+  '/:id/deliveries',
+  processRequest({
+    params: z.object({ id: z.string() }),
+    query: listDeliveriesSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<ListDeliveriesResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+    const id = parseInt(req.params.id);
+    await getAuthorisedSubscription(id, req.user);
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        subscription_id: id,
+        status: req.query.status as WebhookDeliveryStatus | undefined,
+      },
+      orderBy: { id: 'desc' },
+      take: MAX_DELIVERIES,
+    });
+    res.json({ deliveries });
+  },
+);
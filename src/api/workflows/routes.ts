@@ -0,0 +1,95 @@
+import { JobType } from '@prisma/client';
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { processRequest } from 'zod-express-middleware';
+import { passport } from '../auth/passportConfig';
+import { userIsAdmin } from '../auth/utils';
+import { UnauthorizedException } from '../exceptions';
+import { jobDetailsSchema } from '../jobs/routes';
+import { JobService, MAX_WORKFLOW_STEPS } from '../services/jobs';
+require('express-async-errors');
+
+export const router = express.Router();
+const jobService = new JobService();
+
+// Input/Output validation schemas
+export const createWorkflowSchema = z.object({
+  name: z.string().max(200).optional(),
+  steps: z
+    .array(
+      z.object({
+        // Name of the step, referenced by other steps' dependsOn
+        key: z.string().min(1).max(100),
+        type: z.nativeEnum(JobType),
+        inputPayload: z.any(),
+        // Keys of the steps which must succeed before this one runs
+        dependsOn: z.array(z.string()).default([]),
+      }),
+    )
+    .min(1)
+    .max(MAX_WORKFLOW_STEPS),
+});
+
+export const workflowSchema = z.object({
+  id: z.number(),
+  created_at: z.date(),
+  updated_at: z.date(),
+  user_id: z.number(),
+  name: z.string().nullable(),
+  status: z.enum(['RUNNING', 'SUCCEEDED', 'FAILED']),
+  steps: z.array(
+    z.object({
+      key: z.string(),
+      depends_on: z.array(z.string()),
+      cache_hit: z.boolean(),
+      job: jobDetailsSchema,
+    }),
+  ),
+});
+
+export const workflowResponseSchema = z.object({
+  workflow: workflowSchema,
+});
+
+// Type inferencing from schemas
+export type WorkflowResponse = z.infer<typeof workflowResponseSchema>;
+
+/** Submit a workflow of jobs with dependencies between them */
+router.post(
+  '/',
+  processRequest({
+    body: createWorkflowSchema,
+  }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<WorkflowResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+
+    const { name, steps } = req.body;
+    const workflow = await jobService.createWorkflow(req.user.id, {
+      name,
+      steps: steps.map(step => ({
+        key: step.key,
+        type: step.type,
+        inputPayload: step.inputPayload,
+        dependsOn: step.dependsOn ?? [],
+      })),
+    });
+    res.status(200).json({ workflow });
+  },
+);
+
+/** Get a workflow and the state of its steps' jobs */
+router.get(
+  '/:id',
+  processRequest({ params: z.object({ id: z.string() }) }),
+  passport.authenticate('jwt', { session: false }),
+  async (req, res: Response<WorkflowResponse>) => {
+    if (!req.user) throw new UnauthorizedException();
+
+    const workflow = await jobService.getWorkflow(parseInt(req.params.id));
+    if (!userIsAdmin(req.user) && workflow.user_id !== req.user.id) {
+      throw new UnauthorizedException();
+    }
+    res.json({ workflow });
+  },
+);
@@ -1,11 +1,12 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { jwtDecode } from 'jwt-decode';
-import { logger } from './logging';
+import type { LoginResponse, TokenResponse } from '../api/types/auth';
+import { toApiError } from './errors';
 
 /**
  * Interface for authentication credentials
  */
-interface Credentials {
+export interface Credentials {
   /** User email for authentication */
   email: string;
   /** User password for authentication */
@@ -37,46 +38,54 @@ interface JWTPayload {
 }
 
 /**
- * Custom error class for API-related errors
- * Includes status code and original response for better error handling
+ * Destination for the client's log messages - e.g. a winston logger
  */
-export class ApiError extends Error {
-  /**
-   * Creates a new API error
-   * @param message - Error message
-   * @param statusCode - HTTP status code
-   * @param response - Optional original response object
-   */
-  constructor(
-    message: string,
-    public statusCode: number,
-    public response?: any,
-  ) {
-    super(message);
-    this.name = 'ApiError';
-  }
+export interface ClientLogger {
+  debug(message: string, ...meta: unknown[]): void;
+  info(message: string, ...meta: unknown[]): void;
+  warn(message: string, ...meta: unknown[]): void;
+  error(message: string, ...meta: unknown[]): void;
 }
 
+const silentLogger: ClientLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/** Routes which are called without a token */
+const PUBLIC_ROUTES = ['/auth/login', '/auth/register', '/auth/token'];
+
 /**
  * Client for authenticated API requests
- * Handles login, token refresh, and authenticated HTTP requests
+ * Handles login, token refresh, and authenticated HTTP requests. Failed
+ * requests reject with the typed errors in ./errors.
  */
 export class AuthApiClient {
   private axiosInstance: AxiosInstance;
 
   private credentials: Credentials;
 
+  private logger: ClientLogger;
+
   private tokens: AuthTokens | null = null;
 
   private readonly TOKEN_REFRESH_THRESHOLD = 60; // 1 minute in seconds
 
   /**
    * Creates a new authenticated API client
-   * @param baseURL - Base URL for the API
+   * @param baseURL - Base URL for the API, including /api
    * @param credentials - Authentication credentials
+   * @param logger - Optional logger for request and auth messages
    */
-  constructor(baseURL: string, credentials: Credentials) {
+  constructor(
+    baseURL: string,
+    credentials: Credentials,
+    logger: ClientLogger = silentLogger,
+  ) {
     this.credentials = credentials;
+    this.logger = logger;
     this.axiosInstance = axios.create({
       baseURL,
       headers: {
@@ -84,17 +93,13 @@ export class AuthApiClient {
       },
     });
 
-    logger.debug('AuthApiClient initialized', { baseURL });
+    this.logger.debug('AuthApiClient initialized', { baseURL });
 
     // Add request interceptor to handle token management
     this.axiosInstance.interceptors.request.use(
       async config => {
         // Skip authentication for login and register endpoints
-        if (
-          config.url?.endsWith('/auth/login') ||
-          config.url?.endsWith('/auth/register') ||
-          config.url?.endsWith('/auth/token')
-        ) {
+        if (PUBLIC_ROUTES.some(route => config.url?.endsWith(route))) {
           return config;
         }
 
@@ -106,6 +111,12 @@ export class AuthApiClient {
       },
       error => Promise.reject(error),
     );
+
+    // Convert failed responses into typed errors
+    this.axiosInstance.interceptors.response.use(
+      response => response,
+      error => Promise.reject(toApiError(error)),
+    );
   }
 
   /**
@@ -115,7 +126,7 @@ export class AuthApiClient {
    */
   private async getValidToken(): Promise<string | null> {
     if (!this.tokens?.token) {
-      logger.debug('No token available, initiating login');
+      this.logger.debug('No token available, initiating login');
       await this.login();
       return this.tokens?.token || null;
     }
@@ -124,7 +135,7 @@ export class AuthApiClient {
     const expiresIn = decodedToken.exp - Math.floor(Date.now() / 1000);
 
     if (expiresIn <= this.TOKEN_REFRESH_THRESHOLD) {
-      logger.debug(`Token expires in ${expiresIn}s, refreshing`);
+      this.logger.debug(`Token expires in ${expiresIn}s, refreshing`);
       await this.refreshToken();
     }
 
@@ -133,21 +144,21 @@ export class AuthApiClient {
 
   /**
    * Authenticates with the API using provided credentials
-   * @throws Error if login fails
+   * @throws UnauthorizedError if the credentials are invalid
    * @private
    */
   private async login(): Promise<void> {
     try {
-      logger.info('Logging in to API');
-      const response = await this.axiosInstance.post<AuthTokens>(
+      this.logger.info('Logging in to API');
+      const response = await this.axiosInstance.post<LoginResponse>(
         '/auth/login',
         this.credentials,
       );
       this.tokens = response.data;
-      logger.debug('Login successful, token received');
+      this.logger.debug('Login successful, token received');
     } catch (error) {
-      logger.error('Failed to login', { error });
-      throw new Error('Failed to login');
+      this.logger.error('Failed to login', { error });
+      throw error;
     }
   }
 
@@ -157,37 +168,28 @@ export class AuthApiClient {
    * @private
    */
   private async refreshToken(): Promise<void> {
-    logger.info('Token refresh started at:', new Date().toISOString());
+    this.logger.info('Token refresh started at:', new Date().toISOString());
     try {
       if (!this.tokens?.refreshToken) {
-        logger.warn('No refresh token available, falling back to login');
+        this.logger.warn('No refresh token available, falling back to login');
         await this.login();
         return;
       }
 
-      const response = await this.axiosInstance.post<AuthTokens>(
+      const response = await this.axiosInstance.post<TokenResponse>(
         '/auth/token',
         {
           refreshToken: this.tokens.refreshToken,
         },
       );
 
-      if (response.status !== 200) {
-        logger.warn('Non 200 response from refresh token endpoint', {
-          status: response.status,
-        });
-        throw new Error(
-          `Non 200 response from refresh token. Code: ${response.status}.`,
-        );
-      }
-
       this.tokens = {
         ...this.tokens,
         token: response.data.token,
       };
-      logger.debug('Token refreshed successfully');
+      this.logger.debug('Token refreshed successfully');
     } catch (error) {
-      logger.error('Error during token refresh, falling back to login', {
+      this.logger.error('Error during token refresh, falling back to login', {
         error,
       });
       // If refresh fails, try logging in again
@@ -195,7 +197,7 @@ export class AuthApiClient {
       // awaiting login
       await this.login();
     }
-    logger.info('Token refresh completed at:', new Date().toISOString());
+    this.logger.info('Token refresh completed at:', new Date().toISOString());
   }
 
   /**
@@ -205,7 +207,7 @@ export class AuthApiClient {
    * @returns Response data
    */
   public async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    logger.debug('GET request', { url });
+    this.logger.debug('GET request', { url });
     const response = await this.axiosInstance.get<T>(url, config);
     return response.data;
   }
@@ -222,7 +224,7 @@ export class AuthApiClient {
     data?: any,
     config?: AxiosRequestConfig,
   ): Promise<T> {
-    logger.debug('POST request', { url });
+    this.logger.debug('POST request', { url });
     const response = await this.axiosInstance.post<T>(url, data, config);
     return response.data;
   }
@@ -239,7 +241,7 @@ export class AuthApiClient {
     data?: any,
     config?: AxiosRequestConfig,
   ): Promise<T> {
-    logger.debug('PUT request', { url });
+    this.logger.debug('PUT request', { url });
     const response = await this.axiosInstance.put<T>(url, data, config);
     return response.data;
   }
@@ -256,7 +258,7 @@ export class AuthApiClient {
     data?: any,
     config?: AxiosRequestConfig,
   ): Promise<T> {
-    logger.debug('PATCH request', { url });
+    this.logger.debug('PATCH request', { url });
     const response = await this.axiosInstance.patch<T>(url, data, config);
     return response.data;
   }
@@ -268,7 +270,7 @@ export class AuthApiClient {
    * @returns Response data
    */
   public async delete<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    logger.debug('DELETE request', { url });
+    this.logger.debug('DELETE request', { url });
     const response = await this.axiosInstance.delete<T>(url, config);
     return response.data;
   }
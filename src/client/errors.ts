@@ -0,0 +1,121 @@
+import { AxiosError } from 'axios';
+
+/**
+ * Error returned by the API - carries the response's status code and the
+ * message from its error body
+ */
+export class ApiError extends Error {
+  /**
+   * @param message - Error message, from the API's error response if present
+   * @param statusCode - HTTP status code
+   * @param response - The response body
+   */
+  constructor(
+    message: string,
+    public statusCode: number,
+    public response?: unknown,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** 400 - the request was invalid */
+export class BadRequestError extends ApiError {
+  constructor(message: string, response?: unknown) {
+    super(message, 400, response);
+    this.name = 'BadRequestError';
+  }
+}
+
+/** 401 - not logged in, or not permitted to access the resource */
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, response?: unknown) {
+    super(message, 401, response);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/** 403 - the user may not perform the action */
+export class ForbiddenError extends ApiError {
+  constructor(message: string, response?: unknown) {
+    super(message, 403, response);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/** 404 - the resource doesn't exist */
+export class NotFoundError extends ApiError {
+  constructor(message: string, response?: unknown) {
+    super(message, 404, response);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** 429 - a quota or rate limit was exceeded */
+export class TooManyRequestsError extends ApiError {
+  constructor(message: string, response?: unknown) {
+    super(message, 429, response);
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+/** 5xx - the API failed to handle the request */
+export class ServerError extends ApiError {
+  constructor(message: string, statusCode: number, response?: unknown) {
+    super(message, statusCode, response);
+    this.name = 'ServerError';
+  }
+}
+
+/** The API could not be reached, or did not respond */
+export class ApiConnectionError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'ApiConnectionError';
+  }
+}
+
+/**
+ * Converts an error from a request into the matching typed error, using the
+ * status and message of the API's error response ({status, message})
+ * @param error - The error thrown by axios
+ * @returns The typed error, or the original error if it wasn't from axios
+ */
+export function toApiError(error: unknown): unknown {
+  if (!(error instanceof AxiosError)) {
+    return error;
+  }
+  if (!error.response) {
+    return new ApiConnectionError(
+      `Failed to reach the API: ${error.message}`,
+      error,
+    );
+  }
+
+  const { status, data } = error.response;
+  const message =
+    typeof data?.message === 'string'
+      ? data.message
+      : `Request failed with status ${status}`;
+  switch (status) {
+    case 400:
+      return new BadRequestError(message, data);
+    case 401:
+      return new UnauthorizedError(message, data);
+    case 403:
+      return new ForbiddenError(message, data);
+    case 404:
+      return new NotFoundError(message, data);
+    case 429:
+      return new TooManyRequestsError(message, data);
+    default:
+      if (status >= 500) {
+        return new ServerError(message, status, data);
+      }
+      return new ApiError(message, status, data);
+  }
+}
@@ -0,0 +1,84 @@
+import { AuthApiClient, ClientLogger, Credentials } from './authClient';
+import { AdminClient } from './resources/admin';
+import { AuthClient } from './resources/auth';
+import { JobsClient } from './resources/jobs';
+import { NotesClient } from './resources/notes';
+import { PolygonsClient } from './resources/polygons';
+import { SchedulesClient } from './resources/schedules';
+import { UsersClient } from './resources/users';
+import { WebhooksClient } from './resources/webhooks';
+import { WorkflowsClient } from './resources/workflows';
+
+export * from './authClient';
+export * from './errors';
+export * from './types';
+export * from './resources/admin';
+export * from './resources/auth';
+export * from './resources/jobs';
+export * from './resources/notes';
+export * from './resources/polygons';
+export * from './resources/schedules';
+export * from './resources/users';
+export * from './resources/webhooks';
+export * from './resources/workflows';
+
+/**
+ * Typed client for the ReefGuide web API. Logs in with the given credentials
+ * on the first request, and keeps the token refreshed.
+ *
+ * @example
+ * const client = new ReefGuideApiClient('http://localhost:5000/api', {
+ *   email: 'user@example.com',
+ *   password: 'password',
+ * });
+ * const { jobs } = await client.jobs.list({ status: 'PENDING' });
+ */
+export class ReefGuideApiClient {
+  /** The underlying authenticated HTTP client, for raw requests */
+  readonly http: AuthApiClient;
+
+  readonly auth: AuthClient;
+
+  readonly polygons: PolygonsClient;
+
+  readonly notes: NotesClient;
+
+  readonly users: UsersClient;
+
+  readonly admin: AdminClient;
+
+  readonly jobs: JobsClient;
+
+  readonly webhooks: WebhooksClient;
+
+  readonly workflows: WorkflowsClient;
+
+  readonly schedules: SchedulesClient;
+
+  /**
+   * @param baseURL - Base URL for the API, including /api
+   * @param credentials - Credentials of the user to act as
+   * @param logger - Optional logger for request and auth messages
+   */
+  constructor(
+    baseURL: string,
+    credentials: Credentials,
+    logger?: ClientLogger,
+  ) {
+    this.http = new AuthApiClient(baseURL, credentials, logger);
+    this.auth = new AuthClient(this.http);
+    this.polygons = new PolygonsClient(this.http);
+    this.notes = new NotesClient(this.http);
+    this.users = new UsersClient(this.http);
+    this.admin = new AdminClient(this.http);
+    this.jobs = new JobsClient(this.http);
+    this.webhooks = new WebhooksClient(this.http);
+    this.workflows = new WorkflowsClient(this.http);
+    this.schedules = new SchedulesClient(this.http);
+  }
+
+  /** Checks the API is up */
+  async health() {
+    return this.http.get<{ message: string }>('/');
+  }
+}
@@ -0,0 +1,123 @@
+import type {
+  AdminJobResponse,
+  GetClusterCountResponse,
+  GetDeadLetterJobsResponse,
+  GetJobStatsQuery,
+  GetJobStatsResponse,
+  PostDispatchWebhooksResponse,
+  PostFailJobInput,
+  PostInvalidateJobCacheInput,
+  PostInvalidateJobCacheResponse,
+  PostRequeueJobInput,
+  PostRunSchedulesResponse,
+  PostScaleClusterInput,
+  PostSweepJobsResponse,
+  PutJobPriorityInput,
+  PutUserJobQuotaInput,
+} from '../../api/admin/routes';
+import type { JobQuotaResponse } from '../../api/jobs/routes';
+import { AuthApiClient } from '../authClient';
+import { Serialised } from '../types';
+
+/** Admin routes - /admin */
+export class AdminClient {
+  constructor(private http: AuthApiClient) {}
+
+  /** Scales the compute cluster to the desired count */
+  async scaleCluster(input: PostScaleClusterInput) {
+    await this.http.post<void>('/admin/scale', input);
+  }
+
+  async clusterStatus() {
+    return this.http.get<Serialised<GetClusterCountResponse>>('/admin/status');
+  }
+
+  /** Forces a redeployment of the compute cluster service */
+  async redeploy() {
+    await this.http.post<void>('/admin/redeploy');
+  }
+
+  /** Re-runs the database seed initialisation */
+  async init() {
+    await this.http.get<void>('/admin/init');
+  }
+
+  /** Times out job assignments whose lease has expired */
+  async sweepJobs() {
+    return this.http.post<PostSweepJobsResponse>('/admin/jobs/sweep');
+  }
+
+  /** Sends webhook deliveries which are due */
+  async dispatchWebhooks() {
+    return this.http.post<PostDispatchWebhooksResponse>(
+      '/admin/webhooks/dispatch',
+    );
+  }
+
+  /** Runs job schedules which are due */
+  async runSchedules() {
+    return this.http.post<PostRunSchedulesResponse>('/admin/schedules/run');
+  }
+
+  async invalidateJobCache(input: PostInvalidateJobCacheInput) {
+    return this.http.post<PostInvalidateJobCacheResponse>(
+      '/admin/jobs/cache/invalidate',
+      input,
+    );
+  }
+
+  /** Reports job system performance over a window - the last day by default */
+  async jobStats(query: GetJobStatsQuery = {}) {
+    return this.http.get<Serialised<GetJobStatsResponse>>('/admin/jobs/stats', {
+      params: query,
+    });
+  }
+
+  async listDeadLetterJobs() {
+    return this.http.get<Serialised<GetDeadLetterJobsResponse>>(
+      '/admin/jobs/dead-letter',
+    );
+  }
+
+  async requeueJob(jobId: number, input: PostRequeueJobInput = {}) {
+    return this.http.post<Serialised<AdminJobResponse>>(
+      `/admin/jobs/${jobId}/requeue`,
+      input,
+    );
+  }
+
+  async failJob(jobId: number, input: PostFailJobInput) {
+    return this.http.post<Serialised<AdminJobResponse>>(
+      `/admin/jobs/${jobId}/fail`,
+      input,
+    );
+  }
+
+  async setJobPriority(jobId: number, input: PutJobPriorityInput) {
+    return this.http.put<Serialised<AdminJobResponse>>(
+      `/admin/jobs/${jobId}/priority`,
+      input,
+    );
+  }
+
+  async getUserJobQuota(userId: number) {
+    return this.http.get<Serialised<JobQuotaResponse>>(
+      `/admin/users/${userId}/quota`,
+    );
+  }
+
+  /** Overrides a user's job quotas - omitted limits use the defaults */
+  async setUserJobQuota(userId: number, input: PutUserJobQuotaInput) {
+    return this.http.put<Serialised<JobQuotaResponse>>(
+      `/admin/users/${userId}/quota`,
+      input,
+    );
+  }
+
+  /** Removes a user's job quota overrides, so the defaults apply */
+  async clearUserJobQuota(userId: number) {
+    return this.http.delete<Serialised<JobQuotaResponse>>(
+      `/admin/users/${userId}/quota`,
+    );
+  }
+}
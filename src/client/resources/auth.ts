@@ -0,0 +1,24 @@
+import type {
+  ProfileResponse,
+  RegisterInput,
+  RegisterResponse,
+} from '../../api/types/auth';
+import { AuthApiClient } from '../authClient';
+
+/**
+ * Auth routes - /auth. Logging in and refreshing tokens is handled by the
+ * AuthApiClient.
+ */
+export class AuthClient {
+  constructor(private http: AuthApiClient) {}
+
+  /** Registers a new user - does not change the client's credentials */
+  async register(input: RegisterInput) {
+    return this.http.post<RegisterResponse>('/auth/register', input);
+  }
+
+  /** Gets the logged in user */
+  async profile() {
+    return this.http.get<ProfileResponse>('/auth/profile');
+  }
+}
@@ -0,0 +1,173 @@
+import type { z } from 'zod';
+import type {
+  AppendJobLogsResponse,
+  appendJobLogsSchema,
+  AssignJobResponse,
+  assignJobSchema,
+  ClaimJobResponse,
+  claimJobSchema,
+  CreateJobBatchResponse,
+  createJobBatchSchema,
+  CreateJobResponse,
+  createJobSchema,
+  DownloadResponse,
+  downloadJobSchema,
+  HeartbeatResponse,
+  JobBatchResponse,
+  JobDetailsResponse,
+  JobLogsResponse,
+  jobLogsSchema,
+  JobQuotaResponse,
+  ListJobRequestsResponse,
+  listJobRequestsSchema,
+  ListJobsResponse,
+  listJobsSchema,
+  ListJobTypesResponse,
+  PollJobsResponse,
+  pollJobsSchema,
+  ReportProgressResponse,
+  reportProgressSchema,
+  submitResultSchema,
+} from '../../api/jobs/routes';
+import { AuthApiClient } from '../authClient';
+import { Serialised } from '../types';
+
+export type CreateJobInput = z.input<typeof createJobSchema>;
+export type CreateJobBatchInput = z.input<typeof createJobBatchSchema>;
+export type ListJobsQuery = z.input<typeof listJobsSchema>;
+export type ListJobRequestsQuery = z.input<typeof listJobRequestsSchema>;
+export type PollJobsQuery = z.input<typeof pollJobsSchema>;
+export type AssignJobInput = z.input<typeof assignJobSchema>;
+export type ClaimJobInput = z.input<typeof claimJobSchema>;
+export type SubmitResultInput = z.input<typeof submitResultSchema>;
+export type ReportProgressInput = z.input<typeof reportProgressSchema>;
+export type DownloadJobQuery = z.input<typeof downloadJobSchema>;
+export type JobLogsQuery = z.input<typeof jobLogsSchema>;
+export type AppendJobLogsInput = z.input<typeof appendJobLogsSchema>;
+
+/** Job routes - /jobs */
+export class JobsClient {
+  constructor(private http: AuthApiClient) {}
+
+  /** Requests a job, reusing a cached job if one matches */
+  async create(input: CreateJobInput) {
+    return this.http.post<Serialised<CreateJobResponse>>('/jobs', input);
+  }
+
+  /** Submits a parameter sweep - one job per combination of the axes */
+  async createBatch(input: CreateJobBatchInput) {
+    return this.http.post<Serialised<CreateJobBatchResponse>>(
+      '/jobs/batch',
+      input,
+    );
+  }
+
+  async getBatch(batchId: number) {
+    return this.http.get<Serialised<JobBatchResponse>>(
+      `/jobs/batches/${batchId}`,
+    );
+  }
+
+  /** Describes the supported job types, including their payload schemas */
+  async listTypes() {
+    return this.http.get<Serialised<ListJobTypesResponse>>('/jobs/types');
+  }
+
+  /** Gets the user's job quotas and how much of each they've used */
+  async quota() {
+    return this.http.get<Serialised<JobQuotaResponse>>('/jobs/quota');
+  }
+
+  /**
+   * Lists a page of the user's jobs, or all jobs for admins - pass the
+   * response's nextCursor as the cursor to get the next page
+   */
+  async list(query: ListJobsQuery = {}) {
+    return this.http.get<Serialised<ListJobsResponse>>('/jobs', {
+      params: query,
+    });
+  }
+
+  /** Lists a page of the user's job requests, or all requests for admins */
+  async listRequests(query: ListJobRequestsQuery = {}) {
+    return this.http.get<Serialised<ListJobRequestsResponse>>(
+      '/jobs/requests',
+      { params: query },
+    );
+  }
+
+  async get(jobId: number) {
+    return this.http.get<Serialised<JobDetailsResponse>>(`/jobs/${jobId}`);
+  }
+
+  async cancel(jobId: number) {
+    return this.http.post<Serialised<JobDetailsResponse>>(
+      `/jobs/${jobId}/cancel`,
+    );
+  }
+
+  /** Gets presigned URLs for a succeeded job's result files */
+  async download(jobId: number, query: DownloadJobQuery = {}) {
+    return this.http.get<Serialised<DownloadResponse>>(
+      `/jobs/${jobId}/download`,
+      { params: query },
+    );
+  }
+
+  /**
+   * Reads a job's worker logs - pass the response's lastId as after to read
+   * only newer lines
+   */
+  async logs(jobId: number, query: JobLogsQuery = {}) {
+    return this.http.get<Serialised<JobLogsResponse>>(`/jobs/${jobId}/logs`, {
+      params: query,
+    });
+  }
+
+  // Worker routes
+
+  /** Lists jobs available for assignment */
+  async poll(query: PollJobsQuery = {}) {
+    return this.http.get<Serialised<PollJobsResponse>>('/jobs/poll', {
+      params: query,
+    });
+  }
+
+  async assign(input: AssignJobInput) {
+    return this.http.post<Serialised<AssignJobResponse>>('/jobs/assign', input);
+  }
+
+  /** Atomically claims the next available job - both null if there are none */
+  async claim(input: ClaimJobInput) {
+    return this.http.post<Serialised<ClaimJobResponse>>('/jobs/claim', input);
+  }
+
+  async submitResult(assignmentId: number, input: SubmitResultInput) {
+    await this.http.post<void>(
+      `/jobs/assignments/${assignmentId}/result`,
+      input,
+    );
+  }
+
+  /** Renews the assignment's lease, reporting whether the job was cancelled */
+  async heartbeat(assignmentId: number) {
+    return this.http.post<Serialised<HeartbeatResponse>>(
+      `/jobs/assignments/${assignmentId}/heartbeat`,
+    );
+  }
+
+  /** Appends a batch of log lines to the assignment's logs */
+  async appendLogs(assignmentId: number, input: AppendJobLogsInput) {
+    return this.http.post<AppendJobLogsResponse>(
+      `/jobs/assignments/${assignmentId}/logs`,
+      input,
+    );
+  }
+
+  async reportProgress(assignmentId: number, input: ReportProgressInput) {
+    return this.http.post<Serialised<ReportProgressResponse>>(
+      `/jobs/assignments/${assignmentId}/progress`,
+      input,
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import type { z } from 'zod';
+import type {
+  createNoteSchema,
+  ListNotesResponse,
+  NoteResponse,
+  updateNoteSchema,
+} from '../../api/notes/routes';
+import { AuthApiClient } from '../authClient';
+import { Serialised } from '../types';
+
+export type CreateNoteInput = z.input<typeof createNoteSchema>;
+export type UpdateNoteInput = z.input<typeof updateNoteSchema>;
+
+/** Polygon note routes - /notes */
+export class NotesClient {
+  constructor(private http: AuthApiClient) {}
+
+  /** Lists the user's notes, or all notes for admins */
+  async list() {
+    return this.http.get<Serialised<ListNotesResponse>>('/notes');
+  }
+
+  /** Lists the notes on a polygon */
+  async listForPolygon(polygonId: number) {
+    return this.http.get<Serialised<ListNotesResponse>>(`/notes/${polygonId}`);
+  }
+
+  async create(input: CreateNoteInput) {
+    return this.http.post<Serialised<NoteResponse>>('/notes', input);
+  }
+
+  async update(noteId: number, input: UpdateNoteInput) {
+    return this.http.put<Serialised<NoteResponse>>(`/notes/${noteId}`, input);
+  }
+
+  async delete(noteId: number) {
+    await this.http.delete<void>(`/notes/${noteId}`);
+  }
+}
@@ -0,0 +1,41 @@
+import type { z } from 'zod';
+import type {
+  createPolygonSchema,
+  ListPolygonsResponse,
+  PolygonResponse,
+  updatePolygonSchema,
+} from '../../api/polygons/routes';
+import { AuthApiClient } from '../authClient';
+import { Serialised } from '../types';
+
+export type CreatePolygonInput = z.input<typeof createPolygonSchema>;
+export type UpdatePolygonInput = z.input<typeof updatePolygonSchema>;
+
+/** Polygon routes - /polygons */
+export class PolygonsClient {
+  constructor(private http: AuthApiClient) {}
+
+  async get(polygonId: number) {
+    return this.http.get<Serialised<PolygonResponse>>(`/polygons/${polygonId}`);
+  }
+
+  /** Lists the user's polygons, or all polygons for admins */
+  async list() {
+    return this.http.get<Serialised<ListPolygonsResponse>>('/polygons');
+  }
+
+  async create(input: CreatePolygonInput) {
+    return this.http.post<Serialised<PolygonResponse>>('/polygons', input);
+  }
+
+  async update(polygonId: number, input: UpdatePolygonInput) {
+    return this.http.put<Serialised<PolygonResponse>>(
+      `/polygons/${polygonId}`,
+      input,
+    );
+  }
+
+  async delete(polygonId: number) {
+    await this.http.delete<void>(`/polygons/${polygonId}`);
+  }
+}
@@ -0,0 +1,68 @@
+import type { z } from 'zod';
+import type {
+  createScheduleSchema,
+  ListScheduleRunsResponse,
+  listScheduleRunsSchema,
+  ListSchedulesResponse,
+  ScheduleResponse,
+  updateScheduleSchema,
+} from '../../api/schedules/routes';
+import { AuthApiClient } from '../authClient';
+import { Serialised } from '../types';
+
+export type CreateScheduleInput = z.input<typeof createScheduleSchema>;
+export type UpdateScheduleInput = z.input<typeof updateScheduleSchema>;
+export type ListScheduleRunsQuery = z.input<typeof listScheduleRunsSchema>;
+
+/** Job schedule routes - /schedules */
+export class SchedulesClient {
+  constructor(private http: AuthApiClient) {}
+
+  /** Creates a schedule which requests a job on a cron expression */
+  async create(input: CreateScheduleInput) {
+    return this.http.post<Serialised<ScheduleResponse>>('/schedules', input);
+  }
+
+  /** Lists the user's schedules, or all schedules for admins */
+  async list() {
+    return this.http.get<Serialised<ListSchedulesResponse>>('/schedules');
+  }
+
+  async get(scheduleId: number) {
+    return this.http.get<Serialised<ScheduleResponse>>(
+      `/schedules/${scheduleId}`,
+    );
+  }
+
+  async update(scheduleId: number, input: UpdateScheduleInput) {
+    return this.http.put<Serialised<ScheduleResponse>>(
+      `/schedules/${scheduleId}`,
+      input,
+    );
+  }
+
+  async delete(scheduleId: number) {
+    await this.http.delete<void>(`/schedules/${scheduleId}`);
+  }
+
+  async pause(scheduleId: number) {
+    return this.http.post<Serialised<ScheduleResponse>>(
+      `/schedules/${scheduleId}/pause`,
+    );
+  }
+
+  /** Resumes a paused schedule - runs missed while paused are skipped */
+  async resume(scheduleId: number) {
+    return this.http.post<Serialised<ScheduleResponse>>(
+      `/schedules/${scheduleId}/resume`,
+    );
+  }
+
+  /** Lists a page of the schedule's runs, newest first */
+  async listRuns(scheduleId: number, query: ListScheduleRunsQuery = {}) {
+    return this.http.get<Serialised<ListScheduleRunsResponse>>(
+      `/schedules/${scheduleId}/runs`,
+      { params: query },
+    );
+  }
+}
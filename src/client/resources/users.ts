@@ -0,0 +1,54 @@
+import type { z } from 'zod';
+import type { UserDetails } from '../../api/types/auth';
+import type {
+  CreateUserSchema,
+  ListUserLogsQuerySchema,
+  ListUserLogsResponse,
+  ListUsersResponse,
+  UpdateUserPasswordSchema,
+  UpdateUserRolesSchema,
+  UserResponse,
+} from '../../api/users/routes';
+import { AuthApiClient } from '../authClient';
+import { Serialised } from '../types';
+
+export type CreateUserInput = z.input<typeof CreateUserSchema>;
+export type UpdateUserRolesInput = z.input<typeof UpdateUserRolesSchema>;
+export type UpdateUserPasswordInput = z.input<typeof UpdateUserPasswordSchema>;
+export type ListUserLogsQuery = z.input<typeof ListUserLogsQuerySchema>;
+
+/** User management routes - /users (admin only) */
+export class UsersClient {
+  constructor(private http: AuthApiClient) {}
+
+  async list() {
+    return this.http.get<ListUsersResponse>('/users');
+  }
+
+  async get(userId: number) {
+    return this.http.get<UserDetails>(`/users/${userId}`);
+  }
+
+  async create(input: CreateUserInput) {
+    return this.http.post<UserResponse>('/users', input);
+  }
+
+  async updateRoles(userId: number, input: UpdateUserRolesInput) {
+    return this.http.put<UserDetails>(`/users/${userId}/roles`, input);
+  }
+
+  async updatePassword(userId: number, input: UpdateUserPasswordInput) {
+    await this.http.put<void>(`/users/${userId}/password`, input);
+  }
+
+  async delete(userId: number) {
+    await this.http.delete<void>(`/users/${userId}`);
+  }
+
+  /** Gets a page of user logs, optionally for a single user */
+  async listLogs(query: ListUserLogsQuery = {}) {
+    return this.http.get<Serialised<ListUserLogsResponse>>('/users/utils/log', {
+      params: query,
+    });
+  }
+}
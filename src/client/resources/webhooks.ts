@@ -0,0 +1,57 @@
+import type { z } from 'zod';
+import type {
+  CreateWebhookResponse,
+  createWebhookSchema,
+  ListDeliveriesResponse,
+  listDeliveriesSchema,
+  ListWebhooksResponse,
+  updateWebhookSchema,
+  WebhookResponse,
+} from '../../api/webhooks/routes';
+import { AuthApiClient } from '../authClient';
+import { Serialised } from '../types';
+
+export type CreateWebhookInput = z.input<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.input<typeof updateWebhookSchema>;
+export type ListDeliveriesQuery = z.input<typeof listDeliveriesSchema>;
+
+/** Webhook subscription routes - /webhooks */
+export class WebhooksClient {
+  constructor(private http: AuthApiClient) {}
+
+  /** Registers a webhook - the response holds its secret, returned only here */
+  async create(input: CreateWebhookInput) {
+    return this.http.post<Serialised<CreateWebhookResponse>>(
+      '/webhooks',
+      input,
+    );
+  }
+
+  /** Lists the user's webhooks, or all webhooks for admins */
+  async list() {
+    return this.http.get<Serialised<ListWebhooksResponse>>('/webhooks');
+  }
+
+  async get(webhookId: number) {
+    return this.http.get<Serialised<WebhookResponse>>(`/webhooks/${webhookId}`);
+  }
+
+  async update(webhookId: number, input: UpdateWebhookInput) {
+    return this.http.put<Serialised<WebhookResponse>>(
+      `/webhooks/${webhookId}`,
+      input,
+    );
+  }
+
+  async delete(webhookId: number) {
+    await this.http.delete<void>(`/webhooks/${webhookId}`);
+  }
+
+  /** Gets the most recent deliveries to a webhook */
+  async listDeliveries(webhookId: number, query: ListDeliveriesQuery = {}) {
+    return this.http.get<Serialised<ListDeliveriesResponse>>(
+      `/webhooks/${webhookId}/deliveries`,
+      { params: query },
+    );
+  }
+}
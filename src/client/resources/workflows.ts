@@ -0,0 +1,25 @@
+import type { z } from 'zod';
+import type {
+  createWorkflowSchema,
+  WorkflowResponse,
+} from '../../api/workflows/routes';
+import { AuthApiClient } from '../authClient';
+import { Serialised } from '../types';
+
+export type CreateWorkflowInput = z.input<typeof createWorkflowSchema>;
+
+/** Workflow routes - /workflows */
+export class WorkflowsClient {
+  constructor(private http: AuthApiClient) {}
+
+  /** Submits a workflow of jobs with dependencies between them */
+  async create(input: CreateWorkflowInput) {
+    return this.http.post<Serialised<WorkflowResponse>>('/workflows', input);
+  }
+
+  async get(workflowId: number) {
+    return this.http.get<Serialised<WorkflowResponse>>(
+      `/workflows/${workflowId}`,
+    );
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * The type of a router's response type once sent as JSON - dates arrive as
+ * ISO strings
+ */
+export type Serialised<T> = 0 extends 1 & T
+  ? T
+  : T extends Date
+    ? string
+    : { [K in keyof T]: Serialised<T[K]> };
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "JobAssignment" ADD COLUMN     "timed_out" BOOLEAN NOT NULL DEFAULT false;
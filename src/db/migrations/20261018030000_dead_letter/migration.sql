@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "JobStatus" ADD VALUE 'DEAD_LETTER';
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "failure_reason" TEXT;
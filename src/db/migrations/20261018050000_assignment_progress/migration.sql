@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "JobAssignment" ADD COLUMN     "progress_at" TIMESTAMP(3),
+ADD COLUMN     "progress_message" TEXT,
+ADD COLUMN     "progress_percent" DOUBLE PRECISION,
+ADD COLUMN     "progress_stage" TEXT;
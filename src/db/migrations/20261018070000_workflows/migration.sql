@@ -0,0 +1,59 @@
+-- AlterEnum
+ALTER TYPE "JobStatus" ADD VALUE 'BLOCKED';
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "dependency_results" JSONB;
+
+-- CreateTable
+CREATE TABLE "JobDependency" (
+    "job_id" INTEGER NOT NULL,
+    "depends_on_id" INTEGER NOT NULL,
+
+    CONSTRAINT "JobDependency_pkey" PRIMARY KEY ("job_id","depends_on_id")
+);
+
+-- CreateTable
+CREATE TABLE "Workflow" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "name" TEXT,
+
+    CONSTRAINT "Workflow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowStep" (
+    "id" SERIAL NOT NULL,
+    "workflow_id" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "depends_on" TEXT[],
+    "job_request_id" INTEGER NOT NULL,
+
+    CONSTRAINT "WorkflowStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobDependency_depends_on_id_idx" ON "JobDependency"("depends_on_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowStep_job_request_id_key" ON "WorkflowStep"("job_request_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowStep_workflow_id_key_key" ON "WorkflowStep"("workflow_id", "key");
+
+-- AddForeignKey
+ALTER TABLE "JobDependency" ADD CONSTRAINT "JobDependency_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JobDependency" ADD CONSTRAINT "JobDependency_depends_on_id_fkey" FOREIGN KEY ("depends_on_id") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Workflow" ADD CONSTRAINT "Workflow_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowStep" ADD CONSTRAINT "WorkflowStep_workflow_id_fkey" FOREIGN KEY ("workflow_id") REFERENCES "Workflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowStep" ADD CONSTRAINT "WorkflowStep_job_request_id_fkey" FOREIGN KEY ("job_request_id") REFERENCES "JobRequest"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
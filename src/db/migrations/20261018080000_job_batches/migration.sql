@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "JobRequest" ADD COLUMN     "batch_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "JobBatch" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "type" "JobType" NOT NULL,
+    "base_payload" JSONB NOT NULL,
+    "axes" JSONB NOT NULL,
+
+    CONSTRAINT "JobBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobRequest_batch_id_idx" ON "JobRequest"("batch_id");
+
+-- AddForeignKey
+ALTER TABLE "JobRequest" ADD CONSTRAINT "JobRequest_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "JobBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JobBatch" ADD CONSTRAINT "JobBatch_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
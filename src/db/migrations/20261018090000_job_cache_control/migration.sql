@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "cache_invalidated_at" TIMESTAMP(3),
+ADD COLUMN     "dataset_version" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "cancellation_requested_at" TIMESTAMP(3);
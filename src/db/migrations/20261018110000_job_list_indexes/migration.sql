@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "JobRequest_created_at_idx" ON "JobRequest"("created_at");
+
+-- CreateIndex
+CREATE INDEX "Job_created_at_idx" ON "Job"("created_at");
+
+-- CreateIndex
+CREATE INDEX "Job_updated_at_idx" ON "Job"("updated_at");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "UserJobQuota" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "max_concurrent_jobs" INTEGER,
+    "daily_job_limits" JSONB,
+
+    CONSTRAINT "UserJobQuota_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserJobQuota_user_id_key" ON "UserJobQuota"("user_id");
+
+-- CreateIndex
+CREATE INDEX "JobRequest_user_id_created_at_idx" ON "JobRequest"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "UserJobQuota" ADD CONSTRAINT "UserJobQuota_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
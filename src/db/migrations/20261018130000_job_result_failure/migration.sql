@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "JobResult" ADD COLUMN     "failure" JSONB;
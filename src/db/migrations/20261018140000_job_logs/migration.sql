@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "JobLogLevel" AS ENUM ('DEBUG', 'INFO', 'WARN', 'ERROR');
+
+-- CreateTable
+CREATE TABLE "JobLog" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "job_id" INTEGER NOT NULL,
+    "assignment_id" INTEGER NOT NULL,
+    "logged_at" TIMESTAMP(3) NOT NULL,
+    "level" "JobLogLevel",
+    "message" TEXT NOT NULL,
+
+    CONSTRAINT "JobLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobLog_job_id_id_idx" ON "JobLog"("job_id", "id");
+
+-- CreateIndex
+CREATE INDEX "JobLog_assignment_id_idx" ON "JobLog"("assignment_id");
+
+-- CreateIndex
+CREATE INDEX "JobLog_created_at_idx" ON "JobLog"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "JobLog" ADD CONSTRAINT "JobLog_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JobLog" ADD CONSTRAINT "JobLog_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "JobAssignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
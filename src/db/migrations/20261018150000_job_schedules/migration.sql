@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "JobSchedule" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "cron" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "type" "JobType" NOT NULL,
+    "input_payload" JSONB NOT NULL,
+    "paused" BOOLEAN NOT NULL DEFAULT false,
+    "next_run_at" TIMESTAMP(3) NOT NULL,
+    "last_run_at" TIMESTAMP(3),
+
+    CONSTRAINT "JobSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "JobScheduleRun" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "schedule_id" INTEGER NOT NULL,
+    "scheduled_for" TIMESTAMP(3) NOT NULL,
+    "job_request_id" INTEGER,
+    "error" TEXT,
+
+    CONSTRAINT "JobScheduleRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobSchedule_paused_next_run_at_idx" ON "JobSchedule"("paused", "next_run_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobScheduleRun_job_request_id_key" ON "JobScheduleRun"("job_request_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobScheduleRun_schedule_id_scheduled_for_key" ON "JobScheduleRun"("schedule_id", "scheduled_for");
+
+-- AddForeignKey
+ALTER TABLE "JobSchedule" ADD CONSTRAINT "JobSchedule_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JobScheduleRun" ADD CONSTRAINT "JobScheduleRun_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "JobSchedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JobScheduleRun" ADD CONSTRAINT "JobScheduleRun_job_request_id_fkey" FOREIGN KEY ("job_request_id") REFERENCES "JobRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,3 +1,4 @@
+import { JobType } from '@prisma/client';
 import { z } from 'zod';
 
 // Schema for validating environment variables directly
@@ -16,6 +17,12 @@ const EnvVarsSchema = z.object({
     .default('1')
     .transform(val => parseInt(val))
     .pipe(z.number().min(1)),
+  HEARTBEAT_INTERVAL_MS: z
+    .string()
+    .optional()
+    .default('30000')
+    .transform(val => parseInt(val))
+    .pipe(z.number().min(1000)),
   PORT: z
     .string()
     .optional()
@@ -32,9 +39,12 @@ export const ConfigSchema = z.object({
   apiEndpoint: z.string().url(),
 
   // Worker behavior
-  jobTypes: z.array(z.string().min(1)),
+  jobTypes: z.array(z.nativeEnum(JobType)),
   pollIntervalMs: z.number().min(1000).default(1000),
   maxConcurrentJobs: z.number().min(1).default(1),
+  // how often to send a heartbeat for each active job - must be well within
+  // the job type's lease duration
+  heartbeatIntervalMs: z.number().min(1000).default(30000),
   // period of inactivity before stopping polling two minutes by default
   idleTimeoutMs: z
     .number()
@@ -59,9 +69,11 @@ export function loadConfig(): Config {
   // Transform validated environment variables into config object
   const config: Partial<Config> = {
     apiEndpoint: env.API_ENDPOINT,
-    jobTypes: env.JOB_TYPES.split(',').map(type => type.trim()),
+    // Validated against the JobType enum below
+    jobTypes: env.JOB_TYPES.split(',').map(type => type.trim() as JobType),
     pollIntervalMs: env.POLL_INTERVAL_MS,
     maxConcurrentJobs: env.MAX_CONCURRENT_JOBS,
+    heartbeatIntervalMs: env.HEARTBEAT_INTERVAL_MS,
     port: env.PORT,
     username: env.WORKER_USERNAME,
     password: env.WORKER_PASSWORD,
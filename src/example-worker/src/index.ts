@@ -2,7 +2,7 @@ import express from 'express';
 import { Config, loadConfig } from './config';
 import { TestWorker } from './worker';
 import { z } from 'zod';
-import { AuthApiClient } from './authClient';
+import { ReefGuideApiClient } from '../../client';
 import { getTaskMetadataSafe } from './ecs';
 
 async function main() {
@@ -28,7 +28,7 @@ async function main() {
   const metadata = await getTaskMetadataSafe();
 
   // Setup the api client
-  const client = new AuthApiClient(config.apiEndpoint + '/api', {
+  const client = new ReefGuideApiClient(config.apiEndpoint + '/api', {
     email: config.username,
     password: config.password,
   });
@@ -1,27 +1,38 @@
+import { JobLogLevel, JobStatus } from '@prisma/client';
 import { Config } from './config';
-import { AuthApiClient } from './authClient';
+import { ReefGuideApiClient, Serialised } from '../../client';
+import { ClaimJobResponse } from '../../api/jobs/routes';
 import { TaskIdentifiers } from './ecs';
 
-interface Job {
-  id: number;
-  type: string;
-  input_payload: any;
-}
-
-interface JobAssignment {
-  id: number;
-  job_id: number;
-  storage_uri: string;
+type Job = NonNullable<Serialised<ClaimJobResponse>['job']>;
+type JobAssignment = NonNullable<Serialised<ClaimJobResponse>['assignment']>;
+
+// Failure details reported for simulated failures
+const SIMULATED_FAILURE = {
+  code: 'SIMULATED_FAILURE',
+  message: 'Simulated processing failure',
+  retryable: true,
+};
+
+interface ActiveJob {
+  // simulated processing timer
+  timeout: NodeJS.Timeout;
+  // periodic heartbeat timer
+  heartbeat: NodeJS.Timeout;
+  // when processing started and how long it will take - used to report
+  // simulated progress
+  startedAt: number;
+  durationMs: number;
 }
 
 export class TestWorker {
   private config: Config;
 
-  private activeJobs: Map<number, NodeJS.Timeout>;
+  private activeJobs: Map<number, ActiveJob>;
 
   private isPolling: boolean;
 
-  private client: AuthApiClient;
+  private client: ReefGuideApiClient;
 
   private metadata: Partial<TaskIdentifiers>;
 
@@ -31,7 +42,7 @@ export class TestWorker {
 
   constructor(
     config: Config,
-    client: AuthApiClient,
+    client: ReefGuideApiClient,
     metadata: Partial<TaskIdentifiers>,
   ) {
     this.metadata = metadata;
@@ -46,6 +57,7 @@ export class TestWorker {
       jobTypes: this.config.jobTypes,
       maxConcurrentJobs: this.config.maxConcurrentJobs,
       pollInterval: this.config.pollIntervalMs,
+      heartbeatInterval: this.config.heartbeatIntervalMs,
       idleTimeout: this.config.idleTimeoutMs,
     });
 
@@ -60,8 +72,9 @@ export class TestWorker {
     this.clearIdleTimer();
 
     // Cancel all active jobs
-    for (const [jobId, timeout] of this.activeJobs.entries()) {
-      clearTimeout(timeout);
+    for (const [jobId, active] of this.activeJobs.entries()) {
+      clearTimeout(active.timeout);
+      clearInterval(active.heartbeat);
       console.log(`Cancelled job ${jobId}`);
     }
     this.activeJobs.clear();
@@ -119,60 +132,98 @@ export class TestWorker {
 
   private async pollForJobs() {
     try {
-      // Get available jobs
-      const response = await this.client.get<{ jobs: Job[] }>('/jobs/poll', {
-        params: { jobType: this.config.jobTypes[0] },
-      });
-
-      const jobs: Job[] = response.jobs;
-
-      if (jobs.length === 0) {
-        return;
-      }
-
-      // Update activity timestamp when we find a job
-      this.updateLastActivity();
-
-      // Try to claim first available job
-      const job = jobs[0];
-      await this.claimAndProcessJob(job);
-    } catch (error) {
-      console.error('Error polling for jobs:', error);
-    }
-  }
-
-  private async claimAndProcessJob(job: Job) {
-    try {
-      // Try to claim the job
-      const assignmentResponse = await this.client.post<{
-        assignment: JobAssignment;
-      }>('/jobs/assign', {
-        jobId: job.id,
+      // Atomically claim the next available job - the API guarantees no other
+      // worker can receive the same job
+      const response = await this.client.jobs.claim({
+        jobType: this.config.jobTypes[0],
         ecsTaskArn:
           this.metadata.taskArn ?? 'Unknown - metadata lookup failure',
         ecsClusterArn:
           this.metadata.clusterArn ?? 'Unknown - metadata lookup failure',
       });
 
-      const assignment = assignmentResponse.assignment;
+      const { job, assignment } = response;
+      if (!job || !assignment) {
+        return;
+      }
 
       console.log(`Claimed job ${job.id}, assignment ${assignment.id}`);
 
       // Update activity timestamp when we claim a job
       this.updateLastActivity();
 
-      // Simulate processing by setting a timeout
-      const timeout = setTimeout(
-        () => this.completeJob(assignment.id, job),
-        this.getRandomProcessingTime(),
-      );
+      this.processJob(assignment, job);
+    } catch (error) {
+      console.error('Error claiming job:', error);
+    }
+  }
 
-      this.activeJobs.set(job.id, timeout);
+  private processJob(assignment: JobAssignment, job: Job) {
+    // Simulate processing by setting a timeout
+    const durationMs = this.getRandomProcessingTime();
+    const timeout = setTimeout(
+      () => this.completeJob(assignment.id, job),
+      durationMs,
+    );
+
+    // Keep the assignment lease alive while we work
+    const heartbeat = setInterval(
+      () => this.sendHeartbeat(assignment.id, job),
+      this.config.heartbeatIntervalMs,
+    );
+
+    this.activeJobs.set(job.id, {
+      timeout,
+      heartbeat,
+      startedAt: Date.now(),
+      durationMs,
+    });
+  }
+
+  private async sendHeartbeat(assignmentId: number, job: Job) {
+    try {
+      const response = await this.client.jobs.heartbeat(assignmentId);
+      if (response.cancelled) {
+        console.warn(`Job ${job.id} has been cancelled - aborting`);
+        this.abortJob(job.id);
+        return;
+      }
+      await this.reportProgress(assignmentId, job);
     } catch (error) {
-      console.error(`Error claiming job ${job.id}:`, error);
+      console.error(`Error sending heartbeat for job ${job.id}:`, error);
     }
   }
 
+  /**
+   * Stops work on a job without submitting a result - the API has already
+   * released its assignment and would reject one.
+   */
+  private abortJob(jobId: number) {
+    const active = this.activeJobs.get(jobId);
+    if (!active) return;
+    clearTimeout(active.timeout);
+    clearInterval(active.heartbeat);
+    this.activeJobs.delete(jobId);
+    this.updateLastActivity();
+  }
+
+  private async reportProgress(assignmentId: number, job: Job) {
+    const active = this.activeJobs.get(job.id);
+    if (!active) return;
+
+    // Simulated progress - how far through the processing time we are
+    const elapsed = Date.now() - active.startedAt;
+    const percent = Math.min(
+      100,
+      Math.round((elapsed / active.durationMs) * 100),
+    );
+    await this.client.jobs.reportProgress(assignmentId, {
+      percent,
+      stage: 'processing',
+      message: `Simulated processing ${elapsed}ms of ${active.durationMs}ms`,
+    });
+  }
+
   private async completeJob(assignmentId: number, job: Job) {
     try {
       console.log(`Completing job ${job.id}`);
@@ -180,9 +231,22 @@ export class TestWorker {
       // Simulate success/failure randomly
       const success = Math.random() > 0.1; // 90% success rate
 
-      await this.client.post<any>(`/jobs/assignments/${assignmentId}/result`, {
-        status: success ? 'SUCCEEDED' : 'FAILED',
+      // Send the job's log to the API, so users can read it with the job
+      await this.client.jobs.appendLogs(assignmentId, {
+        lines: [
+          {
+            level: success ? JobLogLevel.INFO : JobLogLevel.ERROR,
+            message: success
+              ? 'Simulated processing complete'
+              : SIMULATED_FAILURE.message,
+          },
+        ],
+      });
+
+      await this.client.jobs.submitResult(assignmentId, {
+        status: success ? JobStatus.SUCCEEDED : JobStatus.FAILED,
         resultPayload: success ? {} : null,
+        failure: success ? undefined : SIMULATED_FAILURE,
       });
 
       console.log(
@@ -194,6 +258,8 @@ export class TestWorker {
     } catch (error) {
       console.error(`Error completing job ${job.id}:`, error);
     } finally {
+      const active = this.activeJobs.get(job.id);
+      if (active) clearInterval(active.heartbeat);
       this.activeJobs.delete(job.id);
     }
   }
@@ -280,6 +280,15 @@ export class JobSystem extends Construct {
         VPC_ID: props.vpc.vpcId,
         // Log level for manager
         LOG_LEVEL: 'info',
+        // Sweep expired job assignments once a minute - the lambda API can't
+        // run its own sweeper
+        SWEEP_INTERVAL_MS: '60000',
+        // Send due webhook deliveries every 10 seconds - the lambda API can't
+        // run its own dispatcher
+        WEBHOOK_DISPATCH_INTERVAL_MS: '10000',
+        // Run due job schedules once a minute - the lambda API can't run its
+        // own scheduler
+        SCHEDULE_INTERVAL_MS: '60000',
       },
       // pass in the manager creds
       secrets: {
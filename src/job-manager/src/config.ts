@@ -100,6 +100,21 @@ export const BaseEnvConfigSchema = z.object({
   API_USERNAME: z.string().min(1, 'API username is required'),
   API_PASSWORD: z.string().min(1, 'API password is required'),
   VPC_ID: z.string().min(1, 'VPC ID is required'),
+  SWEEP_INTERVAL_MS: createNumberValidator(
+    0,
+    'Sweep interval expects valid number',
+    'Sweep interval must be non-negative',
+  ).optional(),
+  WEBHOOK_DISPATCH_INTERVAL_MS: createNumberValidator(
+    0,
+    'Webhook dispatch interval expects valid number',
+    'Webhook dispatch interval must be non-negative',
+  ).optional(),
+  SCHEDULE_INTERVAL_MS: createNumberValidator(
+    0,
+    'Schedule interval expects valid number',
+    'Schedule interval must be non-negative',
+  ).optional(),
 });
 
 export const JobTypeConfigSchema = RawJobTypeConfigSchema.extend({
@@ -124,6 +139,27 @@ export const ConfigSchema = z.object({
     password: z.string().min(1, 'Password is required'),
   }),
   vpcId: z.string().min(1, 'VPC ID is required'),
+  // If set (> 0), the manager periodically asks the API to sweep expired job
+  // assignments
+  sweepIntervalMs: createNumberValidator(
+    0,
+    'Sweep interval expects valid number',
+    'Sweep interval must be non-negative',
+  ).optional(),
+  // If set (> 0), the manager periodically asks the API to send due webhook
+  // deliveries
+  webhookDispatchIntervalMs: createNumberValidator(
+    0,
+    'Webhook dispatch interval expects valid number',
+    'Webhook dispatch interval must be non-negative',
+  ).optional(),
+  // If set (> 0), the manager periodically asks the API to run due job
+  // schedules
+  scheduleIntervalMs: createNumberValidator(
+    0,
+    'Schedule interval expects valid number',
+    'Schedule interval must be non-negative',
+  ).optional(),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -222,6 +258,11 @@ export function loadConfig(): Config {
         password: env.API_PASSWORD as string,
       },
       vpcId: env.VPC_ID as string,
+      sweepIntervalMs: env.SWEEP_INTERVAL_MS as number | undefined,
+      webhookDispatchIntervalMs: env.WEBHOOK_DISPATCH_INTERVAL_MS as
+        | number
+        | undefined,
+      scheduleIntervalMs: env.SCHEDULE_INTERVAL_MS as number | undefined,
     };
 
     // Validate the entire config object
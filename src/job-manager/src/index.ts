@@ -2,16 +2,17 @@ import express from 'express';
 import { z } from 'zod';
 import { Config, loadConfig } from './config';
 import { CapacityManager } from './manager';
-import { AuthApiClient } from './authClient';
+import { ReefGuideApiClient } from '../../client';
 import { logger } from './logging';
+import { metricsRegistry } from './metrics';
 
 /**
  * Main entry point for the Capacity Manager service
- * Sets up the health check endpoint, loads configuration,
+ * Sets up the health check and metrics endpoints, loads configuration,
  * and initializes the capacity manager.
  */
 
-// Create and start the express app for health checks
+// Create and start the express app for health checks and metrics
 const app = express();
 const port = process.env.PORT || 3000;
 
@@ -24,6 +25,15 @@ app.get('/health', (req, res) => {
   res.status(200).send('OK');
 });
 
+/**
+ * Prometheus metrics endpoint
+ * Reports tracked workers, task launches and poll errors
+ */
+app.get('/metrics', async (req, res) => {
+  res.set('Content-Type', metricsRegistry.contentType);
+  res.send(await metricsRegistry.metrics());
+});
+
 let config: Config;
 
 try {
@@ -42,14 +52,18 @@ try {
 
 // Create API client (base should include /api)
 logger.info('Initializing API client');
-const client = new AuthApiClient(config.apiEndpoint + '/api', {
-  email: config.auth.email,
-  password: config.auth.password,
-});
+const client = new ReefGuideApiClient(
+  config.apiEndpoint + '/api',
+  {
+    email: config.auth.email,
+    password: config.auth.password,
+  },
+  logger,
+);
 
 // Start the express server
 app.listen(port, () => {
-  logger.info(`Health check server listening on port ${port}`);
+  logger.info(`Health check and metrics server listening on port ${port}`);
 });
 
 // Start the capacity manager
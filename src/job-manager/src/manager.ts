@@ -7,10 +7,16 @@ import {
 } from '@aws-sdk/client-ecs';
 import { EC2Client, DescribeSubnetsCommand } from '@aws-sdk/client-ec2';
 import { Config, ConfigSchema, JobTypeConfig } from './config';
-import { AuthApiClient } from './authClient';
+import { ReefGuideApiClient, Serialised } from '../../client';
 import { JobType } from '@prisma/client';
 import { PollJobsResponse } from '../../api/jobs/routes';
 import { logger } from './logging';
+import {
+  pollErrorsCounter,
+  taskLaunchesCounter,
+  taskLaunchFailuresCounter,
+  trackedWorkersGauge,
+} from './metrics';
 
 /**
  * Interface for tracking worker status
@@ -46,21 +52,27 @@ export class CapacityManager {
   // Tracks the last scaled time for a given task definition ARN
   private lastScaleTime: Record<string, number> = {};
 
-  private client: AuthApiClient;
+  private client: ReefGuideApiClient;
 
   private isRunning: boolean = false;
 
   private pollTimeout: NodeJS.Timeout | null = null;
 
+  private sweepTimeout: NodeJS.Timeout | null = null;
+
+  private webhookTimeout: NodeJS.Timeout | null = null;
+
+  private scheduleTimeout: NodeJS.Timeout | null = null;
+
   // Tracking data for workers
   private trackedWorkers: TrackedWorker[] = [];
 
   /**
    * Creates a new CapacityManager
    * @param config - Configuration for the capacity manager
-   * @param client - Authentication client for API requests
+   * @param client - Client for API requests
    */
-  constructor(config: Config, client: AuthApiClient) {
+  constructor(config: Config, client: ReefGuideApiClient) {
     this.config = ConfigSchema.parse(config);
     this.ecsClient = new ECSClient({ region: this.config.region });
     this.ec2Client = new EC2Client({ region: this.config.region });
@@ -93,7 +105,7 @@ export class CapacityManager {
 
       // Get jobs with their IDs
       logger.debug('Fetching pending jobs from API');
-      const response = await this.client.get<PollJobsResponse>('/jobs/poll');
+      const response = await this.client.jobs.poll();
       logger.debug('Received job poll response', {
         jobCount: response.jobs.length,
         jobTypes: response.jobs.map(j => j.type),
@@ -102,7 +114,12 @@ export class CapacityManager {
       await this.adjustCapacity({ pollResponse: response.jobs });
     } catch (error) {
       logger.error('Error polling job queue', { error });
+      pollErrorsCounter.inc();
     } finally {
+      const { byStatus } = this.getWorkerStats();
+      for (const [status, count] of Object.entries(byStatus)) {
+        trackedWorkersGauge.set({ status }, count);
+      }
       // Only schedule next poll if still running
       if (this.isRunning) {
         logger.debug('Scheduling next poll', {
@@ -116,6 +133,86 @@ export class CapacityManager {
     }
   }
 
+  /**
+   * Asks the API to time out expired job assignments, then schedules the next
+   * sweep
+   * @private
+   */
+  private async sweepAssignments() {
+    if (!this.isRunning || !this.config.sweepIntervalMs) return;
+
+    try {
+      const result = await this.client.admin.sweepJobs();
+      if (result.timedOut > 0) {
+        logger.info('Swept expired job assignments', result);
+      } else {
+        logger.debug('Sweep found no expired job assignments');
+      }
+    } catch (error) {
+      logger.error('Error sweeping expired job assignments', { error });
+    } finally {
+      if (this.isRunning) {
+        this.sweepTimeout = setTimeout(
+          () => this.sweepAssignments(),
+          this.config.sweepIntervalMs,
+        );
+      }
+    }
+  }
+
+  /**
+   * Asks the API to send due webhook deliveries, then schedules the next
+   * dispatch
+   * @private
+   */
+  private async dispatchWebhooks() {
+    if (!this.isRunning || !this.config.webhookDispatchIntervalMs) return;
+
+    try {
+      const result = await this.client.admin.dispatchWebhooks();
+      if (result.attempted > 0) {
+        logger.info('Dispatched webhook deliveries', result);
+      } else {
+        logger.debug('No webhook deliveries were due');
+      }
+    } catch (error) {
+      logger.error('Error dispatching webhook deliveries', { error });
+    } finally {
+      if (this.isRunning) {
+        this.webhookTimeout = setTimeout(
+          () => this.dispatchWebhooks(),
+          this.config.webhookDispatchIntervalMs,
+        );
+      }
+    }
+  }
+
+  /**
+   * Asks the API to run due job schedules, then schedules the next run
+   * @private
+   */
+  private async runSchedules() {
+    if (!this.isRunning || !this.config.scheduleIntervalMs) return;
+
+    try {
+      const result = await this.client.admin.runSchedules();
+      if (result.ran > 0 || result.failed > 0) {
+        logger.info('Ran due job schedules', result);
+      } else {
+        logger.debug('No job schedules were due');
+      }
+    } catch (error) {
+      logger.error('Error running job schedules', { error });
+    } finally {
+      if (this.isRunning) {
+        this.scheduleTimeout = setTimeout(
+          () => this.runSchedules(),
+          this.config.scheduleIntervalMs,
+        );
+      }
+    }
+  }
+
   /**
    * Updates the status of all tracked workers by querying ECS
    * @private
@@ -327,7 +424,7 @@ export class CapacityManager {
   private async adjustCapacity({
     pollResponse,
   }: {
-    pollResponse: PollJobsResponse['jobs'];
+    pollResponse: Serialised<PollJobsResponse>['jobs'];
   }): Promise<void> {
     logger.debug('Adjusting capacity based on poll response', {
       jobCount: pollResponse.length,
@@ -412,6 +509,7 @@ export class CapacityManager {
     count?: number;
     config: JobTypeConfig;
   }) {
+    const labels = { job_types: config.jobTypes.join(',') };
     try {
       logger.info('Attempting to launch tasks', {
         count,
@@ -471,8 +569,10 @@ export class CapacityManager {
             taskArn: result.tasks[0].taskArn,
           });
           done += 1;
+          taskLaunchesCounter.inc(labels);
         } else {
           failures += 1;
+          taskLaunchFailuresCounter.inc(labels);
           logger.error('Failed to launch task', {
             result,
           });
@@ -488,6 +588,7 @@ export class CapacityManager {
       logger.error('Failed to launch task(s)', {
         error: e,
       });
+      taskLaunchFailuresCounter.inc(labels);
     }
   }
 
@@ -660,6 +761,24 @@ export class CapacityManager {
     logger.info('Starting capacity manager...');
     this.isRunning = true;
     this.pollJobQueue();
+    if (this.config.sweepIntervalMs) {
+      logger.info('Starting assignment sweeper', {
+        ms: this.config.sweepIntervalMs,
+      });
+      this.sweepAssignments();
+    }
+    if (this.config.webhookDispatchIntervalMs) {
+      logger.info('Starting webhook dispatcher', {
+        ms: this.config.webhookDispatchIntervalMs,
+      });
+      this.dispatchWebhooks();
+    }
+    if (this.config.scheduleIntervalMs) {
+      logger.info('Starting job scheduler', {
+        ms: this.config.scheduleIntervalMs,
+      });
+      this.runSchedules();
+    }
 
     // Add error handlers for uncaught errors
     process.on('uncaughtException', error => {
@@ -683,6 +802,18 @@ export class CapacityManager {
       clearTimeout(this.pollTimeout);
       this.pollTimeout = null;
     }
+    if (this.sweepTimeout) {
+      clearTimeout(this.sweepTimeout);
+      this.sweepTimeout = null;
+    }
+    if (this.webhookTimeout) {
+      clearTimeout(this.webhookTimeout);
+      this.webhookTimeout = null;
+    }
+    if (this.scheduleTimeout) {
+      clearTimeout(this.scheduleTimeout);
+      this.scheduleTimeout = null;
+    }
   }
 
   /**
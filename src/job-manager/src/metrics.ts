@@ -0,0 +1,39 @@
+import { collectDefaultMetrics, Counter, Gauge, Registry } from 'prom-client';
+
+/** Registry of the capacity manager's Prometheus metrics, served at /metrics */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({
+  register: metricsRegistry,
+  prefix: 'reefguide_manager_',
+});
+
+/** Workers being tracked, by status - set after each poll */
+export const trackedWorkersGauge = new Gauge({
+  name: 'reefguide_manager_tracked_workers',
+  help: 'Worker tasks being tracked, by status',
+  labelNames: ['status'] as const,
+  registers: [metricsRegistry],
+});
+
+/** Worker tasks launched, by the job types of their task config */
+export const taskLaunchesCounter = new Counter({
+  name: 'reefguide_manager_task_launches_total',
+  help: 'Worker tasks launched, by the job types they handle',
+  labelNames: ['job_types'] as const,
+  registers: [metricsRegistry],
+});
+
+/** Worker task launches which failed, by the job types of their task config */
+export const taskLaunchFailuresCounter = new Counter({
+  name: 'reefguide_manager_task_launch_failures_total',
+  help: 'Worker task launches which failed, by the job types they handle',
+  labelNames: ['job_types'] as const,
+  registers: [metricsRegistry],
+});
+
+/** Polls of the job queue which failed */
+export const pollErrorsCounter = new Counter({
+  name: 'reefguide_manager_poll_errors_total',
+  help: 'Polls of the job queue which failed',
+  registers: [metricsRegistry],
+});
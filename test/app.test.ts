@@ -1,22 +1,56 @@
-import { Express } from 'express';
+import { Express, Router } from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
 import request from 'supertest';
-import app, { prisma } from '../src/api/apiSetup';
+import app, { api, apiRouters, prisma } from '../src/api/apiSetup';
 import { signJwt } from '../src/api/auth/jwtUtils';
 import { decodeRefreshToken, encodeRefreshToken } from '../src/api/auth/utils';
 import { InvalidRefreshTokenException } from '../src/api/exceptions';
 import {
+  adminEmail,
   adminToken,
   clearDbs,
+  password,
   user1Email,
   user1Token,
+  user2Email,
   user2Token,
   userSetup,
 } from './utils';
-import { JobStatus, JobType, UserAction } from '@prisma/client';
+import {
+  JobStatus,
+  JobType,
+  UserAction,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '@prisma/client';
 import { createJobResponseSchema } from '../src/api/jobs/routes';
+import { routeDocs } from '../src/api/openapi';
+import { metricsRegistry } from '../src/api/metrics';
+import {
+  ApiError,
+  BadRequestError,
+  NotFoundError,
+  ReefGuideApiClient,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from '../src/client';
 import { JobService } from '../src/api/services/jobs';
+import { S3StorageService } from '../src/api/services/s3Storage';
+import { config } from '../src/api/config';
+import {
+  assertJobTypesConsistent,
+  findJobTypeRegistryProblems,
+  jobTypeRegistry,
+} from '../src/api/services/jobTypes';
 import { randomInt } from 'crypto';
 import { ListUserLogsResponse } from '../src/api/users/routes';
+import {
+  signWebhookBody,
+  WEBHOOK_MAX_ATTEMPTS,
+  WebhookService,
+} from '../src/api/services/webhooks';
+import { CreateWebhookResponse } from '../src/api/webhooks/routes';
 import { KeyAlgorithm } from 'aws-cdk-lib/aws-certificatemanager';
 
 afterAll(async () => {
@@ -62,6 +96,79 @@ const authRequest = (app: Express, tokenType: TokenType = 'user1') => {
   };
 };
 
+type StreamedEvent = { event: string; data: any };
+
+type EventStream = {
+  status: number;
+  events: StreamedEvent[];
+  waitFor: (
+    predicate: (event: StreamedEvent) => boolean,
+  ) => Promise<StreamedEvent>;
+  close: () => void;
+};
+
+// Opens a server-sent event stream against a running server, collecting the
+// events as they arrive
+const openEventStream = (
+  server: http.Server,
+  path: string,
+  tokenType: TokenType = 'user1',
+) => {
+  const token = { user1: user1Token, user2: user2Token, admin: adminToken }[
+    tokenType
+  ];
+  const { port } = server.address() as AddressInfo;
+  const events: StreamedEvent[] = [];
+
+  return new Promise<EventStream>((resolve, reject) => {
+    const req = http.get(
+      {
+        port,
+        path,
+        headers: { Authorization: `Bearer ${token}` },
+      },
+      res => {
+        let buffer = '';
+        const waiters: {
+          predicate: (event: StreamedEvent) => boolean;
+          resolve: (event: StreamedEvent) => void;
+        }[] = [];
+        res.setEncoding('utf8');
+        res.on('data', chunk => {
+          buffer += chunk;
+          let end = buffer.indexOf('\n\n');
+          while (end !== -1) {
+            const block = buffer.slice(0, end);
+            buffer = buffer.slice(end + 2);
+            end = buffer.indexOf('\n\n');
+            const event = block.match(/^event: (.*)$/m)?.[1];
+            const data = block.match(/^data: (.*)$/m)?.[1];
+            if (!event || !data) continue;
+            const parsed = { event, data: JSON.parse(data) };
+            events.push(parsed);
+            waiters
+              .filter(waiter => waiter.predicate(parsed))
+              .forEach(waiter => waiter.resolve(parsed));
+          }
+        });
+        resolve({
+          status: res.statusCode ?? 0,
+          events,
+          waitFor: predicate => {
+            const existing = events.find(predicate);
+            if (existing) return Promise.resolve(existing);
+            return new Promise(resolveEvent => {
+              waiters.push({ predicate, resolve: resolveEvent });
+            });
+          },
+          close: () => req.destroy(),
+        });
+      },
+    );
+    req.on('error', reject);
+  });
+};
+
 describe('API', () => {
   let user1Id: number;
   let polygonId: number;
@@ -112,6 +219,268 @@ describe('API', () => {
       });
     });
 
+    describe('Metrics', () => {
+      /** Current value of a metric's series with exactly the given labels */
+      const metricValue = async (
+        name: string,
+        labels: Record<string, string>,
+      ) => {
+        const metric = await metricsRegistry.getSingleMetric(name)!.get();
+        const series = metric.values.find(
+          value => JSON.stringify(value.labels) === JSON.stringify(labels),
+        );
+        return series?.value ?? 0;
+      };
+
+      afterEach(() => {
+        config.metrics.token = undefined;
+      });
+
+      it('should report requests by route pattern and status', async () => {
+        await authRequest(app, 'user1').get(`/api/polygons/${polygonId}`);
+        await authRequest(app, 'user1').get('/api/polygons/999999');
+
+        const res = await request(app).get('/metrics').expect(200);
+        expect(res.headers['content-type']).toMatch(/^text\/plain/);
+        expect(res.text).toContain(
+          'reefguide_api_http_requests_total{method="GET",route="/api/polygons/:id",status="200"}',
+        );
+        expect(res.text).toContain(
+          'reefguide_api_http_requests_total{method="GET",route="/api/polygons/:id",status="404"}',
+        );
+        expect(res.text).toContain(
+          'reefguide_api_http_request_duration_seconds_bucket',
+        );
+        expect(res.text).not.toContain(`/api/polygons/${polygonId}"`);
+      });
+
+      it('should count job requests by type and cache hit', async () => {
+        const labels = (cacheHit: boolean) => ({
+          type: JobType.TEST,
+          cache_hit: String(cacheHit),
+        });
+        const missesBefore = await metricValue(
+          'reefguide_api_job_requests_total',
+          labels(false),
+        );
+        const hitsBefore = await metricValue(
+          'reefguide_api_job_requests_total',
+          labels(true),
+        );
+
+        const inputPayload = { id: randomInt(10000) };
+        for (let i = 0; i < 2; i++) {
+          await authRequest(app, 'user1')
+            .post('/api/jobs')
+            .send({ type: JobType.TEST, inputPayload })
+            .expect(200);
+        }
+
+        expect(
+          await metricValue('reefguide_api_job_requests_total', labels(false)),
+        ).toBe(missesBefore + 1);
+        expect(
+          await metricValue('reefguide_api_job_requests_total', labels(true)),
+        ).toBe(hitsBefore + 1);
+      });
+
+      it('should require the metrics token when one is configured', async () => {
+        config.metrics.token = 'scrape-secret';
+
+        await request(app).get('/metrics').expect(401);
+        await request(app)
+          .get('/metrics')
+          .set('Authorization', 'Bearer wrong')
+          .expect(401);
+        await request(app)
+          .get('/metrics')
+          .set('Authorization', 'Bearer scrape-secreT')
+          .expect(401);
+        await request(app)
+          .get('/metrics')
+          .set('Authorization', 'Bearer scrape-secret')
+          .expect(200);
+      });
+    });
+
+    describe('API Documentation', () => {
+      /** Lists "<method> <path>" for each route registered on the router */
+      const listRoutes = (router: Router, prefix = ''): string[] =>
+        router.stack
+          .filter(layer => layer.route)
+          .flatMap(layer =>
+            Object.keys(layer.route.methods).map(
+              method =>
+                `${method} ${prefix}${layer.route.path === '/' && prefix ? '' : layer.route.path}`,
+            ),
+          );
+
+      const registeredRoutes = [
+        ...listRoutes(api),
+        ...Object.entries(apiRouters).flatMap(([prefix, router]) =>
+          listRoutes(router, prefix),
+        ),
+      ];
+      const documentedRoutes = routeDocs.map(
+        doc => `${doc.method} ${doc.path}`,
+      );
+
+      it('should document every registered route', () => {
+        const undocumented = registeredRoutes.filter(
+          route => !documentedRoutes.includes(route),
+        );
+        expect(undocumented).toEqual([]);
+      });
+
+      it('should only document registered routes', () => {
+        const unregistered = documentedRoutes.filter(
+          route => !registeredRoutes.includes(route),
+        );
+        expect(unregistered).toEqual([]);
+        expect(new Set(documentedRoutes).size).toBe(documentedRoutes.length);
+      });
+
+      it('should declare request and response schemas for every route', () => {
+        const missing = routeDocs
+          .filter(doc =>
+            ['post', 'put'].includes(doc.method)
+              ? doc.body === undefined
+              : doc.body !== undefined,
+          )
+          .map(doc => `${doc.method} ${doc.path}`);
+        expect(missing).toEqual([]);
+        for (const doc of routeDocs) {
+          expect(doc.response).toBeDefined();
+        }
+      });
+
+      it('should serve the OpenAPI document', async () => {
+        const res = await request(app).get('/api/openapi.json').expect(200);
+
+        expect(res.body.openapi).toBe('3.0.3');
+        const job = res.body.paths['/jobs/{id}'].get;
+        expect(job.parameters).toEqual([
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer' },
+          },
+        ]);
+        expect(job.security).toEqual([{ bearerAuth: [] }]);
+        expect(
+          job.responses['200'].content['application/json'].schema.properties.job
+            .properties.status.enum,
+        ).toEqual(Object.values(JobStatus));
+
+        const createJob = res.body.paths['/jobs'].post;
+        expect(
+          createJob.requestBody.content['application/json'].schema.required,
+        ).toEqual(['type']);
+        expect(res.body.paths['/auth/login'].post.security).toEqual([]);
+        expect(
+          res.body.paths['/jobs'].get.parameters.map(
+            (p: { name: string }) => p.name,
+          ),
+        ).toEqual(
+          expect.arrayContaining(['status', 'sort', 'cursor', 'limit']),
+        );
+      });
+
+      it('should serve the docs page', async () => {
+        const res = await request(app).get('/api/docs/').expect(200);
+        expect(res.text).toContain('swagger-ui');
+      });
+    });
+
+    describe('Client SDK', () => {
+      let server: http.Server;
+      let baseUrl: string;
+
+      beforeAll(done => {
+        server = app.listen(0, () => {
+          const { port } = server.address() as AddressInfo;
+          baseUrl = `http://localhost:${port}/api`;
+          done();
+        });
+      });
+
+      afterAll(done => {
+        server.close(done);
+      });
+
+      const clientFor = (email: string) =>
+        new ReefGuideApiClient(baseUrl, { email, password });
+
+      it('should log in and call routes', async () => {
+        const client = clientFor(user1Email);
+
+        const { user } = await client.auth.profile();
+        expect(user.id).toBe(user1Id);
+
+        const { polygons } = await client.polygons.list();
+        expect(polygons.map(p => p.id)).toEqual([polygonId]);
+
+        const { jobId } = await client.jobs.create({
+          type: JobType.TEST,
+          inputPayload: { id: 1 },
+        });
+        const { job } = await client.jobs.get(jobId);
+        expect(job.status).toBe(JobStatus.PENDING);
+        // Dates arrive as strings
+        expect(typeof job.created_at).toBe('string');
+      });
+
+      it('should call admin routes as an admin', async () => {
+        const client = clientFor(adminEmail);
+
+        const users = await client.users.list();
+        expect(users.map(u => u.email)).toContain(user1Email);
+        expect(await client.admin.sweepJobs()).toEqual({
+          timedOut: 0,
+          requeued: 0,
+          deletedLogs: 0,
+        });
+      });
+
+      it('should reject with typed errors', async () => {
+        const client = clientFor(user1Email);
+
+        const missing = await client.polygons
+          .get(polygonId + 1000)
+          .catch(e => e);
+        expect(missing).toBeInstanceOf(NotFoundError);
+        expect(missing).toBeInstanceOf(ApiError);
+        expect(missing.statusCode).toBe(404);
+        expect(missing.message).toBe('Polygon not found');
+
+        await expect(client.admin.sweepJobs()).rejects.toBeInstanceOf(
+          UnauthorizedError,
+        );
+        await expect(
+          client.jobs.create({ type: 'NOT_A_TYPE' as JobType }),
+        ).rejects.toBeInstanceOf(BadRequestError);
+
+        await prisma.userJobQuota.create({
+          data: { user_id: user1Id, max_concurrent_jobs: 0 },
+        });
+        await expect(
+          client.jobs.create({ type: JobType.TEST, inputPayload: { id: 2 } }),
+        ).rejects.toBeInstanceOf(TooManyRequestsError);
+      });
+
+      it('should reject requests when the credentials are invalid', async () => {
+        const client = new ReefGuideApiClient(baseUrl, {
+          email: user1Email,
+          password: 'wrong password',
+        });
+
+        await expect(client.polygons.list()).rejects.toBeInstanceOf(
+          UnauthorizedError,
+        );
+      });
+    });
+
     describe('Authentication', () => {
       describe('POST /api/auth/register', () => {
         it('should register a new user', async () => {
@@ -687,277 +1056,3228 @@ describe('API', () => {
       });
     });
 
-    describe('Job System', () => {
-      let user1Id: number;
-      let jobId: number;
-      let assignmentId: number;
-
-      // Setup before each test
-      beforeEach(async () => {
-        // Get user1's ID
-        const user1 = await prisma.user.findUnique({
-          where: { email: user1Email },
+    describe('Webhooks', () => {
+      type ReceivedWebhook = {
+        headers: http.IncomingHttpHeaders;
+        body: string;
+      };
+
+      let receiver: http.Server;
+      let receiverUrl: string;
+      let received: ReceivedWebhook[];
+      // Status the receiver responds with
+      let responseStatus: number;
+
+      beforeAll(done => {
+        receiver = http.createServer((req, res) => {
+          let body = '';
+          req.setEncoding('utf8');
+          req.on('data', chunk => (body += chunk));
+          req.on('end', () => {
+            received.push({ headers: req.headers, body });
+            res.writeHead(responseStatus).end();
+          });
         });
-        user1Id = user1!.id;
-
-        // Create a test job
-        const job = await prisma.job.create({
-          data: {
-            type: JobType.TEST,
-            status: JobStatus.PENDING,
-            user_id: user1Id,
-            input_payload: {},
-            hash: await new JobService().generateJobHash({
-              payload: {},
-              jobType: 'TEST',
-            }),
-          },
+        receiver.listen(0, () => {
+          const { port } = receiver.address() as AddressInfo;
+          receiverUrl = `http://localhost:${port}/hook`;
+          done();
         });
-        jobId = job.id;
+      });
 
-        // Create a test assignment
-        const assignment = await prisma.jobAssignment.create({
-          data: {
-            job_id: jobId,
-            ecs_task_arn: 'arn:aws:ecs:test',
-            ecs_cluster_arn: 'arn:aws:ecs:cluster:test',
-            expires_at: new Date(Date.now() + 3600000), // 1 hour from now
-            storage_scheme: 'S3',
-            storage_uri: 's3://test-bucket/test-path',
-          },
-        });
-        assignmentId = assignment.id;
+      afterAll(done => {
+        receiver.close(done);
       });
 
-      // Cleanup after all tests
-      afterAll(async () => {
-        await clearDbs();
+      beforeEach(() => {
+        received = [];
+        responseStatus = 200;
+        // The receiver listens on localhost
+        config.webhooks.allowPrivateTargets = true;
       });
 
-      describe('Job Management', () => {
-        describe('POST /api/jobs', () => {
-          it('should create a new job for authenticated user', async () => {
-            const res = await authRequest(app, 'user1')
-              .post('/api/jobs')
-              .send({
-                type: JobType.TEST,
-                inputPayload: {
-                  id: randomInt(10000),
-                },
-              })
-              // This is cached
-              .expect(200);
+      afterEach(() => {
+        config.webhooks.allowPrivateTargets = false;
+        config.isDevelopment = true;
+      });
 
-            expect(res.body).toHaveProperty('jobId');
+      const subscribe = async (
+        events: WebhookEvent[] = [],
+        tokenType: TokenType = 'user1',
+      ) => {
+        const res = await authRequest(app, tokenType)
+          .post('/api/webhooks')
+          .send({ url: receiverUrl, events })
+          .expect(200);
+        return res.body as CreateWebhookResponse;
+      };
+
+      const dispatch = () =>
+        authRequest(app, 'admin').post('/api/admin/webhooks/dispatch');
+
+      describe('POST /api/webhooks', () => {
+        it('should create a webhook and return its secret once', async () => {
+          const { webhook, secret } = await subscribe([
+            WebhookEvent.JOB_SUCCEEDED,
+          ]);
+          expect(secret).toEqual(expect.any(String));
+          expect(webhook).toMatchObject({
+            user_id: user1Id,
+            url: receiverUrl,
+            events: [WebhookEvent.JOB_SUCCEEDED],
+            active: true,
           });
+          expect(webhook).not.toHaveProperty('secret');
 
-          it('should return 400 for invalid job type', async () => {
-            await authRequest(app, 'user1')
-              .post('/api/jobs')
-              .send({
-                type: 'INVALID_TYPE',
-                inputPayload: {
-                  id: randomInt(10000),
-                },
-              })
-              .expect(400);
-          });
+          const res = await authRequest(app, 'user1')
+            .get(`/api/webhooks/${webhook.id}`)
+            .expect(200);
+          expect(res.body.webhook).not.toHaveProperty('secret');
+        });
 
-          it('should return 400 for invalid input payload schema', async () => {
-            await authRequest(app, 'user1')
-              .post('/api/jobs')
-              .send({
-                type: JobType.TEST,
-                inputPayload: {
-                  invalidField: true,
-                },
-              })
-              .expect(400);
-          });
+        it('should reject non http(s) URLs', async () => {
+          await authRequest(app, 'user1')
+            .post('/api/webhooks')
+            .send({ url: 'ftp://example.com/hook' })
+            .expect(400);
         });
 
-        describe('GET /api/jobs/poll', () => {
-          it('should return available jobs', async () => {
+        it('should reject loopback, private and link-local IP URLs', async () => {
+          config.webhooks.allowPrivateTargets = false;
+          const urls = [
+            'http://127.0.0.1/hook',
+            'http://10.1.2.3/hook',
+            'http://172.16.0.1/hook',
+            'http://192.168.1.1/hook',
+            'http://169.254.169.254/latest/meta-data',
+            'http://0.0.0.0/hook',
+            'http://[::1]/hook',
+            'http://[fd00::1]/hook',
+            'http://[fe80::1]/hook',
+            'http://[::ffff:127.0.0.1]/hook',
+          ];
+          for (const url of urls) {
             await authRequest(app, 'user1')
-              .post('/api/jobs')
-              .send({
-                type: JobType.TEST,
-                inputPayload: {
-                  id: randomInt(10000),
-                },
-              })
-              .expect(200);
+              .post('/api/webhooks')
+              .send({ url })
+              .expect(400);
+          }
 
-            const res = await authRequest(app, 'user1')
-              .get('/api/jobs/poll')
-              .expect(200);
+          const { webhook } = await subscribe();
+          await authRequest(app, 'user1')
+            .put(`/api/webhooks/${webhook.id}`)
+            .send({ url: 'http://169.254.169.254/latest/meta-data' })
+            .expect(400);
+        });
 
-            expect(res.body.jobs).toBeInstanceOf(Array);
-            expect(res.body.jobs.length).toBeGreaterThan(0);
-            expect(res.body.jobs[0]).toHaveProperty(
-              'status',
-              JobStatus.PENDING,
-            );
-          });
+        it('should require https outside development', async () => {
+          config.isDevelopment = false;
+          await authRequest(app, 'user1')
+            .post('/api/webhooks')
+            .send({ url: 'http://example.com/hook' })
+            .expect(400);
+          await authRequest(app, 'user1')
+            .post('/api/webhooks')
+            .send({ url: 'https://example.com/hook' })
+            .expect(200);
+        });
+      });
 
-          it('should filter by job type', async () => {
-            // TODO can't really test this properly yet! Only one type
-            await authRequest(app, 'user1')
-              .post('/api/jobs')
-              .send({
-                type: JobType.TEST,
-                inputPayload: {
-                  id: randomInt(10000),
-                },
-              })
-              .expect(200);
+      describe('GET /api/webhooks/:id', () => {
+        it('should return 401 if user is not the owner', async () => {
+          const { webhook } = await subscribe();
+          await authRequest(app, 'user2')
+            .get(`/api/webhooks/${webhook.id}`)
+            .expect(401);
+          await authRequest(app, 'user2')
+            .get(`/api/webhooks/${webhook.id}/deliveries`)
+            .expect(401);
+        });
 
-            const res = await authRequest(app, 'user1')
-              .get('/api/jobs/poll')
-              .query({ jobType: JobType.TEST })
-              .expect(200);
+        it('should return 404 for non-existent webhook', async () => {
+          await authRequest(app, 'user1').get('/api/webhooks/9999').expect(404);
+        });
+      });
 
-            expect(res.body.jobs).toBeInstanceOf(Array);
-            expect(
-              res.body.jobs.every((job: any) => job.type === JobType.TEST),
-            ).toBe(true);
+      describe('Deliveries', () => {
+        it('should deliver a signed event when a job succeeds', async () => {
+          const { webhook, secret } = await subscribe();
+          const job = await prisma.job.create({
+            data: {
+              type: JobType.TEST,
+              status: JobStatus.IN_PROGRESS,
+              user_id: user1Id,
+              input_payload: {},
+              hash: 'webhook-test',
+            },
+          });
+          const assignment = await prisma.jobAssignment.create({
+            data: {
+              job_id: job.id,
+              ecs_task_arn: 'arn:aws:ecs:test',
+              ecs_cluster_arn: 'arn:aws:ecs:cluster:test',
+              expires_at: new Date(Date.now() + 3600000),
+              storage_scheme: 'S3',
+              storage_uri: 's3://test-bucket/test-path',
+            },
           });
 
-          it('should not return jobs with valid assignments', async () => {
-            // Update job status to IN_PROGRESS
-            await prisma.job.update({
-              where: { id: jobId },
-              data: { status: JobStatus.IN_PROGRESS },
-            });
+          await authRequest(app, 'admin')
+            .post(`/api/jobs/assignments/${assignment.id}/result`)
+            .send({ status: JobStatus.SUCCEEDED, resultPayload: {} })
+            .expect(200);
 
-            const res = await authRequest(app, 'user1')
-              .get('/api/jobs/poll')
-              .expect(200);
-            expect(
-              res.body.jobs.find((job: any) => job.id === jobId),
-            ).toBeUndefined();
+          const res = await dispatch().expect(200);
+          expect(res.body).toEqual({ attempted: 1, succeeded: 1 });
+
+          expect(received).toHaveLength(1);
+          const { headers, body } = received[0];
+          expect(headers['x-reefguide-event']).toBe(WebhookEvent.JOB_SUCCEEDED);
+          const timestamp = Number(headers['x-reefguide-timestamp']);
+          expect(headers['x-reefguide-signature']).toBe(
+            signWebhookBody(secret, timestamp, body),
+          );
+          expect(JSON.parse(body)).toMatchObject({
+            event: WebhookEvent.JOB_SUCCEEDED,
+            data: { job_id: job.id, status: JobStatus.SUCCEEDED },
+          });
+
+          const log = await authRequest(app, 'user1')
+            .get(`/api/webhooks/${webhook.id}/deliveries`)
+            .expect(200);
+          expect(log.body.deliveries).toHaveLength(1);
+          expect(log.body.deliveries[0]).toMatchObject({
+            status: WebhookDeliveryStatus.SUCCEEDED,
+            attempts: 1,
+            response_status: 200,
           });
         });
 
-        describe('POST /api/jobs/assign', () => {
-          it('should assign a job to a worker', async () => {
-            const newJob = await authRequest(app, 'user1')
-              .post('/api/jobs')
-              .send({
-                type: JobType.TEST,
-                inputPayload: {
-                  id: randomInt(10000),
+        it('should schedule a retry with backoff when delivery fails', async () => {
+          const { webhook } = await subscribe();
+          responseStatus = 500;
+
+          await authRequest(app, 'user1')
+            .put(`/api/polygons/${polygonId}`)
+            .send({
+              polygon: {
+                type: 'Polygon',
+                coordinates: [
+                  [
+                    [0, 0],
+                    [1, 0],
+                    [1, 1],
+                    [0, 0],
+                  ],
+                ],
+              },
+            })
+            .expect(200);
+
+          const before = Date.now();
+          const res = await dispatch().expect(200);
+          expect(res.body).toEqual({ attempted: 1, succeeded: 0 });
+          expect(received).toHaveLength(1);
+
+          const [delivery] = await prisma.webhookDelivery.findMany({
+            where: { subscription_id: webhook.id },
+          });
+          expect(delivery).toMatchObject({
+            event: WebhookEvent.POLYGON_UPDATED,
+            status: WebhookDeliveryStatus.PENDING,
+            attempts: 1,
+            response_status: 500,
+          });
+          expect(delivery.last_error).toContain('500');
+          expect(delivery.next_attempt_at.getTime()).toBeGreaterThan(
+            before + 25000,
+          );
+
+          // Not due again yet
+          const again = await dispatch().expect(200);
+          expect(again.body.attempted).toBe(0);
+        });
+
+        it('should refuse to deliver to hosts resolving to private addresses', async () => {
+          const { webhook } = await subscribe();
+          config.webhooks.allowPrivateTargets = false;
+          await new WebhookService().enqueue(
+            prisma,
+            user1Id,
+            WebhookEvent.NOTE_CREATED,
+            { note_id: noteId },
+          );
+
+          const res = await dispatch().expect(200);
+          expect(res.body).toEqual({ attempted: 1, succeeded: 0 });
+          expect(received).toHaveLength(0);
+
+          const [delivery] = await prisma.webhookDelivery.findMany({
+            where: { subscription_id: webhook.id },
+          });
+          expect(delivery).toMatchObject({
+            status: WebhookDeliveryStatus.PENDING,
+            attempts: 1,
+            response_status: null,
+          });
+          expect(delivery.last_error).toContain('disallowed address');
+        });
+
+        it('should give up after the maximum number of attempts', async () => {
+          const { webhook } = await subscribe();
+          responseStatus = 500;
+          await new WebhookService().enqueue(
+            prisma,
+            user1Id,
+            WebhookEvent.NOTE_CREATED,
+            { note_id: noteId },
+          );
+          await prisma.webhookDelivery.updateMany({
+            where: { subscription_id: webhook.id },
+            data: { attempts: WEBHOOK_MAX_ATTEMPTS - 1 },
+          });
+
+          await dispatch().expect(200);
+
+          const [delivery] = await prisma.webhookDelivery.findMany({
+            where: { subscription_id: webhook.id },
+          });
+          expect(delivery.status).toBe(WebhookDeliveryStatus.FAILED);
+          expect(delivery.attempts).toBe(WEBHOOK_MAX_ATTEMPTS);
+        });
+
+        it('should only queue subscribed events for the owner', async () => {
+          const { webhook: user1Hook } = await subscribe([
+            WebhookEvent.NOTE_CREATED,
+          ]);
+          const { webhook: user2Hook } = await subscribe([], 'user2');
+
+          await authRequest(app, 'user1')
+            .post('/api/notes')
+            .send({ content: 'New note', polygonId })
+            .expect(200);
+          await authRequest(app, 'user1')
+            .put(`/api/notes/${noteId}`)
+            .send({ content: 'Edited' })
+            .expect(200);
+
+          const user1Deliveries = await prisma.webhookDelivery.findMany({
+            where: { subscription_id: user1Hook.id },
+          });
+          expect(user1Deliveries.map(d => d.event)).toEqual([
+            WebhookEvent.NOTE_CREATED,
+          ]);
+          expect(
+            await prisma.webhookDelivery.count({
+              where: { subscription_id: user2Hook.id },
+            }),
+          ).toBe(0);
+        });
+
+        it('should not queue deliveries for inactive webhooks', async () => {
+          const { webhook } = await subscribe();
+          await authRequest(app, 'user1')
+            .put(`/api/webhooks/${webhook.id}`)
+            .send({ active: false })
+            .expect(200);
+
+          await authRequest(app, 'user1')
+            .post('/api/polygons')
+            .send({
+              polygon: {
+                type: 'Polygon',
+                coordinates: [
+                  [
+                    [0, 0],
+                    [1, 0],
+                    [1, 1],
+                    [0, 0],
+                  ],
+                ],
+              },
+            })
+            .expect(200);
+
+          expect(
+            await prisma.webhookDelivery.count({
+              where: { subscription_id: webhook.id },
+            }),
+          ).toBe(0);
+        });
+      });
+    });
+
+    describe('Schedules', () => {
+      const createSchedule = (
+        body: object = {},
+        tokenType: TokenType = 'user1',
+      ) =>
+        authRequest(app, tokenType)
+          .post('/api/schedules')
+          .send({
+            name: 'Nightly test',
+            cron: '0 2 * * *',
+            type: JobType.TEST,
+            inputPayload: { id: 1 },
+            ...body,
+          });
+
+      const runSchedules = () =>
+        authRequest(app, 'admin').post('/api/admin/schedules/run').expect(200);
+
+      // Makes a schedule due now
+      const makeDue = (id: number) =>
+        prisma.jobSchedule.update({
+          where: { id },
+          data: { next_run_at: new Date(Date.now() - 1000) },
+        });
+
+      describe('POST /api/schedules', () => {
+        it('should create a schedule due at its next cron time', async () => {
+          const res = await createSchedule({
+            timezone: 'Australia/Brisbane',
+          }).expect(200);
+          expect(res.body.schedule).toMatchObject({
+            user_id: user1Id,
+            name: 'Nightly test',
+            cron: '0 2 * * *',
+            timezone: 'Australia/Brisbane',
+            type: JobType.TEST,
+            input_payload: { id: 1 },
+            paused: false,
+            last_run_at: null,
+          });
+          // 2am in Brisbane (UTC+10) is 4pm UTC
+          const nextRun = new Date(res.body.schedule.next_run_at);
+          expect(nextRun.getTime()).toBeGreaterThan(Date.now());
+          expect(nextRun.getUTCHours()).toBe(16);
+          expect(nextRun.getUTCMinutes()).toBe(0);
+        });
+
+        it('should default to UTC', async () => {
+          const res = await createSchedule().expect(200);
+          expect(res.body.schedule.timezone).toBe('UTC');
+          expect(new Date(res.body.schedule.next_run_at).getUTCHours()).toBe(2);
+        });
+
+        it('should reject invalid cron expressions', async () => {
+          await createSchedule({ cron: 'every night' }).expect(400);
+          await createSchedule({ cron: '0 99 * * *' }).expect(400);
+          // Seconds fields aren't allowed
+          await createSchedule({ cron: '*/5 * * * * *' }).expect(400);
+        });
+
+        it('should reject invalid timezones', async () => {
+          await createSchedule({ timezone: 'Mars/Olympus_Mons' }).expect(400);
+        });
+
+        it('should validate the input payload', async () => {
+          await createSchedule({ inputPayload: { invalidField: true } }).expect(
+            400,
+          );
+        });
+      });
+
+      describe('GET /api/schedules', () => {
+        it('should only list the users own schedules', async () => {
+          await createSchedule().expect(200);
+          await createSchedule({}, 'user2').expect(200);
+
+          const res = await authRequest(app, 'user1')
+            .get('/api/schedules')
+            .expect(200);
+          expect(res.body.schedules).toHaveLength(1);
+          expect(res.body.schedules[0].user_id).toBe(user1Id);
+
+          const adminRes = await authRequest(app, 'admin')
+            .get('/api/schedules')
+            .expect(200);
+          expect(adminRes.body.schedules).toHaveLength(2);
+        });
+
+        it("should not allow access to other users' schedules", async () => {
+          const { body } = await createSchedule().expect(200);
+          const id = body.schedule.id;
+
+          await authRequest(app, 'user2')
+            .get(`/api/schedules/${id}`)
+            .expect(401);
+          await authRequest(app, 'user2')
+            .put(`/api/schedules/${id}`)
+            .send({ name: 'Mine now' })
+            .expect(401);
+          await authRequest(app, 'user2')
+            .delete(`/api/schedules/${id}`)
+            .expect(401);
+          await authRequest(app, 'admin')
+            .get(`/api/schedules/${id}`)
+            .expect(200);
+        });
+
+        it('should return 404 for non-existent schedule', async () => {
+          await authRequest(app, 'user1')
+            .get('/api/schedules/9999')
+            .expect(404);
+        });
+      });
+
+      describe('PUT /api/schedules/:id', () => {
+        it('should reschedule when the cron expression changes', async () => {
+          const { body } = await createSchedule().expect(200);
+
+          const res = await authRequest(app, 'user1')
+            .put(`/api/schedules/${body.schedule.id}`)
+            .send({ name: 'Daily test', cron: '30 5 * * *' })
+            .expect(200);
+          expect(res.body.schedule.name).toBe('Daily test');
+          const nextRun = new Date(res.body.schedule.next_run_at);
+          expect(nextRun.getUTCHours()).toBe(5);
+          expect(nextRun.getUTCMinutes()).toBe(30);
+        });
+
+        it('should validate changes', async () => {
+          const { body } = await createSchedule().expect(200);
+          const id = body.schedule.id;
+
+          await authRequest(app, 'user1')
+            .put(`/api/schedules/${id}`)
+            .send({ cron: 'never' })
+            .expect(400);
+          await authRequest(app, 'user1')
+            .put(`/api/schedules/${id}`)
+            .send({ inputPayload: { invalidField: true } })
+            .expect(400);
+        });
+      });
+
+      describe('DELETE /api/schedules/:id', () => {
+        it('should delete the schedule but keep its jobs', async () => {
+          const { body } = await createSchedule().expect(200);
+          const id = body.schedule.id;
+          await makeDue(id);
+          await runSchedules();
+
+          await authRequest(app, 'user1')
+            .delete(`/api/schedules/${id}`)
+            .expect(204);
+          await authRequest(app, 'user1')
+            .get(`/api/schedules/${id}`)
+            .expect(404);
+          expect(await prisma.jobScheduleRun.count()).toBe(0);
+          expect(await prisma.jobRequest.count()).toBe(1);
+        });
+      });
+
+      describe('Running schedules', () => {
+        it('should request a job for due schedules and record the run', async () => {
+          const { body } = await createSchedule().expect(200);
+          const id = body.schedule.id;
+          // Not due yet
+          expect((await runSchedules()).body).toEqual({ ran: 0, failed: 0 });
+
+          await makeDue(id);
+          expect((await runSchedules()).body).toEqual({ ran: 1, failed: 0 });
+          // Each run happens once
+          expect((await runSchedules()).body).toEqual({ ran: 0, failed: 0 });
+
+          const schedule = await authRequest(app, 'user1')
+            .get(`/api/schedules/${id}`)
+            .expect(200);
+          expect(schedule.body.schedule.last_run_at).not.toBeNull();
+          expect(
+            new Date(schedule.body.schedule.next_run_at).getTime(),
+          ).toBeGreaterThan(Date.now());
+
+          const res = await authRequest(app, 'user1')
+            .get(`/api/schedules/${id}/runs`)
+            .expect(200);
+          expect(res.body.nextCursor).toBeNull();
+          expect(res.body.runs).toHaveLength(1);
+          const [run] = res.body.runs;
+          expect(run.error).toBeNull();
+          expect(run.job_request).toMatchObject({
+            user_id: user1Id,
+            type: JobType.TEST,
+            cache_hit: false,
+          });
+          expect(run.job_request.job).toMatchObject({
+            type: JobType.TEST,
+            status: JobStatus.PENDING,
+            input_payload: { id: 1 },
+          });
+        });
+
+        it('should respect the job cache', async () => {
+          const { body } = await createSchedule().expect(200);
+          const id = body.schedule.id;
+          await makeDue(id);
+          await runSchedules();
+          await makeDue(id);
+          await runSchedules();
+
+          const res = await authRequest(app, 'user1')
+            .get(`/api/schedules/${id}/runs`)
+            .expect(200);
+          expect(res.body.runs).toHaveLength(2);
+          const [second, first] = res.body.runs;
+          expect(second.job_request.cache_hit).toBe(true);
+          expect(second.job_request.job_id).toBe(first.job_request.job_id);
+          expect(await prisma.job.count()).toBe(1);
+        });
+
+        it('should record failed job requests', async () => {
+          await authRequest(app, 'admin')
+            .put(`/api/admin/users/${user1Id}/quota`)
+            .send({ dailyJobLimits: { TEST: 0 } })
+            .expect(200);
+          const { body } = await createSchedule().expect(200);
+          await makeDue(body.schedule.id);
+
+          expect((await runSchedules()).body).toEqual({ ran: 0, failed: 1 });
+          const res = await authRequest(app, 'user1')
+            .get(`/api/schedules/${body.schedule.id}/runs`)
+            .expect(200);
+          expect(res.body.runs[0].job_request).toBeNull();
+          expect(res.body.runs[0].error).toMatch(
+            /Daily TEST job limit exceeded/,
+          );
+        });
+
+        it('should not run paused schedules', async () => {
+          const { body } = await createSchedule().expect(200);
+          const id = body.schedule.id;
+
+          const paused = await authRequest(app, 'user1')
+            .post(`/api/schedules/${id}/pause`)
+            .expect(200);
+          expect(paused.body.schedule.paused).toBe(true);
+          await makeDue(id);
+          expect((await runSchedules()).body).toEqual({ ran: 0, failed: 0 });
+
+          // Runs missed while paused are skipped
+          const resumed = await authRequest(app, 'user1')
+            .post(`/api/schedules/${id}/resume`)
+            .expect(200);
+          expect(resumed.body.schedule.paused).toBe(false);
+          expect(
+            new Date(resumed.body.schedule.next_run_at).getTime(),
+          ).toBeGreaterThan(Date.now());
+          expect((await runSchedules()).body).toEqual({ ran: 0, failed: 0 });
+        });
+
+        it('should paginate the run history', async () => {
+          const { body } = await createSchedule().expect(200);
+          const id = body.schedule.id;
+          for (let i = 0; i < 3; i++) {
+            await makeDue(id);
+            await runSchedules();
+          }
+
+          const first = await authRequest(app, 'user1')
+            .get(`/api/schedules/${id}/runs?limit=2`)
+            .expect(200);
+          expect(first.body.runs).toHaveLength(2);
+          expect(first.body.nextCursor).toEqual(expect.any(String));
+          const second = await authRequest(app, 'user1')
+            .get(
+              `/api/schedules/${id}/runs?limit=2&cursor=${first.body.nextCursor}`,
+            )
+            .expect(200);
+          expect(second.body.runs).toHaveLength(1);
+          expect(second.body.nextCursor).toBeNull();
+          expect(second.body.runs[0].id).toBeLessThan(first.body.runs[1].id);
+        });
+
+        it('should only allow admins to run schedules', async () => {
+          await authRequest(app, 'user1')
+            .post('/api/admin/schedules/run')
+            .expect(401);
+        });
+      });
+    });
+
+    describe('Workflows', () => {
+      const regionalPayload = {
+        region: 'Cairns-Cooktown',
+        reef_type: 'slopes',
+      };
+      const suitabilityPayload = (x_dist: number) => ({
+        ...regionalPayload,
+        x_dist,
+        y_dist: 50,
+      });
+
+      const createWorkflow = (
+        steps: object[],
+        tokenType: TokenType = 'user1',
+      ) =>
+        authRequest(app, tokenType)
+          .post('/api/workflows')
+          .send({ name: 'Regional then suitability', steps });
+
+      // Claims the next job of a type as a worker and submits its result
+      const completeNextJob = async (
+        jobType: JobType,
+        status: JobStatus,
+        resultPayload?: object,
+      ) => {
+        const claim = await authRequest(app, 'admin')
+          .post('/api/jobs/claim')
+          .send({
+            jobType,
+            ecsTaskArn: 'arn:aws:ecs:test',
+            ecsClusterArn: 'arn:aws:ecs:cluster:test',
+          })
+          .expect(200);
+        expect(claim.body.job).not.toBeNull();
+        await authRequest(app, 'admin')
+          .post(`/api/jobs/assignments/${claim.body.assignment.id}/result`)
+          .send({ status, resultPayload })
+          .expect(200);
+        return claim.body.assignment;
+      };
+
+      const stepJob = (workflow: any, key: string) =>
+        workflow.steps.find((step: any) => step.key === key).job;
+
+      const chainSteps = [
+        {
+          key: 'regional',
+          type: JobType.REGIONAL_ASSESSMENT,
+          inputPayload: regionalPayload,
+        },
+        {
+          key: 'suitability',
+          type: JobType.SUITABILITY_ASSESSMENT,
+          inputPayload: suitabilityPayload(100),
+          dependsOn: ['regional'],
+        },
+        {
+          key: 'suitability-large',
+          type: JobType.SUITABILITY_ASSESSMENT,
+          inputPayload: suitabilityPayload(500),
+          dependsOn: ['suitability'],
+        },
+      ];
+
+      describe('POST /api/workflows', () => {
+        it('should block dependent jobs until their dependencies succeed', async () => {
+          const res = await createWorkflow(chainSteps).expect(200);
+          const { workflow } = res.body;
+
+          expect(workflow.status).toBe('RUNNING');
+          expect(stepJob(workflow, 'regional').status).toBe(JobStatus.PENDING);
+          expect(stepJob(workflow, 'suitability').status).toBe(
+            JobStatus.BLOCKED,
+          );
+          expect(workflow.steps[1].depends_on).toEqual(['regional']);
+
+          // Blocked jobs aren't offered to workers
+          const poll = await authRequest(app, 'admin')
+            .get('/api/jobs/poll')
+            .expect(200);
+          expect(poll.body.jobs.map((job: any) => job.id)).toEqual([
+            stepJob(workflow, 'regional').id,
+          ]);
+        });
+
+        it('should release dependents with their dependency results', async () => {
+          const res = await createWorkflow(chainSteps).expect(200);
+          const workflowId = res.body.workflow.id;
+
+          const assignment = await completeNextJob(
+            JobType.REGIONAL_ASSESSMENT,
+            JobStatus.SUCCEEDED,
+            { cog_path: 'regional.tiff' },
+          );
+
+          let { body } = await authRequest(app, 'user1')
+            .get(`/api/workflows/${workflowId}`)
+            .expect(200);
+          const suitability = stepJob(body.workflow, 'suitability');
+          expect(suitability.status).toBe(JobStatus.PENDING);
+          expect(suitability.dependency_results).toEqual([
+            {
+              job_id: stepJob(body.workflow, 'regional').id,
+              type: JobType.REGIONAL_ASSESSMENT,
+              result_payload: { cog_path: 'regional.tiff' },
+              storage_scheme: 'S3',
+              storage_uri: assignment.storage_uri,
+            },
+          ]);
+          expect(stepJob(body.workflow, 'suitability-large').status).toBe(
+            JobStatus.BLOCKED,
+          );
+
+          await completeNextJob(
+            JobType.SUITABILITY_ASSESSMENT,
+            JobStatus.SUCCEEDED,
+            { geojson_path: 'sites.geojson' },
+          );
+          await completeNextJob(
+            JobType.SUITABILITY_ASSESSMENT,
+            JobStatus.SUCCEEDED,
+            { geojson_path: 'sites.geojson' },
+          );
+
+          ({ body } = await authRequest(app, 'user1')
+            .get(`/api/workflows/${workflowId}`)
+            .expect(200));
+          expect(body.workflow.status).toBe('SUCCEEDED');
+        });
+
+        it('should fail all dependents when a dependency fails', async () => {
+          const res = await createWorkflow(chainSteps).expect(200);
+          const workflowId = res.body.workflow.id;
+
+          await completeNextJob(JobType.REGIONAL_ASSESSMENT, JobStatus.FAILED);
+
+          const { body } = await authRequest(app, 'user1')
+            .get(`/api/workflows/${workflowId}`)
+            .expect(200);
+          expect(body.workflow.status).toBe('FAILED');
+          const regionalId = stepJob(body.workflow, 'regional').id;
+          expect(stepJob(body.workflow, 'suitability')).toMatchObject({
+            status: JobStatus.FAILED,
+            failure_reason: `Dependency job ${regionalId} ended FAILED`,
+          });
+          expect(stepJob(body.workflow, 'suitability-large').status).toBe(
+            JobStatus.FAILED,
+          );
+        });
+
+        it('should fail dependents when a blocked job is cancelled', async () => {
+          const res = await createWorkflow(chainSteps).expect(200);
+          const suitabilityId = stepJob(res.body.workflow, 'suitability').id;
+
+          await authRequest(app, 'user1')
+            .post(`/api/jobs/${suitabilityId}/cancel`)
+            .expect(200);
+
+          const { body } = await authRequest(app, 'user1')
+            .get(`/api/workflows/${res.body.workflow.id}`)
+            .expect(200);
+          expect(stepJob(body.workflow, 'regional').status).toBe(
+            JobStatus.PENDING,
+          );
+          expect(stepJob(body.workflow, 'suitability-large').status).toBe(
+            JobStatus.FAILED,
+          );
+        });
+
+        it('should start dependents of already succeeded jobs straight away', async () => {
+          await createWorkflow(chainSteps.slice(0, 1)).expect(200);
+          await completeNextJob(
+            JobType.REGIONAL_ASSESSMENT,
+            JobStatus.SUCCEEDED,
+            { cog_path: 'regional.tiff' },
+          );
+
+          const res = await createWorkflow(chainSteps.slice(0, 2)).expect(200);
+          expect(res.body.workflow.steps[0].cache_hit).toBe(true);
+          expect(stepJob(res.body.workflow, 'suitability').status).toBe(
+            JobStatus.PENDING,
+          );
+        });
+
+        it('should return 400 for a dependency cycle', async () => {
+          await createWorkflow([
+            { ...chainSteps[1], dependsOn: ['suitability-large'] },
+            chainSteps[2],
+          ]).expect(400);
+          expect(await prisma.job.count()).toBe(0);
+        });
+
+        it('should return 400 for an unknown dependency', async () => {
+          await createWorkflow([
+            { ...chainSteps[1], dependsOn: ['missing'] },
+          ]).expect(400);
+        });
+      });
+
+      describe('GET /api/workflows/:id', () => {
+        it('should return 401 if user is not the owner', async () => {
+          const res = await createWorkflow(chainSteps).expect(200);
+          await authRequest(app, 'user2')
+            .get(`/api/workflows/${res.body.workflow.id}`)
+            .expect(401);
+          await authRequest(app, 'admin')
+            .get(`/api/workflows/${res.body.workflow.id}`)
+            .expect(200);
+        });
+
+        it('should return 404 for non-existent workflow', async () => {
+          await authRequest(app, 'user1')
+            .get('/api/workflows/9999')
+            .expect(404);
+        });
+      });
+    });
+
+    describe('Job batches', () => {
+      const basePayload = {
+        region: 'Cairns-Cooktown',
+        reef_type: 'slopes',
+        x_dist: 100,
+        y_dist: 50,
+      };
+
+      const createBatch = (axes: object) =>
+        authRequest(app, 'user1').post('/api/jobs/batch').send({
+          type: JobType.SUITABILITY_ASSESSMENT,
+          basePayload,
+          axes,
+        });
+
+      describe('POST /api/jobs/batch', () => {
+        it('should count the new jobs against the daily limit', async () => {
+          await prisma.userJobQuota.create({
+            data: {
+              user_id: user1Id,
+              daily_job_limits: { [JobType.SUITABILITY_ASSESSMENT]: 5 },
+            },
+          });
+
+          const res = await createBatch({
+            depth_min: [-10, -5],
+            slope_max: { start: 10, stop: 20, step: 5 },
+          }).expect(429);
+          expect(res.body.message).toBe(
+            'Daily SUITABILITY_ASSESSMENT job limit exceeded: 6 new job(s) requested but only 5 of 5 remaining in the last 24 hours',
+          );
+          expect(await prisma.jobBatch.count()).toBe(0);
+
+          // Repeated values share a job
+          await createBatch({ depth_min: [-10, -10, -5] }).expect(200);
+        });
+
+        it('should create a job for every combination of the axes', async () => {
+          const res = await createBatch({
+            depth_min: [-10, -5],
+            slope_max: { start: 10, stop: 20, step: 5 },
+          }).expect(200);
+
+          const { batch, errors } = res.body;
+          expect(errors).toEqual([]);
+          expect(batch).toMatchObject({
+            user_id: user1Id,
+            status: 'RUNNING',
+            total: 6,
+            counts: { PENDING: 6 },
+          });
+          expect(batch.variants.map((v: any) => v.values)).toEqual([
+            { depth_min: -10, slope_max: 10 },
+            { depth_min: -10, slope_max: 15 },
+            { depth_min: -10, slope_max: 20 },
+            { depth_min: -5, slope_max: 10 },
+            { depth_min: -5, slope_max: 15 },
+            { depth_min: -5, slope_max: 20 },
+          ]);
+
+          const job = await prisma.job.findUniqueOrThrow({
+            where: { id: batch.variants[4].job_id },
+          });
+          expect(job.input_payload).toEqual({
+            ...basePayload,
+            depth_min: -5,
+            slope_max: 15,
+          });
+        });
+
+        it('should report invalid variants and create the rest', async () => {
+          const res = await createBatch({ threshold: [50, 'high'] }).expect(
+            200,
+          );
+
+          expect(res.body.batch.total).toBe(1);
+          expect(res.body.errors).toHaveLength(1);
+          expect(res.body.errors[0]).toMatchObject({
+            index: 1,
+            values: { threshold: 'high' },
+          });
+          expect(res.body.errors[0].message).toContain('threshold');
+        });
+
+        it('should reuse cached jobs for matching variants', async () => {
+          const single = await authRequest(app, 'user1')
+            .post('/api/jobs')
+            .send({
+              type: JobType.SUITABILITY_ASSESSMENT,
+              inputPayload: { ...basePayload, depth_min: -10 },
+            })
+            .expect(200);
+
+          const res = await createBatch({ depth_min: [-10, -5] }).expect(200);
+
+          const [cached, fresh] = res.body.batch.variants;
+          expect(cached).toMatchObject({
+            cache_hit: true,
+            job_id: single.body.jobId,
+          });
+          expect(fresh.cache_hit).toBe(false);
+        });
+
+        it('should re-run variants whose cached job failed', async () => {
+          const single = await authRequest(app, 'user1')
+            .post('/api/jobs')
+            .send({
+              type: JobType.SUITABILITY_ASSESSMENT,
+              inputPayload: { ...basePayload, depth_min: -10 },
+            })
+            .expect(200);
+          await prisma.job.update({
+            where: { id: single.body.jobId },
+            data: { status: JobStatus.FAILED },
+          });
+
+          const res = await createBatch({ depth_min: [-10] }).expect(200);
+
+          const [variant] = res.body.batch.variants;
+          expect(variant.cache_hit).toBe(false);
+          expect(variant.job_id).not.toBe(single.body.jobId);
+          expect(variant.status).toBe(JobStatus.PENDING);
+        });
+
+        it('should return 400 if no variant is valid', async () => {
+          await createBatch({ threshold: ['low', 'high'] }).expect(400);
+          expect(await prisma.jobBatch.count()).toBe(0);
+        });
+
+        it('should return 400 if the sweep is too large', async () => {
+          await createBatch({
+            depth_min: { start: 0, stop: 10, step: 1 },
+            slope_max: { start: 0, stop: 10, step: 1 },
+          }).expect(400);
+        });
+      });
+
+      describe('GET /api/jobs/batches/:id', () => {
+        it('should aggregate the status of the variants', async () => {
+          const res = await createBatch({ depth_min: [-10, -5] }).expect(200);
+          const { id, variants } = res.body.batch;
+
+          await prisma.job.update({
+            where: { id: variants[0].job_id },
+            data: { status: JobStatus.SUCCEEDED },
+          });
+          let batch = await authRequest(app, 'user1')
+            .get(`/api/jobs/batches/${id}`)
+            .expect(200);
+          expect(batch.body.batch).toMatchObject({
+            status: 'RUNNING',
+            counts: { SUCCEEDED: 1, PENDING: 1 },
+          });
+
+          await prisma.job.update({
+            where: { id: variants[1].job_id },
+            data: { status: JobStatus.FAILED },
+          });
+          batch = await authRequest(app, 'user1')
+            .get(`/api/jobs/batches/${id}`)
+            .expect(200);
+          expect(batch.body.batch.status).toBe('FAILED');
+        });
+
+        it('should return 401 if user is not the owner', async () => {
+          const res = await createBatch({ depth_min: [-10] }).expect(200);
+          await authRequest(app, 'user2')
+            .get(`/api/jobs/batches/${res.body.batch.id}`)
+            .expect(401);
+        });
+
+        it('should return 404 for non-existent batch', async () => {
+          await authRequest(app, 'user1')
+            .get('/api/jobs/batches/9999')
+            .expect(404);
+        });
+      });
+    });
+
+    describe('Job System', () => {
+      let user1Id: number;
+      let jobId: number;
+      let assignmentId: number;
+
+      // Setup before each test
+      beforeEach(async () => {
+        // Get user1's ID
+        const user1 = await prisma.user.findUnique({
+          where: { email: user1Email },
+        });
+        user1Id = user1!.id;
+
+        // Create a test job
+        const job = await prisma.job.create({
+          data: {
+            type: JobType.TEST,
+            status: JobStatus.PENDING,
+            user_id: user1Id,
+            input_payload: {},
+            hash: await new JobService().generateJobHash({
+              payload: {},
+              jobType: 'TEST',
+            }),
+          },
+        });
+        jobId = job.id;
+
+        // Create a test assignment
+        const assignment = await prisma.jobAssignment.create({
+          data: {
+            job_id: jobId,
+            ecs_task_arn: 'arn:aws:ecs:test',
+            ecs_cluster_arn: 'arn:aws:ecs:cluster:test',
+            expires_at: new Date(Date.now() + 3600000), // 1 hour from now
+            storage_scheme: 'S3',
+            storage_uri: 's3://test-bucket/test-path',
+          },
+        });
+        assignmentId = assignment.id;
+      });
+
+      // Cleanup after all tests
+      afterAll(async () => {
+        await clearDbs();
+      });
+
+      describe('Job Management', () => {
+        describe('POST /api/jobs', () => {
+          it('should create a new job for authenticated user', async () => {
+            const res = await authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({
+                type: JobType.TEST,
+                inputPayload: {
+                  id: randomInt(10000),
+                },
+              })
+              // This is cached
+              .expect(200);
+
+            expect(res.body).toHaveProperty('jobId');
+          });
+
+          it('should return 400 for invalid job type', async () => {
+            await authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({
+                type: 'INVALID_TYPE',
+                inputPayload: {
+                  id: randomInt(10000),
+                },
+              })
+              .expect(400);
+          });
+
+          it('should return 400 for invalid input payload schema', async () => {
+            await authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({
+                type: JobType.TEST,
+                inputPayload: {
+                  invalidField: true,
+                },
+              })
+              .expect(400);
+          });
+        });
+
+        describe('Job quotas', () => {
+          const createJob = (id: number) =>
+            authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({ type: JobType.TEST, inputPayload: { id } });
+          const setQuota = (body: object) =>
+            authRequest(app, 'admin')
+              .put(`/api/admin/users/${user1Id}/quota`)
+              .send(body);
+
+          it('should limit the users concurrent jobs', async () => {
+            // The job from beforeEach is pending
+            await setQuota({ maxConcurrentJobs: 2 }).expect(200);
+            await createJob(1).expect(200);
+
+            const res = await createJob(2).expect(429);
+            expect(res.body.message).toBe(
+              'Concurrent job limit exceeded: 1 new job(s) requested but only 0 of 2 remaining (2 pending, blocked or in progress)',
+            );
+
+            // Finished jobs don't count
+            await prisma.job.update({
+              where: { id: jobId },
+              data: { status: JobStatus.SUCCEEDED },
+            });
+            await createJob(2).expect(200);
+          });
+
+          it('should limit the users daily jobs of each type', async () => {
+            await setQuota({ dailyJobLimits: { TEST: 1 } }).expect(200);
+            await createJob(1).expect(200);
+
+            const res = await createJob(2).expect(429);
+            expect(res.body.message).toBe(
+              'Daily TEST job limit exceeded: 1 new job(s) requested but only 0 of 1 remaining in the last 24 hours',
+            );
+            // Only limits this user
+            await authRequest(app, 'user2')
+              .post('/api/jobs')
+              .send({ type: JobType.TEST, inputPayload: { id: 2 } })
+              .expect(200);
+          });
+
+          it('should not count cache hits', async () => {
+            await setQuota({
+              maxConcurrentJobs: 2,
+              dailyJobLimits: { TEST: 1 },
+            }).expect(200);
+            await createJob(1).expect(200);
+
+            const cached = await createJob(1).expect(200);
+            expect(cached.body.cached).toBe(true);
+            // Bypassing the cache creates a job
+            await authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({
+                type: JobType.TEST,
+                inputPayload: { id: 1 },
+                forceRefresh: true,
+              })
+              .expect(429);
+          });
+
+          it('should report the users quotas and usage', async () => {
+            await createJob(1).expect(200);
+            await createJob(1).expect(200);
+
+            const res = await authRequest(app, 'user1')
+              .get('/api/jobs/quota')
+              .expect(200);
+            expect(res.body.quota).toEqual({
+              userId: user1Id,
+              concurrent: {
+                limit: config.jobs.maxConcurrentJobsPerUser,
+                used: 2,
+                remaining: config.jobs.maxConcurrentJobsPerUser - 2,
+              },
+              daily: {
+                TEST: { limit: null, used: 1, remaining: null },
+                SUITABILITY_ASSESSMENT: { limit: 200, used: 0, remaining: 200 },
+                REGIONAL_ASSESSMENT: { limit: 20, used: 0, remaining: 20 },
+              },
+              overrides: { maxConcurrentJobs: null, dailyJobLimits: {} },
+            });
+          });
+
+          it('should let admins override and reset a users quotas', async () => {
+            const set = await setQuota({
+              maxConcurrentJobs: 5,
+              dailyJobLimits: { REGIONAL_ASSESSMENT: 50 },
+            }).expect(200);
+            expect(set.body.quota).toMatchObject({
+              concurrent: { limit: 5, used: 1, remaining: 4 },
+              daily: { REGIONAL_ASSESSMENT: { limit: 50 } },
+              overrides: {
+                maxConcurrentJobs: 5,
+                dailyJobLimits: { REGIONAL_ASSESSMENT: 50 },
+              },
+            });
+
+            const got = await authRequest(app, 'admin')
+              .get(`/api/admin/users/${user1Id}/quota`)
+              .expect(200);
+            expect(got.body).toEqual(set.body);
+
+            const cleared = await authRequest(app, 'admin')
+              .delete(`/api/admin/users/${user1Id}/quota`)
+              .expect(200);
+            expect(cleared.body.quota.overrides).toEqual({
+              maxConcurrentJobs: null,
+              dailyJobLimits: {},
+            });
+            expect(cleared.body.quota.daily.REGIONAL_ASSESSMENT.limit).toBe(20);
+          });
+
+          it('should only let admins override quotas', async () => {
+            await authRequest(app, 'user1')
+              .put(`/api/admin/users/${user1Id}/quota`)
+              .send({ maxConcurrentJobs: 1000 })
+              .expect(401);
+          });
+
+          it('should return 404 for a non-existent user', async () => {
+            await authRequest(app, 'admin')
+              .put('/api/admin/users/999999/quota')
+              .send({ maxConcurrentJobs: 1 })
+              .expect(404);
+          });
+
+          it('should return 400 for a negative limit', async () => {
+            await setQuota({ maxConcurrentJobs: -1 }).expect(400);
+          });
+        });
+
+        describe('Job cache', () => {
+          const payload = { id: 424242 };
+          const createJob = (body: object = {}) =>
+            authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({ type: JobType.TEST, inputPayload: payload, ...body });
+
+          // Creates a successful job directly, as if it ran in the past
+          const createSucceededJob = async (
+            type: JobType,
+            inputPayload: object,
+            {
+              datasetVersion,
+              updatedAt,
+            }: { datasetVersion?: string; updatedAt?: Date } = {},
+          ) =>
+            prisma.job.create({
+              data: {
+                type,
+                status: JobStatus.SUCCEEDED,
+                user_id: user1Id,
+                input_payload: inputPayload,
+                hash: await new JobService().generateJobHash({
+                  payload: inputPayload,
+                  jobType: type,
+                  datasetVersion,
+                }),
+                dataset_version: datasetVersion,
+                updated_at: updatedAt,
+              },
+            });
+
+          it('should record the dataset version on new jobs', async () => {
+            const res = await createJob().expect(200);
+            const job = await prisma.job.findUniqueOrThrow({
+              where: { id: res.body.jobId },
+            });
+            expect(job.dataset_version).toBe(config.jobs.datasetVersion);
+          });
+
+          it('should not reuse jobs run against another dataset version', async () => {
+            await createSucceededJob(JobType.TEST, payload, {
+              datasetVersion: 'previous',
+            });
+
+            const res = await createJob().expect(200);
+            expect(res.body.cached).toBe(false);
+          });
+
+          it('should not reuse failed, cancelled or dead lettered jobs', async () => {
+            for (const status of [
+              JobStatus.FAILED,
+              JobStatus.CANCELLED,
+              JobStatus.DEAD_LETTER,
+            ]) {
+              const job = await createSucceededJob(JobType.TEST, payload);
+              await prisma.job.update({
+                where: { id: job.id },
+                data: { status },
+              });
+
+              const res = await createJob().expect(200);
+              expect(res.body.cached).toBe(false);
+              expect(res.body.jobId).not.toBe(job.id);
+              // Leave no reusable job for the next status
+              await prisma.job.update({
+                where: { id: res.body.jobId },
+                data: { status },
+              });
+            }
+          });
+
+          it('should reuse an older job hidden by a newer blocked one', async () => {
+            const pending = await createSucceededJob(JobType.TEST, payload);
+            await prisma.job.update({
+              where: { id: pending.id },
+              data: {
+                status: JobStatus.PENDING,
+                created_at: new Date(Date.now() - 60 * 60 * 1000),
+              },
+            });
+            const blocked = await createSucceededJob(JobType.TEST, payload);
+            await prisma.job.update({
+              where: { id: blocked.id },
+              data: { status: JobStatus.BLOCKED },
+            });
+
+            const res = await createJob().expect(200);
+            expect(res.body.cached).toBe(true);
+            expect(res.body.jobId).toBe(pending.id);
+          });
+
+          it('should not reuse successful jobs older than the cache TTL', async () => {
+            const suitability = {
+              region: 'Cairns-Cooktown',
+              reef_type: 'slopes',
+              x_dist: 100,
+              y_dist: 50,
+            };
+            const jobService = new JobService();
+            const stale = await createSucceededJob(
+              JobType.SUITABILITY_ASSESSMENT,
+              suitability,
+              { updatedAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000) },
+            );
+            expect(
+              await jobService.checkJobCache(
+                suitability,
+                JobType.SUITABILITY_ASSESSMENT,
+              ),
+            ).toBeUndefined();
+
+            await prisma.job.update({
+              where: { id: stale.id },
+              data: { updated_at: new Date() },
+            });
+            expect(
+              await jobService.checkJobCache(
+                suitability,
+                JobType.SUITABILITY_ASSESSMENT,
+              ),
+            ).toMatchObject({ id: stale.id });
+          });
+
+          describe('Canonicalisation', () => {
+            const suitability = {
+              region: 'Cairns-Cooktown',
+              reef_type: 'slopes',
+              depth_min: -10,
+              depth_max: -2,
+              x_dist: 100,
+              y_dist: 50,
+            };
+            const createSuitabilityJob = (inputPayload: object) =>
+              authRequest(app, 'user1')
+                .post('/api/jobs')
+                .send({ type: JobType.SUITABILITY_ASSESSMENT, inputPayload });
+
+            it('should reuse jobs for equivalent payloads', async () => {
+              const first = await createSuitabilityJob(suitability).expect(200);
+              expect(first.body.cached).toBe(false);
+
+              const equivalent = await createSuitabilityJob({
+                ...suitability,
+                // explicit default
+                threshold: 95,
+                // float noise
+                depth_min: -10.0000001,
+                // no-op bound
+                slope_min: 0,
+              }).expect(200);
+              expect(equivalent.body).toMatchObject({
+                jobId: first.body.jobId,
+                cached: true,
+              });
+            });
+
+            it('should not reuse jobs for payloads which differ meaningfully', async () => {
+              const first = await createSuitabilityJob(suitability).expect(200);
+
+              for (const different of [
+                { ...suitability, threshold: 90 },
+                { ...suitability, depth_min: -10.5 },
+                { ...suitability, slope_min: 1 },
+              ]) {
+                const res = await createSuitabilityJob(different).expect(200);
+                expect(res.body.cached).toBe(false);
+                expect(res.body.jobId).not.toBe(first.body.jobId);
+              }
+            });
+
+            it('should keep the payload as submitted', async () => {
+              const payload = { ...suitability, depth_min: -10.0000001 };
+              const res = await createSuitabilityJob(payload).expect(200);
+              const job = await prisma.job.findUniqueOrThrow({
+                where: { id: res.body.jobId },
+              });
+              expect(job.input_payload).toEqual(payload);
+            });
+          });
+
+          it('should skip the cache when forceRefresh is set', async () => {
+            const first = await createJob().expect(200);
+            const cached = await createJob().expect(200);
+            expect(cached.body).toMatchObject({
+              jobId: first.body.jobId,
+              cached: true,
+            });
+
+            const refreshed = await createJob({ forceRefresh: true }).expect(
+              200,
+            );
+            expect(refreshed.body.cached).toBe(false);
+            expect(refreshed.body.jobId).not.toBe(first.body.jobId);
+          });
+
+          it('should let admins invalidate cache entries by hash', async () => {
+            const first = await createJob().expect(200);
+            const { hash } = await prisma.job.findUniqueOrThrow({
+              where: { id: first.body.jobId },
+            });
+
+            const res = await authRequest(app, 'admin')
+              .post('/api/admin/jobs/cache/invalidate')
+              .send({ hash })
+              .expect(200);
+            expect(res.body.invalidated).toBe(1);
+
+            const second = await createJob().expect(200);
+            expect(second.body.cached).toBe(false);
+            expect(second.body.jobId).not.toBe(first.body.jobId);
+          });
+
+          it('should let admins invalidate cache entries by type and version', async () => {
+            await createJob().expect(200);
+
+            const res = await authRequest(app, 'admin')
+              .post('/api/admin/jobs/cache/invalidate')
+              .send({
+                type: JobType.TEST,
+                datasetVersion: config.jobs.datasetVersion,
+              })
+              .expect(200);
+            // The outer beforeEach's job has no version, so isn't matched
+            expect(res.body.invalidated).toBe(1);
+
+            expect((await createJob().expect(200)).body.cached).toBe(false);
+          });
+
+          it('should require at least one invalidation filter', async () => {
+            await authRequest(app, 'admin')
+              .post('/api/admin/jobs/cache/invalidate')
+              .send({})
+              .expect(400);
+          });
+
+          it('should return 401 for non-admin users', async () => {
+            await authRequest(app, 'user1')
+              .post('/api/admin/jobs/cache/invalidate')
+              .send({ type: JobType.TEST })
+              .expect(401);
+          });
+        });
+
+        describe('GET /api/jobs', () => {
+          // Creates user1 jobs one millisecond apart, oldest first, on top of
+          // the job from the outer beforeEach
+          const createJobs = async (count: number) => {
+            const start = Date.now() - 60000;
+            for (let i = 0; i < count; i++) {
+              await prisma.job.create({
+                data: {
+                  type: JobType.TEST,
+                  status: JobStatus.SUCCEEDED,
+                  user_id: user1Id,
+                  input_payload: { id: i },
+                  hash: `list-${i}`,
+                  created_at: new Date(start + i),
+                },
+              });
+            }
+          };
+
+          it('should page through jobs with a cursor', async () => {
+            await createJobs(4);
+
+            const seen: number[] = [];
+            let cursor: string | undefined;
+            do {
+              const res = await authRequest(app, 'user1')
+                .get('/api/jobs')
+                .query({ limit: 2, ...(cursor ? { cursor } : {}) })
+                .expect(200);
+              expect(res.body.total).toBe(5);
+              expect(res.body.jobs.length).toBeLessThanOrEqual(2);
+              seen.push(...res.body.jobs.map((j: { id: number }) => j.id));
+              cursor = res.body.nextCursor ?? undefined;
+            } while (cursor);
+
+            expect(seen).toHaveLength(5);
+            // Newest first
+            expect(seen[0]).toBe(jobId);
+            expect(new Set(seen).size).toBe(5);
+          });
+
+          it('should sort by the requested field and order', async () => {
+            await createJobs(2);
+            const res = await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ sort: 'id', order: 'asc' })
+              .expect(200);
+            const ids = res.body.jobs.map((j: { id: number }) => j.id);
+            expect(ids).toEqual([...ids].sort((a, b) => a - b));
+            expect(res.body.nextCursor).toBeNull();
+          });
+
+          it('should filter by status, type and creation date', async () => {
+            await createJobs(3);
+
+            const pending = await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ status: JobStatus.PENDING, type: JobType.TEST })
+              .expect(200);
+            expect(pending.body.jobs.map((j: { id: number }) => j.id)).toEqual([
+              jobId,
+            ]);
+
+            const old = await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({
+                createdBefore: new Date(Date.now() - 30000).toISOString(),
+              })
+              .expect(200);
+            expect(old.body.total).toBe(3);
+
+            const none = await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ type: JobType.SUITABILITY_ASSESSMENT })
+              .expect(200);
+            expect(none.body).toMatchObject({
+              jobs: [],
+              total: 0,
+              nextCursor: null,
+            });
+          });
+
+          it('should filter jobs by whether they were reused', async () => {
+            const create = () =>
+              authRequest(app, 'user1')
+                .post('/api/jobs')
+                .send({ type: JobType.TEST, inputPayload: { id: 515151 } })
+                .expect(200);
+            const { jobId: reusedId } = (await create()).body;
+            expect((await create()).body.cached).toBe(true);
+
+            const reused = await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ cacheHit: 'true' })
+              .expect(200);
+            expect(reused.body.jobs.map((j: { id: number }) => j.id)).toEqual([
+              reusedId,
+            ]);
+
+            const notReused = await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ cacheHit: 'false' })
+              .expect(200);
+            expect(
+              notReused.body.jobs.map((j: { id: number }) => j.id),
+            ).toEqual([jobId]);
+          });
+
+          it('should omit assignments from the summary view', async () => {
+            const full = await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .expect(200);
+            expect(full.body.jobs[0].assignments).toHaveLength(1);
+
+            const summary = await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ view: 'summary' })
+              .expect(200);
+            expect(summary.body.jobs[0].id).toBe(jobId);
+            expect(summary.body.jobs[0]).not.toHaveProperty('assignments');
+          });
+
+          it('should only list the users own jobs', async () => {
+            const res = await authRequest(app, 'user2')
+              .get('/api/jobs')
+              .expect(200);
+            expect(res.body.total).toBe(0);
+          });
+
+          it('should let admins filter by owner', async () => {
+            const res = await authRequest(app, 'admin')
+              .get('/api/jobs')
+              .query({ userId: user1Id })
+              .expect(200);
+            expect(res.body.total).toBe(1);
+          });
+
+          it('should return 401 if a non-admin filters by another owner', async () => {
+            await authRequest(app, 'user2')
+              .get('/api/jobs')
+              .query({ userId: user1Id })
+              .expect(401);
+          });
+
+          it('should return 400 for an invalid cursor', async () => {
+            await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ cursor: 'not-a-cursor' })
+              .expect(400);
+          });
+
+          it('should return 400 for a cursor from a different sort', async () => {
+            await createJobs(2);
+            const res = await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ limit: 1 })
+              .expect(200);
+            await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ sort: 'priority', cursor: res.body.nextCursor })
+              .expect(400);
+          });
+
+          it('should return 400 for a cursor from a different order', async () => {
+            await createJobs(2);
+            const res = await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ limit: 1 })
+              .expect(200);
+            await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ order: 'asc', cursor: res.body.nextCursor })
+              .expect(400);
+          });
+
+          it('should return 400 for a page size over the maximum', async () => {
+            await authRequest(app, 'user1')
+              .get('/api/jobs')
+              .query({ limit: 1000 })
+              .expect(400);
+          });
+        });
+
+        describe('GET /api/jobs/requests', () => {
+          it('should page through the users job requests', async () => {
+            for (const id of [1, 2, 3]) {
+              await authRequest(app, 'user1')
+                .post('/api/jobs')
+                .send({ type: JobType.TEST, inputPayload: { id } })
+                .expect(200);
+            }
+
+            const first = await authRequest(app, 'user1')
+              .get('/api/jobs/requests')
+              .query({ limit: 2 })
+              .expect(200);
+            expect(first.body.total).toBe(3);
+            expect(first.body.jobRequests).toHaveLength(2);
+            expect(first.body.jobRequests[0].job).toHaveProperty('assignments');
+
+            const second = await authRequest(app, 'user1')
+              .get('/api/jobs/requests')
+              .query({ limit: 2, cursor: first.body.nextCursor })
+              .expect(200);
+            expect(second.body.jobRequests).toHaveLength(1);
+            expect(second.body.nextCursor).toBeNull();
+
+            const other = await authRequest(app, 'user2')
+              .get('/api/jobs/requests')
+              .expect(200);
+            expect(other.body.total).toBe(0);
+          });
+
+          it('should filter by cache hit and omit jobs from summaries', async () => {
+            const create = () =>
+              authRequest(app, 'user1')
+                .post('/api/jobs')
+                .send({ type: JobType.TEST, inputPayload: { id: 525252 } })
+                .expect(200);
+            const { jobId: cachedId } = (await create()).body;
+            await create();
+
+            const res = await authRequest(app, 'user1')
+              .get('/api/jobs/requests')
+              .query({ cacheHit: 'true', view: 'summary' })
+              .expect(200);
+            expect(res.body.jobRequests).toHaveLength(1);
+            expect(res.body.jobRequests[0]).toMatchObject({
+              job_id: cachedId,
+              cache_hit: true,
+            });
+            expect(res.body.jobRequests[0]).not.toHaveProperty('job');
+          });
+        });
+
+        describe('GET /api/jobs/poll', () => {
+          it('should return available jobs', async () => {
+            await authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({
+                type: JobType.TEST,
+                inputPayload: {
+                  id: randomInt(10000),
+                },
+              })
+              .expect(200);
+
+            const res = await authRequest(app, 'user1')
+              .get('/api/jobs/poll')
+              .expect(200);
+
+            expect(res.body.jobs).toBeInstanceOf(Array);
+            expect(res.body.jobs.length).toBeGreaterThan(0);
+            expect(res.body.jobs[0]).toHaveProperty(
+              'status',
+              JobStatus.PENDING,
+            );
+          });
+
+          it('should filter by job type', async () => {
+            // TODO can't really test this properly yet! Only one type
+            await authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({
+                type: JobType.TEST,
+                inputPayload: {
+                  id: randomInt(10000),
+                },
+              })
+              .expect(200);
+
+            const res = await authRequest(app, 'user1')
+              .get('/api/jobs/poll')
+              .query({ jobType: JobType.TEST })
+              .expect(200);
+
+            expect(res.body.jobs).toBeInstanceOf(Array);
+            expect(
+              res.body.jobs.every((job: any) => job.type === JobType.TEST),
+            ).toBe(true);
+          });
+
+          it('should not return jobs with valid assignments', async () => {
+            // Update job status to IN_PROGRESS
+            await prisma.job.update({
+              where: { id: jobId },
+              data: { status: JobStatus.IN_PROGRESS },
+            });
+
+            const res = await authRequest(app, 'user1')
+              .get('/api/jobs/poll')
+              .expect(200);
+            expect(
+              res.body.jobs.find((job: any) => job.id === jobId),
+            ).toBeUndefined();
+          });
+        });
+
+        describe('POST /api/jobs/assign', () => {
+          it('should assign a job to a worker', async () => {
+            const newJob = await authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({
+                type: JobType.TEST,
+                inputPayload: {
+                  id: randomInt(10000),
+                },
+              })
+              .expect(200);
+            const parsedJob = createJobResponseSchema.parse(newJob.body);
+            const res = await authRequest(app, 'user1')
+              .post('/api/jobs/assign')
+              .send({
+                jobId: parsedJob.jobId,
+                ecsTaskArn: 'arn:aws:ecs:test:new',
+                ecsClusterArn: 'arn:aws:ecs:cluster:test:new',
+              })
+              .expect(200);
+
+            expect(res.body.assignment).toHaveProperty(
+              'job_id',
+              newJob.body.jobId,
+            );
+            expect(res.body.assignment).toHaveProperty('storage_scheme', 'S3');
+            expect(res.body.assignment).toHaveProperty('storage_uri');
+
+            // Verify job status was updated
+            const job = await prisma.job.findUnique({
+              where: { id: newJob.body.jobId },
+            });
+            expect(job?.status).toBe(JobStatus.IN_PROGRESS);
+            expect(job?.attempts).toBe(1);
+          });
+
+          it('should return 404 for non-existent job', async () => {
+            await authRequest(app, 'user1')
+              .post('/api/jobs/assign')
+              .send({
+                jobId: 9999,
+                ecsTaskArn: 'arn:aws:ecs:test',
+                ecsClusterArn: 'arn:aws:ecs:cluster:test',
+              })
+              .expect(404);
+          });
+
+          it('should only assign a job once under concurrent requests', async () => {
+            const newJob = await authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({
+                type: JobType.TEST,
+                inputPayload: {
+                  id: randomInt(10000),
+                },
+              })
+              .expect(200);
+
+            const responses = await Promise.all(
+              Array.from({ length: 5 }, (_, i) =>
+                authRequest(app, 'user1')
+                  .post('/api/jobs/assign')
+                  .send({
+                    jobId: newJob.body.jobId,
+                    ecsTaskArn: `arn:aws:ecs:test:${i}`,
+                    ecsClusterArn: 'arn:aws:ecs:cluster:test',
+                  }),
+              ),
+            );
+
+            expect(responses.filter(r => r.status === 200).length).toBe(1);
+            expect(responses.filter(r => r.status === 400).length).toBe(4);
+
+            const assignments = await prisma.jobAssignment.count({
+              where: { job_id: newJob.body.jobId },
+            });
+            expect(assignments).toBe(1);
+          });
+
+          it('should return 400 for already assigned job', async () => {
+            await prisma.job.update({
+              where: { id: jobId },
+              data: { status: JobStatus.IN_PROGRESS },
+            });
+
+            await authRequest(app, 'user1')
+              .post('/api/jobs/assign')
+              .send({
+                jobId,
+                ecsTaskArn: 'arn:aws:ecs:test',
+                ecsClusterArn: 'arn:aws:ecs:cluster:test',
+              })
+              .expect(400);
+          });
+        });
+
+        describe('POST /api/jobs/claim', () => {
+          it('should claim an available job for a worker', async () => {
+            const newJob = await authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({
+                type: JobType.TEST,
+                inputPayload: {
+                  id: randomInt(10000),
+                },
+              })
+              .expect(200);
+
+            const res = await authRequest(app, 'admin')
+              .post('/api/jobs/claim')
+              .send({
+                jobType: JobType.TEST,
+                ecsTaskArn: 'arn:aws:ecs:test:claim',
+                ecsClusterArn: 'arn:aws:ecs:cluster:test:claim',
+              })
+              .expect(200);
+
+            expect(res.body.job).toHaveProperty('id', newJob.body.jobId);
+            expect(res.body.job).toHaveProperty(
+              'status',
+              JobStatus.IN_PROGRESS,
+            );
+            expect(res.body.assignment).toHaveProperty(
+              'job_id',
+              newJob.body.jobId,
+            );
+          });
+
+          it('should return null when no job is available', async () => {
+            const res = await authRequest(app, 'admin')
+              .post('/api/jobs/claim')
+              .send({
+                jobType: JobType.SUITABILITY_ASSESSMENT,
+                ecsTaskArn: 'arn:aws:ecs:test:claim',
+                ecsClusterArn: 'arn:aws:ecs:cluster:test:claim',
+              })
+              .expect(200);
+
+            expect(res.body.job).toBeNull();
+            expect(res.body.assignment).toBeNull();
+          });
+
+          it('should never hand the same job to concurrent claimers', async () => {
+            const newJob = await authRequest(app, 'user1')
+              .post('/api/jobs')
+              .send({
+                type: JobType.TEST,
+                inputPayload: {
+                  id: randomInt(10000),
+                },
+              })
+              .expect(200);
+
+            const results = await Promise.all(
+              Array.from({ length: 5 }, (_, i) =>
+                new JobService().claimNextJob(
+                  JobType.TEST,
+                  `arn:aws:ecs:test:${i}`,
+                  'arn:aws:ecs:cluster:test',
+                ),
+              ),
+            );
+
+            const claimed = results.filter(r => r !== undefined);
+            expect(claimed.length).toBe(1);
+            expect(claimed[0]!.job.id).toBe(newJob.body.jobId);
+
+            const assignments = await prisma.jobAssignment.count({
+              where: { job_id: newJob.body.jobId },
+            });
+            expect(assignments).toBe(1);
+          });
+        });
+
+        describe('POST /api/jobs/assignments/:id/result', () => {
+          it('should submit successful job results', async () => {
+            const submitted = async () => {
+              const metric = await metricsRegistry
+                .getSingleMetric('reefguide_api_job_results_total')!
+                .get();
+              return (
+                metric.values.find(
+                  value =>
+                    value.labels.type === JobType.TEST &&
+                    value.labels.status === JobStatus.SUCCEEDED,
+                )?.value ?? 0
+              );
+            };
+            const submittedBefore = await submitted();
+
+            await authRequest(app, 'user1')
+              .post(`/api/jobs/assignments/${assignmentId}/result`)
+              .send({
+                status: JobStatus.SUCCEEDED,
+                resultPayload: {},
+              })
+              .expect(200);
+
+            // Verify job was updated
+            const job = await prisma.job.findUnique({
+              where: { id: jobId },
+              include: {
+                assignments: {
+                  include: { result: true },
+                },
+              },
+            });
+            expect(job?.status).toBe(JobStatus.SUCCEEDED);
+            expect(job?.assignments[0].result).toBeTruthy();
+            expect(await submitted()).toBe(submittedBefore + 1);
+          });
+
+          it('should submit failed job results', async () => {
+            await authRequest(app, 'user1')
+              .post(`/api/jobs/assignments/${assignmentId}/result`)
+              .send({
+                status: JobStatus.FAILED,
+                resultPayload: null,
+              })
+              .expect(200);
+
+            const job = await prisma.job.findUnique({ where: { id: jobId } });
+            expect(job?.status).toBe(JobStatus.FAILED);
+          });
+
+          it('should store failure details and surface them on the job', async () => {
+            const failure = {
+              code: 'DATA_NOT_FOUND',
+              message: 'No reef data for region',
+              details: 'x'.repeat(20000) + 'at loadRegion (worker.jl:42)',
+              retryable: false,
+            };
+            await authRequest(app, 'user1')
+              .post(`/api/jobs/assignments/${assignmentId}/result`)
+              .send({ status: JobStatus.FAILED, failure })
+              .expect(200);
+
+            const res = await authRequest(app, 'user1')
+              .get(`/api/jobs/${jobId}`)
+              .expect(200);
+            expect(res.body.job.status).toBe(JobStatus.FAILED);
+            expect(res.body.job.failure_reason).toBe(
+              'DATA_NOT_FOUND: No reef data for region',
+            );
+            const stored = res.body.job.assignments[0].result.failure;
+            expect(stored).toMatchObject({
+              code: 'DATA_NOT_FOUND',
+              retryable: false,
+            });
+            // Long excerpts keep their end
+            expect(stored.details).toHaveLength(10000);
+            expect(stored.details).toMatch(/at loadRegion \(worker.jl:42\)$/);
+
+            await prisma.jobRequest.create({
+              data: {
+                user_id: user1Id,
+                type: JobType.TEST,
+                input_payload: {},
+                cache_hit: false,
+                job_id: jobId,
+              },
+            });
+            const list = await authRequest(app, 'user1')
+              .get('/api/jobs/requests')
+              .expect(200);
+            expect(list.body.jobRequests[0].job.results[0].failure).toEqual(
+              stored,
+            );
+          });
+
+          it('should return 400 for invalid failure details', async () => {
+            await authRequest(app, 'user1')
+              .post(`/api/jobs/assignments/${assignmentId}/result`)
+              .send({
+                status: JobStatus.FAILED,
+                failure: { message: 'No code', retryable: true },
+              })
+              .expect(400);
+          });
+
+          it('should return 400 for failure details on a successful result', async () => {
+            await authRequest(app, 'user1')
+              .post(`/api/jobs/assignments/${assignmentId}/result`)
+              .send({
+                status: JobStatus.SUCCEEDED,
+                resultPayload: {},
+                failure: { code: 'X', message: 'Y', retryable: true },
+              })
+              .expect(400);
+
+            const job = await prisma.job.findUnique({ where: { id: jobId } });
+            expect(job?.status).toBe(JobStatus.PENDING);
+          });
+
+          it('should return 404 for non-existent assignment', async () => {
+            await authRequest(app, 'user1')
+              .post('/api/jobs/assignments/9999/result')
+              .send({
+                status: JobStatus.SUCCEEDED,
+                resultPayload: {},
+              })
+              .expect(404);
+          });
+
+          it('should return 400 for invalid result payload schema', async () => {
+            await authRequest(app, 'user1')
+              .post(`/api/jobs/assignments/${assignmentId}/result`)
+              .send({
+                status: JobStatus.SUCCEEDED,
+                resultPayload: {
+                  invalidField: true,
                 },
               })
+              .expect(400);
+          });
+        });
+
+        describe('Job logs', () => {
+          const appendLogs = (lines: object[], id = assignmentId) =>
+            authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${id}/logs`)
+              .send({ lines });
+
+          afterEach(() => {
+            config.jobLogs.maxLinesPerAssignment = 10000;
+          });
+
+          it('should store worker log lines and return them in order', async () => {
+            const res = await appendLogs([
+              {
+                timestamp: '2026-10-18T01:00:00.000Z',
+                level: 'INFO',
+                message: 'Loading region',
+              },
+              { level: 'ERROR', message: 'x'.repeat(5000) },
+            ]).expect(200);
+            expect(res.body).toEqual({ accepted: 2, dropped: 0 });
+            await appendLogs([{ message: 'Done' }]).expect(200);
+
+            const logs = await authRequest(app, 'user1')
+              .get(`/api/jobs/${jobId}/logs`)
               .expect(200);
-            const parsedJob = createJobResponseSchema.parse(newJob.body);
+            expect(logs.body.hasMore).toBe(false);
+            expect(logs.body.logs).toHaveLength(3);
+            expect(logs.body.logs[0]).toMatchObject({
+              assignment_id: assignmentId,
+              ecs_task_arn: 'arn:aws:ecs:test',
+              logged_at: '2026-10-18T01:00:00.000Z',
+              level: 'INFO',
+              message: 'Loading region',
+            });
+            // Long lines are truncated
+            expect(logs.body.logs[1].message).toHaveLength(4000);
+            expect(logs.body.logs[2]).toMatchObject({
+              level: null,
+              message: 'Done',
+            });
+            expect(logs.body.lastId).toBe(logs.body.logs[2].id);
+          });
+
+          it('should tail logs and page through them', async () => {
+            await appendLogs(
+              ['one', 'two', 'three', 'four'].map(message => ({ message })),
+            ).expect(200);
+
+            const tail = await authRequest(app, 'user1')
+              .get(`/api/jobs/${jobId}/logs`)
+              .query({ tail: 2 })
+              .expect(200);
+            expect(tail.body.logs.map((l: any) => l.message)).toEqual([
+              'three',
+              'four',
+            ]);
+
+            // Nothing new since the tail
+            const none = await authRequest(app, 'user1')
+              .get(`/api/jobs/${jobId}/logs`)
+              .query({ after: tail.body.lastId })
+              .expect(200);
+            expect(none.body.logs).toEqual([]);
+            expect(none.body.lastId).toBe(tail.body.lastId);
+
+            await appendLogs([{ message: 'five' }]).expect(200);
+            const newer = await authRequest(app, 'user1')
+              .get(`/api/jobs/${jobId}/logs`)
+              .query({ after: tail.body.lastId })
+              .expect(200);
+            expect(newer.body.logs.map((l: any) => l.message)).toEqual([
+              'five',
+            ]);
+
+            const page = await authRequest(app, 'user1')
+              .get(`/api/jobs/${jobId}/logs`)
+              .query({ limit: 3 })
+              .expect(200);
+            expect(page.body.logs.map((l: any) => l.message)).toEqual([
+              'one',
+              'two',
+              'three',
+            ]);
+            expect(page.body.hasMore).toBe(true);
+          });
+
+          it('should drop lines beyond the per assignment cap', async () => {
+            config.jobLogs.maxLinesPerAssignment = 3;
+
+            const first = await appendLogs([
+              { message: 'one' },
+              { message: 'two' },
+            ]).expect(200);
+            expect(first.body).toEqual({ accepted: 2, dropped: 0 });
+            const second = await appendLogs([
+              { message: 'three' },
+              { message: 'four' },
+            ]).expect(200);
+            expect(second.body).toEqual({ accepted: 1, dropped: 1 });
+
+            expect(
+              await prisma.jobLog.count({
+                where: { assignment_id: assignmentId },
+              }),
+            ).toBe(3);
+          });
+
+          it("should not return another user's job logs", async () => {
+            await appendLogs([{ message: 'secret' }]).expect(200);
+
+            await authRequest(app, 'user2')
+              .get(`/api/jobs/${jobId}/logs`)
+              .expect(401);
+            await authRequest(app, 'admin')
+              .get(`/api/jobs/${jobId}/logs`)
+              .expect(200);
+          });
+
+          it('should return 404 for a non-existent assignment', async () => {
+            await appendLogs([{ message: 'lost' }], 999999).expect(404);
+          });
+
+          it('should return 401 for non-worker users', async () => {
+            await authRequest(app, 'user1')
+              .post(`/api/jobs/assignments/${assignmentId}/logs`)
+              .send({ lines: [{ message: 'injected' }] })
+              .expect(401);
+            expect(await prisma.jobLog.count()).toBe(0);
+          });
+
+          it('should delete logs past their retention period on sweep', async () => {
+            await appendLogs([{ message: 'old' }, { message: 'new' }]).expect(
+              200,
+            );
+            const old = await prisma.jobLog.findFirstOrThrow({
+              where: { message: 'old' },
+            });
+            await prisma.jobLog.update({
+              where: { id: old.id },
+              data: {
+                created_at: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000),
+              },
+            });
+
+            const res = await authRequest(app, 'admin')
+              .post('/api/admin/jobs/sweep')
+              .expect(200);
+            expect(res.body.deletedLogs).toBe(1);
+
+            const logs = await authRequest(app, 'user1')
+              .get(`/api/jobs/${jobId}/logs`)
+              .expect(200);
+            expect(logs.body.logs.map((l: any) => l.message)).toEqual(['new']);
+          });
+        });
+
+        describe('Job retries', () => {
+          let retryJobId: number;
+          let retryAssignmentId: number;
+
+          // A suitability assessment (up to 3 attempts, backing off 60s then
+          // 120s) part way through its first attempt
+          beforeEach(async () => {
+            const job = await prisma.job.create({
+              data: {
+                type: JobType.SUITABILITY_ASSESSMENT,
+                status: JobStatus.IN_PROGRESS,
+                attempts: 1,
+                user_id: user1Id,
+                input_payload: {},
+                hash: await new JobService().generateJobHash({
+                  payload: { retry: true },
+                  jobType: JobType.SUITABILITY_ASSESSMENT,
+                }),
+              },
+            });
+            retryJobId = job.id;
+            const assignment = await prisma.jobAssignment.create({
+              data: {
+                job_id: retryJobId,
+                ecs_task_arn: 'arn:aws:ecs:test',
+                ecs_cluster_arn: 'arn:aws:ecs:cluster:test',
+                expires_at: new Date(Date.now() + 3600000),
+                storage_scheme: 'S3',
+                storage_uri: 's3://test-bucket/test-path',
+              },
+            });
+            retryAssignmentId = assignment.id;
+          });
+
+          it('should requeue a retryable failure after the backoff', async () => {
+            const before = Date.now();
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${retryAssignmentId}/result`)
+              .send({ status: JobStatus.FAILED })
+              .expect(200);
+
+            const res = await authRequest(app, 'user1')
+              .get(`/api/jobs/${retryJobId}`)
+              .expect(200);
+            expect(res.body.job.status).toBe(JobStatus.PENDING);
+            expect(res.body.job.attempts).toBe(1);
+            const availableAt = new Date(res.body.job.available_at).getTime();
+            expect(availableAt).toBeGreaterThanOrEqual(before + 60000);
+
+            // Not available to workers until the backoff has elapsed
+            const poll = await authRequest(app, 'admin')
+              .get('/api/jobs/poll')
+              .query({ jobType: JobType.SUITABILITY_ASSESSMENT })
+              .expect(200);
+            expect(
+              poll.body.jobs.find((job: any) => job.id === retryJobId),
+            ).toBeUndefined();
+            const claim = await authRequest(app, 'admin')
+              .post('/api/jobs/claim')
+              .send({
+                jobType: JobType.SUITABILITY_ASSESSMENT,
+                ecsTaskArn: 'arn:aws:ecs:test2',
+                ecsClusterArn: 'arn:aws:ecs:cluster:test',
+              })
+              .expect(200);
+            expect(claim.body.job).toBeNull();
+          });
+
+          it('should back off exponentially and be claimable afterwards', async () => {
+            await prisma.job.update({
+              where: { id: retryJobId },
+              data: { attempts: 2 },
+            });
+            const before = Date.now();
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${retryAssignmentId}/result`)
+              .send({ status: JobStatus.FAILED })
+              .expect(200);
+
+            const job = await prisma.job.findUniqueOrThrow({
+              where: { id: retryJobId },
+            });
+            expect(job.available_at!.getTime()).toBeGreaterThanOrEqual(
+              before + 120000,
+            );
+
+            // Once the backoff has elapsed the job can be claimed again
+            await prisma.job.update({
+              where: { id: retryJobId },
+              data: { available_at: new Date(Date.now() - 1000) },
+            });
+            const claim = await authRequest(app, 'admin')
+              .post('/api/jobs/claim')
+              .send({
+                jobType: JobType.SUITABILITY_ASSESSMENT,
+                ecsTaskArn: 'arn:aws:ecs:test2',
+                ecsClusterArn: 'arn:aws:ecs:cluster:test',
+              })
+              .expect(200);
+            expect(claim.body.job.id).toBe(retryJobId);
+            expect(claim.body.job.attempts).toBe(3);
+          });
+
+          it('should dead letter the job once attempts are exhausted', async () => {
+            await prisma.job.update({
+              where: { id: retryJobId },
+              data: { attempts: 3 },
+            });
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${retryAssignmentId}/result`)
+              .send({ status: JobStatus.FAILED })
+              .expect(200);
+
+            const job = await prisma.job.findUniqueOrThrow({
+              where: { id: retryJobId },
+            });
+            expect(job.status).toBe(JobStatus.DEAD_LETTER);
+          });
+
+          it('should not retry a failure the worker says is not retryable', async () => {
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${retryAssignmentId}/result`)
+              .send({
+                status: JobStatus.FAILED,
+                failure: {
+                  code: 'INVALID_CRITERIA',
+                  message: 'depth_min is greater than depth_max',
+                  retryable: false,
+                },
+              })
+              .expect(200);
+
+            const job = await prisma.job.findUniqueOrThrow({
+              where: { id: retryJobId },
+            });
+            expect(job.status).toBe(JobStatus.FAILED);
+            expect(job.failure_reason).toBe(
+              'INVALID_CRITERIA: depth_min is greater than depth_max',
+            );
+          });
+
+          it('should include the last failure when dead lettering', async () => {
+            await prisma.job.update({
+              where: { id: retryJobId },
+              data: { attempts: 3 },
+            });
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${retryAssignmentId}/result`)
+              .send({
+                status: JobStatus.FAILED,
+                failure: {
+                  code: 'OUT_OF_MEMORY',
+                  message: 'Worker ran out of memory',
+                  retryable: true,
+                },
+              })
+              .expect(200);
+
+            const job = await prisma.job.findUniqueOrThrow({
+              where: { id: retryJobId },
+            });
+            expect(job.status).toBe(JobStatus.DEAD_LETTER);
+            expect(job.failure_reason).toBe(
+              'Exhausted 3 attempt(s), last outcome FAILED (OUT_OF_MEMORY: Worker ran out of memory)',
+            );
+          });
+
+          it('should download the successful attempt after a retry', async () => {
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${retryAssignmentId}/result`)
+              .send({ status: JobStatus.FAILED })
+              .expect(200);
+            await prisma.job.update({
+              where: { id: retryJobId },
+              data: { available_at: new Date(Date.now() - 1000) },
+            });
+            const claim = await authRequest(app, 'admin')
+              .post('/api/jobs/claim')
+              .send({
+                jobType: JobType.SUITABILITY_ASSESSMENT,
+                ecsTaskArn: 'arn:aws:ecs:test2',
+                ecsClusterArn: 'arn:aws:ecs:cluster:test',
+              })
+              .expect(200);
+            const retryAssignment = claim.body.assignment;
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${retryAssignment.id}/result`)
+              .send({ status: JobStatus.SUCCEEDED })
+              .expect(200);
+
+            const presign = jest
+              .spyOn(S3StorageService.prototype, 'getPresignedUrls')
+              .mockResolvedValue({ 'result.json': 'https://signed/result' });
+            try {
+              const res = await authRequest(app, 'user1')
+                .get(`/api/jobs/${retryJobId}/download`)
+                .expect(200);
+              expect(res.body.files).toEqual({
+                'result.json': 'https://signed/result',
+              });
+              expect(presign).toHaveBeenCalledWith(
+                retryAssignment.storage_uri,
+                expect.any(Number),
+              );
+              expect(retryAssignment.storage_uri).not.toBe(
+                's3://test-bucket/test-path',
+              );
+            } finally {
+              presign.mockRestore();
+            }
+          });
+        });
+
+        describe('GET /api/admin/jobs/stats', () => {
+          // A window an hour ago, clear of the job from beforeEach
+          const start = new Date(Date.now() - 60 * 60 * 1000);
+          const at = (seconds: number) =>
+            new Date(start.getTime() + seconds * 1000);
+          const window = {
+            from: start.toISOString(),
+            to: at(10 * 60).toISOString(),
+          };
+
+          // Creates a job assigned after waitSeconds, whose attempt ended
+          // after runSeconds more
+          const createRunJob = async (
+            status: JobStatus,
+            waitSeconds: number,
+            runSeconds: number,
+          ) => {
+            const job = await prisma.job.create({
+              data: {
+                type: JobType.TEST,
+                status,
+                user_id: user1Id,
+                input_payload: {},
+                hash: `stats-${waitSeconds}`,
+                created_at: at(0),
+                updated_at: at(waitSeconds + runSeconds),
+              },
+            });
+            const assignment = await prisma.jobAssignment.create({
+              data: {
+                job_id: job.id,
+                ecs_task_arn: 'arn:aws:ecs:test',
+                ecs_cluster_arn: 'arn:aws:ecs:cluster:test',
+                expires_at: at(waitSeconds + 60),
+                storage_scheme: 'S3',
+                storage_uri: 's3://test-bucket/test-path',
+                created_at: at(waitSeconds),
+                completed_at: at(waitSeconds + runSeconds),
+                timed_out: status === JobStatus.TIMED_OUT,
+              },
+            });
+            return { job, assignment };
+          };
+
+          it('should report queue depth, durations and rates', async () => {
+            const { job, assignment } = await createRunJob(
+              JobStatus.SUCCEEDED,
+              10,
+              20,
+            );
+            await prisma.jobResult.create({
+              data: {
+                job_id: job.id,
+                assignment_id: assignment.id,
+                storage_scheme: 'S3',
+                storage_uri: assignment.storage_uri,
+              },
+            });
+            await createRunJob(JobStatus.TIMED_OUT, 20, 80);
+            for (const cacheHit of [false, false, true]) {
+              await prisma.jobRequest.create({
+                data: {
+                  user_id: user1Id,
+                  type: JobType.TEST,
+                  input_payload: {},
+                  cache_hit: cacheHit,
+                  job_id: job.id,
+                  created_at: at(5),
+                },
+              });
+            }
+
+            const res = await authRequest(app, 'admin')
+              .get('/api/admin/jobs/stats')
+              .query(window)
+              .expect(200);
+
+            expect(res.body.window).toEqual(window);
+            expect(res.body.queue).toEqual([
+              { type: JobType.TEST, status: JobStatus.PENDING, count: 1 },
+            ]);
+            const expected = {
+              waitSeconds: { count: 2, p50: 15, p95: 19.5 },
+              runSeconds: { count: 1, p50: 20, p95: 20 },
+              attempts: { completed: 2, timedOut: 1, timeoutRate: 0.5 },
+              outcomes: {
+                finished: 2,
+                succeeded: 1,
+                failed: 0,
+                timedOut: 1,
+                deadLettered: 0,
+                cancelled: 0,
+                failureRate: 0,
+                timeoutRate: 0.5,
+              },
+              requests: { total: 3, cacheHits: 1, cacheHitRatio: 1 / 3 },
+            };
+            expect(res.body.types.TEST).toEqual(expected);
+            expect(res.body.overall).toEqual(expected);
+            expect(res.body.types.REGIONAL_ASSESSMENT).toEqual({
+              waitSeconds: { count: 0, p50: null, p95: null },
+              runSeconds: { count: 0, p50: null, p95: null },
+              attempts: { completed: 0, timedOut: 0, timeoutRate: null },
+              outcomes: {
+                finished: 0,
+                succeeded: 0,
+                failed: 0,
+                timedOut: 0,
+                deadLettered: 0,
+                cancelled: 0,
+                failureRate: null,
+                timeoutRate: null,
+              },
+              requests: { total: 0, cacheHits: 0, cacheHitRatio: null },
+            });
+          });
+
+          it('should default to the last 24 hours', async () => {
+            const res = await authRequest(app, 'admin')
+              .get('/api/admin/jobs/stats')
+              .expect(200);
+            const { from, to } = res.body.window;
+            expect(Date.parse(to) - Date.parse(from)).toBe(24 * 60 * 60 * 1000);
+            // The job from beforeEach was assigned straight away
+            expect(res.body.overall.waitSeconds.count).toBe(1);
+          });
+
+          it('should return 400 if the window is empty', async () => {
+            await authRequest(app, 'admin')
+              .get('/api/admin/jobs/stats')
+              .query({ from: window.to, to: window.from })
+              .expect(400);
+          });
+
+          it('should return 401 for non-admins', async () => {
+            await authRequest(app, 'user1')
+              .get('/api/admin/jobs/stats')
+              .expect(401);
+          });
+        });
+
+        describe('Dead letter administration', () => {
+          beforeEach(async () => {
+            await prisma.job.update({
+              where: { id: jobId },
+              data: {
+                status: JobStatus.DEAD_LETTER,
+                attempts: 2,
+                failure_reason: 'Exhausted 2 attempt(s), last outcome FAILED',
+              },
+            });
+            await prisma.jobAssignment.update({
+              where: { id: assignmentId },
+              data: { completed_at: new Date() },
+            });
+          });
+
+          it('should list dead lettered jobs with assignment history', async () => {
+            const res = await authRequest(app, 'admin')
+              .get('/api/admin/jobs/dead-letter')
+              .expect(200);
+
+            const job = res.body.jobs.find((j: any) => j.id === jobId);
+            expect(job).toBeDefined();
+            expect(job.assignments).toHaveLength(1);
+            expect(job.assignments[0].id).toBe(assignmentId);
+            expect(
+              res.body.jobs.every(
+                (j: any) => j.status === JobStatus.DEAD_LETTER,
+              ),
+            ).toBe(true);
+          });
+
+          it('should requeue a dead lettered job with an edited payload', async () => {
+            const res = await authRequest(app, 'admin')
+              .post(`/api/admin/jobs/${jobId}/requeue`)
+              .send({ inputPayload: { id: 42 } })
+              .expect(200);
+
+            expect(res.body.job.status).toBe(JobStatus.PENDING);
+            expect(res.body.job.attempts).toBe(0);
+            expect(res.body.job.failure_reason).toBeNull();
+            expect(res.body.job.input_payload).toEqual({ id: 42 });
+            const job = await prisma.job.findUniqueOrThrow({
+              where: { id: jobId },
+            });
+            expect(job.hash).toBe(
+              await new JobService().generateJobHash({
+                payload: { id: 42 },
+                jobType: JobType.TEST,
+              }),
+            );
+          });
+
+          it('should return 400 when requeueing with an invalid payload', async () => {
+            await authRequest(app, 'admin')
+              .post(`/api/admin/jobs/${jobId}/requeue`)
+              .send({ inputPayload: { id: 'not a number' } })
+              .expect(400);
+          });
+
+          it('should return 400 when requeueing a succeeded job', async () => {
+            await prisma.job.update({
+              where: { id: jobId },
+              data: { status: JobStatus.SUCCEEDED },
+            });
+
+            await authRequest(app, 'admin')
+              .post(`/api/admin/jobs/${jobId}/requeue`)
+              .send({})
+              .expect(400);
+          });
+
+          it('should permanently fail a job with a reason', async () => {
+            const res = await authRequest(app, 'admin')
+              .post(`/api/admin/jobs/${jobId}/fail`)
+              .send({ reason: 'Input data is corrupt' })
+              .expect(200);
+
+            expect(res.body.job.status).toBe(JobStatus.FAILED);
+            expect(res.body.job.failure_reason).toBe('Input data is corrupt');
+          });
+
+          it('should return 404 when failing a non-existent job', async () => {
+            await authRequest(app, 'admin')
+              .post('/api/admin/jobs/9999/fail')
+              .send({ reason: 'Gone' })
+              .expect(404);
+          });
+
+          it('should return 401 for non-admin users', async () => {
+            await authRequest(app, 'user1')
+              .post(`/api/admin/jobs/${jobId}/requeue`)
+              .send({})
+              .expect(401);
+          });
+        });
+
+        describe('Job priority and fair-share ordering', () => {
+          let user2Id: number;
+
+          // Creates a pending TEST job for a user, created `ageSeconds` ago
+          const createPendingJob = async (
+            userId: number,
+            ageSeconds: number,
+            priority: number = 0,
+          ) => {
+            const payload = { id: randomInt(1000000) };
+            const job = await prisma.job.create({
+              data: {
+                type: JobType.TEST,
+                status: JobStatus.PENDING,
+                user_id: userId,
+                input_payload: payload,
+                priority,
+                created_at: new Date(Date.now() - ageSeconds * 1000),
+                hash: await new JobService().generateJobHash({
+                  payload,
+                  jobType: JobType.TEST,
+                }),
+              },
+            });
+            return job.id;
+          };
+
+          beforeEach(async () => {
+            const user2 = await prisma.user.findUniqueOrThrow({
+              where: { email: user2Email },
+            });
+            user2Id = user2.id;
+            // Start from an empty queue
+            await prisma.job.updateMany({
+              where: { status: JobStatus.PENDING },
+              data: { status: JobStatus.CANCELLED },
+            });
+          });
+
+          it('should default priority by job type', async () => {
             const res = await authRequest(app, 'user1')
-              .post('/api/jobs/assign')
+              .post('/api/jobs')
               .send({
-                jobId: parsedJob.jobId,
-                ecsTaskArn: 'arn:aws:ecs:test:new',
-                ecsClusterArn: 'arn:aws:ecs:cluster:test:new',
+                type: JobType.TEST,
+                inputPayload: { id: randomInt(1000000) },
               })
               .expect(200);
 
-            expect(res.body.assignment).toHaveProperty(
-              'job_id',
-              newJob.body.jobId,
-            );
-            expect(res.body.assignment).toHaveProperty('storage_scheme', 'S3');
-            expect(res.body.assignment).toHaveProperty('storage_uri');
-
-            // Verify job status was updated
-            const job = await prisma.job.findUnique({
-              where: { id: newJob.body.jobId },
+            const job = await prisma.job.findUniqueOrThrow({
+              where: { id: res.body.jobId },
             });
-            expect(job?.status).toBe(JobStatus.IN_PROGRESS);
+            expect(job.priority).toBe(0);
           });
 
-          it('should return 404 for non-existent job', async () => {
-            await authRequest(app, 'user1')
-              .post('/api/jobs/assign')
+          it('should round-robin across users within a priority band', async () => {
+            // user1 submits a batch before user2 submits a single job
+            const user1Jobs = [
+              await createPendingJob(user1Id, 30),
+              await createPendingJob(user1Id, 20),
+              await createPendingJob(user1Id, 10),
+            ];
+            const user2Job = await createPendingJob(user2Id, 5);
+
+            const res = await authRequest(app, 'admin')
+              .get('/api/jobs/poll')
+              .expect(200);
+
+            expect(res.body.jobs.map((job: any) => job.id)).toEqual([
+              user1Jobs[0],
+              user2Job,
+              user1Jobs[1],
+              user1Jobs[2],
+            ]);
+          });
+
+          it('should claim higher priority jobs first', async () => {
+            await createPendingJob(user1Id, 30);
+            const urgent = await createPendingJob(user2Id, 5, 5);
+
+            const claim = await authRequest(app, 'admin')
+              .post('/api/jobs/claim')
               .send({
-                jobId: 9999,
-                ecsTaskArn: 'arn:aws:ecs:test',
+                ecsTaskArn: 'arn:aws:ecs:test2',
                 ecsClusterArn: 'arn:aws:ecs:cluster:test',
               })
+              .expect(200);
+
+            expect(claim.body.job.id).toBe(urgent);
+          });
+
+          it('should allow admins to set a job priority', async () => {
+            const older = await createPendingJob(user1Id, 30);
+            const newer = await createPendingJob(user1Id, 5);
+
+            const res = await authRequest(app, 'admin')
+              .put(`/api/admin/jobs/${newer}/priority`)
+              .send({ priority: 100 })
+              .expect(200);
+            expect(res.body.job.priority).toBe(100);
+
+            const poll = await authRequest(app, 'admin')
+              .get('/api/jobs/poll')
+              .expect(200);
+            expect(poll.body.jobs.map((job: any) => job.id)).toEqual([
+              newer,
+              older,
+            ]);
+          });
+
+          it('should return 401 when a non-admin sets priority', async () => {
+            await authRequest(app, 'user1')
+              .put(`/api/admin/jobs/${jobId}/priority`)
+              .send({ priority: 100 })
+              .expect(401);
+          });
+
+          it('should return 404 when setting priority of a non-existent job', async () => {
+            await authRequest(app, 'admin')
+              .put('/api/admin/jobs/9999/priority')
+              .send({ priority: 1 })
               .expect(404);
           });
+        });
 
-          it('should return 400 for already assigned job', async () => {
+        describe('POST /api/jobs/assignments/:id/heartbeat', () => {
+          it('should record the heartbeat and renew the lease', async () => {
+            const before = await prisma.jobAssignment.update({
+              where: { id: assignmentId },
+              data: { expires_at: new Date(Date.now() + 60000) },
+            });
+
+            const res = await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${assignmentId}/heartbeat`)
+              .expect(200);
+
+            expect(res.body.cancelled).toBe(false);
+            const after = await prisma.jobAssignment.findUniqueOrThrow({
+              where: { id: assignmentId },
+            });
+            expect(after.heartbeat_at).not.toBeNull();
+            expect(after.expires_at.getTime()).toBeGreaterThan(
+              before.expires_at.getTime(),
+            );
+          });
+
+          it('should report when the job has been cancelled', async () => {
+            await prisma.job.update({
+              where: { id: jobId },
+              data: { status: JobStatus.CANCELLED },
+            });
+
+            const res = await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${assignmentId}/heartbeat`)
+              .expect(200);
+
+            expect(res.body.cancelled).toBe(true);
+          });
+
+          it('should return 400 for a completed assignment', async () => {
+            await prisma.jobAssignment.update({
+              where: { id: assignmentId },
+              data: { completed_at: new Date() },
+            });
+
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${assignmentId}/heartbeat`)
+              .expect(400);
+          });
+
+          it('should return 404 for non-existent assignment', async () => {
+            await authRequest(app, 'admin')
+              .post('/api/jobs/assignments/9999/heartbeat')
+              .expect(404);
+          });
+        });
+
+        describe('POST /api/jobs/assignments/:id/progress', () => {
+          beforeEach(async () => {
             await prisma.job.update({
               where: { id: jobId },
               data: { status: JobStatus.IN_PROGRESS },
             });
+          });
+
+          it('should record progress visible in the job details', async () => {
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${assignmentId}/progress`)
+              .send({ percent: 42.5, stage: 'render', message: 'Tile 3/7' })
+              .expect(200);
+
+            const res = await authRequest(app, 'user1')
+              .get(`/api/jobs/${jobId}`)
+              .expect(200);
+            const assignment = res.body.job.assignments.find(
+              (a: any) => a.id === assignmentId,
+            );
+            expect(assignment.progress_percent).toBe(42.5);
+            expect(assignment.progress_stage).toBe('render');
+            expect(assignment.progress_message).toBe('Tile 3/7');
+            expect(assignment.progress_at).not.toBeNull();
+          });
+
+          it('should return 400 for an assignment which is no longer active', async () => {
+            await prisma.jobAssignment.update({
+              where: { id: assignmentId },
+              data: { completed_at: new Date(), timed_out: true },
+            });
+
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${assignmentId}/progress`)
+              .send({ percent: 50 })
+              .expect(400);
+          });
+
+          it('should return 400 for an out of range percent', async () => {
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${assignmentId}/progress`)
+              .send({ percent: 150 })
+              .expect(400);
+          });
+
+          it('should return 404 for non-existent assignment', async () => {
+            await authRequest(app, 'admin')
+              .post('/api/jobs/assignments/9999/progress')
+              .send({ percent: 50 })
+              .expect(404);
+          });
 
+          it('should return 401 for non-worker users', async () => {
             await authRequest(app, 'user1')
-              .post('/api/jobs/assign')
+              .post(`/api/jobs/assignments/${assignmentId}/progress`)
+              .send({ percent: 50 })
+              .expect(401);
+          });
+        });
+
+        describe('POST /api/admin/jobs/sweep', () => {
+          beforeEach(async () => {
+            // The assignment's lease has lapsed without a heartbeat
+            await prisma.job.update({
+              where: { id: jobId },
+              data: { status: JobStatus.IN_PROGRESS },
+            });
+            await prisma.jobAssignment.update({
+              where: { id: assignmentId },
+              data: { expires_at: new Date(Date.now() - 1000) },
+            });
+          });
+
+          it('should time out expired assignments and requeue the job', async () => {
+            const res = await authRequest(app, 'admin')
+              .post('/api/admin/jobs/sweep')
+              .expect(200);
+
+            expect(res.body).toEqual({
+              timedOut: 1,
+              requeued: 1,
+              deletedLogs: 0,
+            });
+            const assignment = await prisma.jobAssignment.findUniqueOrThrow({
+              where: { id: assignmentId },
+            });
+            expect(assignment.timed_out).toBe(true);
+            expect(assignment.completed_at).not.toBeNull();
+            const job = await prisma.job.findUniqueOrThrow({
+              where: { id: jobId },
+            });
+            expect(job.status).toBe(JobStatus.PENDING);
+
+            // The requeued job can be claimed again
+            const claim = await authRequest(app, 'admin')
+              .post('/api/jobs/claim')
               .send({
-                jobId,
-                ecsTaskArn: 'arn:aws:ecs:test',
+                jobType: 'TEST',
+                ecsTaskArn: 'arn:aws:ecs:test2',
                 ecsClusterArn: 'arn:aws:ecs:cluster:test',
               })
+              .expect(200);
+            expect(claim.body.job.id).toBe(jobId);
+          });
+
+          it('should dead letter the job once attempts are exhausted', async () => {
+            // TEST jobs get at most two attempts
+            await prisma.job.update({
+              where: { id: jobId },
+              data: { attempts: 2 },
+            });
+
+            const res = await authRequest(app, 'admin')
+              .post('/api/admin/jobs/sweep')
+              .expect(200);
+
+            expect(res.body).toEqual({
+              timedOut: 1,
+              requeued: 0,
+              deletedLogs: 0,
+            });
+            const job = await prisma.job.findUniqueOrThrow({
+              where: { id: jobId },
+            });
+            expect(job.status).toBe(JobStatus.DEAD_LETTER);
+            expect(job.failure_reason).toContain('TIMED_OUT');
+          });
+
+          it('should reject heartbeats for a timed out assignment', async () => {
+            await authRequest(app, 'admin')
+              .post('/api/admin/jobs/sweep')
+              .expect(200);
+
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${assignmentId}/heartbeat`)
               .expect(400);
           });
+
+          it('should return 401 for non-admin users', async () => {
+            await authRequest(app, 'user1')
+              .post('/api/admin/jobs/sweep')
+              .expect(401);
+          });
         });
 
-        describe('POST /api/jobs/assignments/:id/result', () => {
-          it('should submit successful job results', async () => {
+        describe('Job event streams', () => {
+          let server: http.Server;
+
+          beforeAll(done => {
+            server = app.listen(0, done);
+          });
+
+          afterAll(done => {
+            server.close(done);
+          });
+
+          it('should stream the current status then status changes', async () => {
+            const stream = await openEventStream(
+              server,
+              `/api/jobs/${jobId}/events`,
+            );
+            expect(stream.status).toBe(200);
+            await stream.waitFor(
+              e => e.event === 'status' && e.data.status === JobStatus.PENDING,
+            );
+
             await authRequest(app, 'user1')
-              .post(`/api/jobs/assignments/${assignmentId}/result`)
-              .send({
-                status: JobStatus.SUCCEEDED,
-                resultPayload: {},
-              })
+              .post(`/api/jobs/${jobId}/cancel`)
               .expect(200);
 
-            // Verify job was updated
-            const job = await prisma.job.findUnique({
+            const event = await stream.waitFor(
+              e =>
+                e.event === 'status' && e.data.status === JobStatus.CANCELLED,
+            );
+            expect(event.data).toMatchObject({ jobId, userId: user1Id });
+            stream.close();
+          });
+
+          it('should stream worker progress', async () => {
+            await prisma.job.update({
               where: { id: jobId },
-              include: {
-                assignments: {
-                  include: { result: true },
-                },
-              },
+              data: { status: JobStatus.IN_PROGRESS },
             });
-            expect(job?.status).toBe(JobStatus.SUCCEEDED);
-            expect(job?.assignments[0].result).toBeTruthy();
+            const stream = await openEventStream(
+              server,
+              `/api/jobs/${jobId}/events`,
+            );
+            await stream.waitFor(e => e.event === 'status');
+
+            await authRequest(app, 'admin')
+              .post(`/api/jobs/assignments/${assignmentId}/progress`)
+              .send({ percent: 60, stage: 'render' })
+              .expect(200);
+
+            const event = await stream.waitFor(e => e.event === 'progress');
+            expect(event.data.progress).toEqual({
+              percent: 60,
+              stage: 'render',
+              message: null,
+            });
+            stream.close();
           });
 
-          it('should submit failed job results', async () => {
-            await authRequest(app, 'user1')
+          it("should only stream the user's own jobs on the user stream", async () => {
+            const user1Stream = await openEventStream(
+              server,
+              '/api/jobs/events',
+              'user1',
+            );
+            const user2Stream = await openEventStream(
+              server,
+              '/api/jobs/events',
+              'user2',
+            );
+
+            await authRequest(app, 'admin')
               .post(`/api/jobs/assignments/${assignmentId}/result`)
-              .send({
-                status: JobStatus.FAILED,
-                resultPayload: null,
-              })
+              .send({ status: JobStatus.SUCCEEDED, resultPayload: {} })
               .expect(200);
 
-            const job = await prisma.job.findUnique({ where: { id: jobId } });
-            expect(job?.status).toBe(JobStatus.FAILED);
+            const event = await user1Stream.waitFor(e => e.event === 'result');
+            expect(event.data).toMatchObject({
+              jobId,
+              status: JobStatus.SUCCEEDED,
+            });
+            expect(user2Stream.events).toHaveLength(0);
+            user1Stream.close();
+            user2Stream.close();
           });
 
-          it('should return 404 for non-existent assignment', async () => {
+          it('should return 401 if user is not the owner', async () => {
+            await authRequest(app, 'user2')
+              .get(`/api/jobs/${jobId}/events`)
+              .expect(401);
+          });
+
+          it('should return 404 for non-existent job', async () => {
             await authRequest(app, 'user1')
-              .post('/api/jobs/assignments/9999/result')
-              .send({
-                status: JobStatus.SUCCEEDED,
-                resultPayload: {},
-              })
+              .get('/api/jobs/9999/events')
               .expect(404);
           });
+        });
 
-          it('should return 400 for invalid result payload schema', async () => {
-            await authRequest(app, 'user1')
-              .post(`/api/jobs/assignments/${assignmentId}/result`)
+        describe('GET /api/jobs/types', () => {
+          it('should describe every job type from the registry', async () => {
+            const res = await authRequest(app, 'user1')
+              .get('/api/jobs/types')
+              .expect(200);
+
+            expect(
+              res.body.types.map((t: { type: JobType }) => t.type).sort(),
+            ).toEqual(Object.values(JobType).sort());
+            const regional = res.body.types.find(
+              (t: { type: JobType }) => t.type === JobType.REGIONAL_ASSESSMENT,
+            );
+            expect(regional).toMatchObject({
+              expiryMinutes: jobTypeRegistry.REGIONAL_ASSESSMENT.expiryMinutes,
+              retry: { maxAttempts: 2 },
+              storage: { scheme: 'S3', prefix: 'results/regional_assessment' },
+            });
+          });
+
+          it('should include JSON Schemas of the payloads', async () => {
+            const res = await authRequest(app, 'user1')
+              .get('/api/jobs/types')
+              .expect(200);
+
+            const suitability = res.body.types.find(
+              (t: { type: JobType }) =>
+                t.type === JobType.SUITABILITY_ASSESSMENT,
+            );
+            const { inputSchema, resultSchema } = suitability;
+            expect(inputSchema.type).toBe('object');
+            expect(inputSchema.additionalProperties).toBe(false);
+            expect(inputSchema.required).toEqual(
+              expect.arrayContaining(['region', 'reef_type', 'x_dist']),
+            );
+            expect(inputSchema.required).not.toContain('depth_min');
+            expect(inputSchema.properties.depth_min).toEqual({
+              type: 'number',
+              description: 'The depth minimum (the deeper more negative value)',
+            });
+            expect(inputSchema.properties.threshold.default).toBe(95);
+            expect(suitability.defaults).toEqual({ threshold: 95 });
+            expect(resultSchema.properties.geojson_path.type).toBe('string');
+          });
+
+          it('should return 401 if not authenticated', async () => {
+            await request(app).get('/api/jobs/types').expect(401);
+          });
+        });
+
+        describe('Job type registry', () => {
+          it('should be consistent with the code and database', async () => {
+            expect(findJobTypeRegistryProblems()).toEqual([]);
+            await expect(assertJobTypesConsistent()).resolves.toBeUndefined();
+          });
+
+          it('should use the type storage layout for assignments', async () => {
+            const created = await authRequest(app, 'user1')
+              .post('/api/jobs')
               .send({
-                status: JobStatus.SUCCEEDED,
-                resultPayload: {
-                  invalidField: true,
-                },
+                type: JobType.TEST,
+                inputPayload: { id: randomInt(1000000) },
               })
-              .expect(400);
+              .expect(200);
+            const res = await authRequest(app, 'user1')
+              .post('/api/jobs/assign')
+              .send({
+                jobId: created.body.jobId,
+                ecsTaskArn: 'arn:aws:ecs:test',
+                ecsClusterArn: 'arn:aws:ecs:cluster:test',
+              })
+              .expect(200);
+
+            expect(res.body.assignment.storage_uri).toMatch(
+              new RegExp(
+                `^s3://${config.s3.bucketName}/results/test/${created.body.jobId}/`,
+              ),
+            );
           });
         });
 
@@ -1008,6 +4328,57 @@ describe('API', () => {
             expect(res.body.job).toHaveProperty('status', JobStatus.CANCELLED);
           });
 
+          describe('while in progress', () => {
+            beforeEach(async () => {
+              await prisma.job.update({
+                where: { id: jobId },
+                data: { status: JobStatus.IN_PROGRESS },
+              });
+            });
+
+            it('should cancel the job and release its assignment', async () => {
+              const res = await authRequest(app, 'user1')
+                .post(`/api/jobs/${jobId}/cancel`)
+                .expect(200);
+
+              expect(res.body.job.status).toBe(JobStatus.CANCELLED);
+              expect(res.body.job.cancellation_requested_at).not.toBeNull();
+              const assignment = await prisma.jobAssignment.findUniqueOrThrow({
+                where: { id: assignmentId },
+              });
+              expect(assignment.completed_at).not.toBeNull();
+            });
+
+            it('should tell the worker to stop on its next heartbeat', async () => {
+              await authRequest(app, 'user1')
+                .post(`/api/jobs/${jobId}/cancel`)
+                .expect(200);
+
+              const res = await authRequest(app, 'admin')
+                .post(`/api/jobs/assignments/${assignmentId}/heartbeat`)
+                .expect(200);
+              expect(res.body.cancelled).toBe(true);
+            });
+
+            it('should reject a late result from the worker', async () => {
+              await authRequest(app, 'user1')
+                .post(`/api/jobs/${jobId}/cancel`)
+                .expect(200);
+
+              await authRequest(app, 'admin')
+                .post(`/api/jobs/assignments/${assignmentId}/result`)
+                .send({ status: JobStatus.SUCCEEDED, resultPayload: {} })
+                .expect(400);
+
+              const job = await prisma.job.findUniqueOrThrow({
+                where: { id: jobId },
+                include: { results: true },
+              });
+              expect(job.status).toBe(JobStatus.CANCELLED);
+              expect(job.results).toHaveLength(0);
+            });
+          });
+
           it('should return 401 if user is not the owner', async () => {
             await authRequest(app, 'user2')
               .post(`/api/jobs/${jobId}/cancel`)